@@ -0,0 +1,261 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { HandCalibration, Handedness, Point, PrivacyMode } from '../types';
+import { DEFAULT_CALIBRATION, PINCH_CYCLES, countPinches, deriveActiveArea, derivePinchThresholds, getPinchDist, getPinchPoint, mapLandmarks, pickHand, toPlayPoint } from './handCalibration';
+import { createPinchDetector } from './handFilter';
+import { drawCameraFeed } from './cameraFeed';
+import { Hand, XCircle, RotateCcw, CheckCircle2, FlipHorizontal } from 'lucide-react';
+
+type Step = 'pinch' | 'reach' | 'preferences';
+
+const STEPS: Step[] = ['pinch', 'reach', 'preferences'];
+const MAX_PINCH_SAMPLES = 600; // About 20 s of camera frames
+
+// Reach targets as screen fractions, top-left first and clockwise. The canvas is mirrored by CSS, so x is flipped when drawn
+const CORNERS: Point[] = [{ x: 0.08, y: 0.1 }, { x: 0.92, y: 0.1 }, { x: 0.92, y: 0.9 }, { x: 0.08, y: 0.9 }];
+
+const HANDEDNESS_LABELS: Record<Handedness, string> = { any: 'Either hand', left: 'Left hand', right: 'Right hand' };
+
+interface CalibrationWizardProps {
+  initial?: HandCalibration; // Mirror and hand preferences start from here
+  handFeed: React.MutableRefObject<((results: any) => void) | null>; // Set while open; receives every MediaPipe result
+  privacy: PrivacyMode;
+  onSave: (calibration: HandCalibration) => void;
+  onClose: () => void;
+}
+
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ initial, handFeed, privacy, onSave, onClose }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const latestResults = useRef<any>(null);
+  const trackedHand = useRef<{ landmarks: any[], pinching: boolean } | null>(null);
+  const progress = useRef({ samples: [] as number[], reached: [] as Point[] });
+  const [pinch] = useState(() => createPinchDetector());
+
+  const [step, setStep] = useState<Step>('pinch');
+  const [pinches, setPinches] = useState(0);
+  const [corner, setCorner] = useState(0);
+  const [handSeen, setHandSeen] = useState(false);
+  const [draft, setDraft] = useState<HandCalibration>(() => ({ ...DEFAULT_CALIBRATION, mirror: initial?.mirror ?? true, handedness: initial?.handedness || 'any' }));
+
+  // The loop reads these; they are written before the state so the next camera frame already sees them
+  const stepRef = useRef<Step>(step);
+  const draftRef = useRef<HandCalibration>(draft);
+
+  const goTo = (next: Step) => {
+      stepRef.current = next;
+      setStep(next);
+  };
+
+  const updateDraft = (changes: Partial<HandCalibration>) => {
+      draftRef.current = { ...draftRef.current, ...changes };
+      setDraft(draftRef.current);
+  };
+
+  const restart = () => {
+      progress.current = { samples: [], reached: [] };
+      pinch.reset();
+      updateDraft({ pinchGrab: DEFAULT_CALIBRATION.pinchGrab, pinchRelease: DEFAULT_CALIBRATION.pinchRelease, area: DEFAULT_CALIBRATION.area });
+      setPinches(0);
+      setCorner(0);
+      goTo('pinch');
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    if (!canvas || !container) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    let frameId = 0;
+    let processedResults: any = null;
+
+    handFeed.current = (results: any) => { latestResults.current = results; };
+
+    const processHands = (results: any) => {
+      const calibration = draftRef.current;
+      // The hand preference only applies once it can be chosen; either hand calibrates
+      const landmarks = pickHand(results, stepRef.current === 'preferences' ? calibration.handedness : 'any');
+      const now = performance.now();
+      setHandSeen(!!landmarks);
+      if (!landmarks) {
+          pinch.update(calibration, Infinity, now);
+          trackedHand.current = null;
+          return;
+      }
+      const dist = getPinchDist(landmarks);
+      const p = progress.current;
+
+      if (stepRef.current === 'pinch') {
+          p.samples.push(dist);
+          if (p.samples.length > MAX_PINCH_SAMPLES) p.samples.shift();
+          const thresholds = derivePinchThresholds(p.samples);
+          const count = thresholds ? countPinches(p.samples, thresholds) : 0;
+          setPinches(Math.min(count, PINCH_CYCLES));
+          if (thresholds && count >= PINCH_CYCLES) {
+              updateDraft(thresholds);
+              pinch.reset();
+              goTo('reach');
+          }
+      } else if (stepRef.current === 'reach') {
+          // Each new pinch records where the hand got to
+          const wasPinching = pinch.isPinching();
+          if (pinch.update(calibration, dist, now) && !wasPinching) {
+              p.reached.push(getPinchPoint(landmarks));
+              setCorner(p.reached.length);
+              if (p.reached.length === CORNERS.length) {
+                  updateDraft({ area: deriveActiveArea(p.reached) });
+                  goTo('preferences');
+              }
+          }
+      } else {
+          pinch.update(calibration, dist, now);
+      }
+      trackedHand.current = { landmarks, pinching: pinch.isPinching() };
+    };
+
+    const render = (now: number) => {
+      const calibration = draftRef.current;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      const results = latestResults.current;
+      drawCameraFeed(ctx, results, privacy, !calibration.mirror);
+      ctx.fillStyle = 'rgba(15, 23, 42, 0.7)';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+      if (stepRef.current === 'reach') {
+          const reached = progress.current.reached.length;
+          CORNERS.forEach((c, i) => {
+              const x = (1 - c.x) * canvas.width;
+              const y = c.y * canvas.height;
+              ctx.beginPath();
+              if (i === reached) {
+                  ctx.arc(x, y, 30 + Math.sin(now / 200) * 6, 0, Math.PI * 2);
+                  ctx.fillStyle = 'rgba(251, 191, 36, 0.25)';
+                  ctx.fill();
+                  ctx.strokeStyle = '#fbbf24';
+              } else {
+                  ctx.arc(x, y, 12, 0, Math.PI * 2);
+                  ctx.strokeStyle = i < reached ? '#4ade80' : 'rgba(148, 163, 184, 0.5)';
+              }
+              ctx.lineWidth = 3;
+              ctx.stroke();
+          });
+      }
+
+      const hand = trackedHand.current;
+      if (hand) {
+          if (window.drawConnectors && window.drawLandmarks) {
+              const landmarks = mapLandmarks(calibration, hand.landmarks);
+              window.drawConnectors(ctx, landmarks, window.HAND_CONNECTIONS, { color: 'rgba(56, 189, 248, 0.6)', lineWidth: 4 });
+              window.drawLandmarks(ctx, landmarks, { color: 'rgba(14, 165, 233, 0.8)', lineWidth: 0, radius: 6 });
+          }
+          const pos = toPlayPoint(calibration, hand.landmarks, canvas.width, canvas.height);
+          ctx.beginPath();
+          ctx.arc(pos.x, pos.y, 35, 0, Math.PI * 2);
+          ctx.strokeStyle = hand.pinching ? '#4ade80' : 'rgba(56, 189, 248, 0.8)';
+          ctx.lineWidth = 2;
+          ctx.setLineDash(hand.pinching ? [] : [4, 4]);
+          ctx.stroke();
+          ctx.setLineDash([]);
+      }
+    };
+
+    const loop = (now: number) => {
+      frameId = requestAnimationFrame(loop);
+      if (canvas.width !== container.clientWidth || canvas.height !== container.clientHeight) {
+          canvas.width = container.clientWidth;
+          canvas.height = container.clientHeight;
+      }
+      const results = latestResults.current;
+      if (results && results !== processedResults) {
+          processedResults = results;
+          processHands(results);
+      }
+      render(now);
+    };
+    frameId = requestAnimationFrame(loop);
+
+    return () => { cancelAnimationFrame(frameId); handFeed.current = null; };
+  }, []);
+
+  const area = draft.area;
+
+  return (
+    <div ref={containerRef} className="absolute inset-0 z-[85] bg-slate-950">
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+
+      {/* Header */}
+      <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 bg-slate-900/80 backdrop-blur-md pl-4 pr-2 py-2 rounded-full border border-white/10 shadow-lg flex items-center gap-3">
+          <Hand className="w-5 h-5 text-sky-400" />
+          <span className="font-bold text-white text-sm">Hand Calibration</span>
+          <span className="text-xs text-slate-400">Step {STEPS.indexOf(step) + 1} of {STEPS.length}</span>
+          <button onClick={onClose} className="p-1.5 bg-white/5 rounded-full hover:bg-white/10"><XCircle className="w-5 h-5 text-slate-400" /></button>
+      </div>
+
+      {!handSeen && (
+          <div className="absolute top-20 left-1/2 -translate-x-1/2 z-10 text-xs text-slate-400 bg-slate-900/70 px-4 py-2 rounded-full flex items-center gap-2">
+              <Hand className="w-4 h-4" /> {step === 'preferences' && draft.handedness !== 'any' ? `Show your ${draft.handedness} hand to the camera` : 'Show your hand to the camera'}
+          </div>
+      )}
+
+      {/* Instructions */}
+      <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-10 w-full max-w-md bg-slate-900/90 backdrop-blur-xl rounded-3xl border border-white/10 shadow-2xl p-6 animate-in zoom-in-95 duration-300">
+          {step === 'pinch' && (
+              <>
+                  <h3 className="text-lg font-bold text-white mb-1">Pinch and release</h3>
+                  <p className="text-sm text-slate-400 mb-4">Touch your thumb and index finger together, then open them wide. Do it {PINCH_CYCLES} times.</p>
+                  <div className="flex gap-2">
+                      {Array.from({ length: PINCH_CYCLES }, (_, i) => (
+                          <div key={i} className={`h-2 flex-1 rounded-full transition-colors ${i < pinches ? 'bg-emerald-400' : 'bg-white/10'}`} />
+                      ))}
+                  </div>
+              </>
+          )}
+
+          {step === 'reach' && (
+              <>
+                  <h3 className="text-lg font-bold text-white mb-1">Reach the corners</h3>
+                  <p className="text-sm text-slate-400 mb-4">Stretch toward the glowing corner as far as is comfortable, then pinch. You don't need to touch it.</p>
+                  <div className="flex items-center justify-between">
+                      <span className="text-xs font-bold text-amber-300">{corner} / {CORNERS.length}</span>
+                      <button onClick={restart} className="text-xs text-slate-500 hover:text-slate-300 font-bold uppercase tracking-widest flex items-center gap-1"><RotateCcw className="w-3 h-3" /> Start over</button>
+                  </div>
+              </>
+          )}
+
+          {step === 'preferences' && (
+              <>
+                  <h3 className="text-lg font-bold text-white mb-1">Try it and save</h3>
+                  <p className="text-sm text-slate-400 mb-4">The circle should follow your hand into every corner and turn green while you pinch.</p>
+                  <div className="grid grid-cols-3 gap-2 mb-3">
+                      {(['any', 'left', 'right'] as Handedness[]).map(h => (
+                          <button key={h} onClick={() => updateDraft({ handedness: h })} className={`py-2 rounded-xl text-xs font-bold transition-all ${draft.handedness === h ? 'bg-sky-600 text-white' : 'bg-black/30 text-slate-400 ring-1 ring-white/10 hover:text-white'}`}>
+                              {HANDEDNESS_LABELS[h]}
+                          </button>
+                      ))}
+                  </div>
+                  <label className="flex items-center gap-3 bg-black/20 rounded-xl px-4 py-2 ring-1 ring-white/10 cursor-pointer mb-3">
+                      <input type="checkbox" className="w-4 h-4 accent-sky-400" checked={draft.mirror} onChange={(e) => updateDraft({ mirror: e.target.checked })} />
+                      <FlipHorizontal className="w-4 h-4 text-sky-300" />
+                      <span className="text-sm text-slate-300">Mirror view <span className="text-slate-500 text-xs">- turn off if left and right feel swapped</span></span>
+                  </label>
+                  <p className="text-[11px] text-slate-500 mb-4">
+                      Pinch closes below {draft.pinchGrab.toFixed(2)} and opens above {draft.pinchRelease.toFixed(2)} hand lengths · Reach {Math.round((area.maxX - area.minX) * 100)}% × {Math.round((area.maxY - area.minY) * 100)}% of the camera view
+                  </p>
+                  <div className="flex gap-3">
+                      <button onClick={restart} className="flex-1 bg-white/5 border border-white/10 text-slate-300 font-bold py-3 rounded-xl hover:bg-white/10 flex items-center justify-center gap-2"><RotateCcw className="w-4 h-4" /> Redo</button>
+                      <button onClick={() => onSave({ ...draft, calibratedAt: new Date().toISOString() })} className="flex-1 bg-sky-600 hover:bg-sky-500 text-white font-bold py-3 rounded-xl flex items-center justify-center gap-2"><CheckCircle2 className="w-4 h-4" /> Save</button>
+                  </div>
+              </>
+          )}
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationWizard;
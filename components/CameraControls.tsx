@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { CameraDevice, CameraQuality, CameraSettings, PrivacyMode } from '../types';
+import { CAMERA_QUALITY } from './landmarkSources';
+import { Eye, EyeOff, Droplet, Hand } from 'lucide-react';
+
+export const PRIVACY_INFO: Record<PrivacyMode, { label: string, hint: string, icon: React.FC<{ className?: string }> }> = {
+  off: { label: 'Video', hint: 'Show the camera picture', icon: Eye },
+  blur: { label: 'Blurred', hint: 'Shapes and colors only, no faces', icon: Droplet },
+  silhouette: { label: 'Hands', hint: 'Only the tracked hands, no picture', icon: Hand },
+  hidden: { label: 'Off', hint: 'No picture at all', icon: EyeOff }
+};
+
+const optionClass = (selected: boolean) =>
+  `flex flex-col items-center gap-1 px-2 py-2 rounded-xl text-xs font-bold transition-all ${selected ? 'bg-sky-500/20 text-sky-200 ring-1 ring-sky-400/40' : 'bg-black/30 text-slate-500 ring-1 ring-white/10 hover:text-slate-300'}`;
+
+/** How the camera picture is shown; hand tracking keeps running in every mode. */
+export const PrivacyToggles: React.FC<{ settings: CameraSettings, onChange: (settings: CameraSettings) => void }> = ({ settings, onChange }) => (
+  <div className="grid grid-cols-4 gap-2">
+    {(Object.keys(PRIVACY_INFO) as PrivacyMode[]).map(privacy => {
+      const { icon: Icon, label, hint } = PRIVACY_INFO[privacy];
+      return (
+        <button key={privacy} onClick={() => onChange({ ...settings, privacy })} title={hint} className={optionClass(settings.privacy === privacy)}>
+          <Icon className="w-4 h-4" />
+          {label}
+        </button>
+      );
+    })}
+  </div>
+);
+
+/** Which camera, at what quality, and the privacy mode. */
+export const CameraControls: React.FC<{ settings: CameraSettings, cameras: CameraDevice[], onChange: (settings: CameraSettings) => void }> = ({ settings, cameras, onChange }) => (
+  <div className="space-y-2">
+    {cameras.length > 1 && (
+      <select
+        value={cameras.some(c => c.deviceId === settings.deviceId) ? settings.deviceId : ''}
+        onChange={(e) => onChange({ ...settings, deviceId: e.target.value })}
+        className="w-full bg-black/30 border-0 ring-1 ring-white/10 rounded-xl py-2 px-3 text-sm text-white focus:ring-2 focus:ring-sky-500 outline-none"
+      >
+        <option value="" className="bg-slate-900">Default camera</option>
+        {cameras.map(c => <option key={c.deviceId} value={c.deviceId} className="bg-slate-900">{c.label}</option>)}
+      </select>
+    )}
+    <div className="grid grid-cols-3 gap-2">
+      {(Object.keys(CAMERA_QUALITY) as CameraQuality[]).map(quality => {
+        const { label, width, height } = CAMERA_QUALITY[quality];
+        return (
+          <button key={quality} onClick={() => onChange({ ...settings, quality })} title={`${width}×${height}`} className={optionClass(settings.quality === quality)}>
+            {label}
+            <span className="font-normal opacity-70">{height}p</span>
+          </button>
+        );
+      })}
+    </div>
+    <PrivacyToggles settings={settings} onChange={onChange} />
+  </div>
+);
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { LevelDefinition, LevelPack } from '../types';
+import { describeGoal, getLevelDifficulty, parseLevelPack } from '../engine/levels';
+import { DIFFICULTY_CONFIG } from '../engine/config';
+import { Map as MapIcon, Star, Lock, Play, Upload, XCircle, Clock, Target, Plus, Edit3 } from 'lucide-react';
+
+interface CampaignScreenProps {
+  pack: LevelPack;
+  stars: Record<string, number>; // Best stars per level id
+  onPlay: (level: LevelDefinition) => void;
+  onEdit: (level: LevelDefinition | null) => void; // Opens the level editor, null for a new level
+  onLoadPack: (pack: LevelPack) => void;
+  onClose: () => void;
+}
+
+// A level opens once the one before it has at least one star
+export const isLevelUnlocked = (pack: LevelPack, stars: Record<string, number>, index: number) =>
+  index === 0 || (stars[pack.levels[index - 1].id] || 0) > 0;
+
+export const StarRow: React.FC<{ count: number, size?: string }> = ({ count, size = 'w-4 h-4' }) => (
+  <div className="flex gap-0.5">
+    {[1, 2, 3].map(i => (
+      <Star key={i} className={`${size} ${i <= count ? 'text-amber-400 fill-amber-400' : 'text-slate-600'}`} />
+    ))}
+  </div>
+);
+
+const CampaignScreen: React.FC<CampaignScreenProps> = ({ pack, stars, onPlay, onEdit, onLoadPack, onClose }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const totalStars = pack.levels.reduce((sum, l) => sum + (stars[l.id] || 0), 0);
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      file.text().then(text => {
+          setError(null);
+          onLoadPack(parseLevelPack(text));
+      }).catch(err => {
+          console.error("Failed to load level file:", err);
+          setError(err.message || "Not a level file");
+      });
+  };
+
+  return (
+    <div className="absolute inset-0 z-[75] bg-black/80 backdrop-blur-lg flex items-center justify-center p-4">
+      <div className="bg-slate-900/95 w-full max-w-2xl h-[85vh] rounded-[2.5rem] border border-white/10 shadow-2xl flex flex-col overflow-hidden animate-in zoom-in-95 duration-300">
+        {/* Header */}
+        <div className="p-6 border-b border-white/5 flex justify-between items-center bg-black/20">
+          <div className="flex items-center gap-3">
+            <div className="bg-emerald-500/20 p-2 rounded-xl text-emerald-400">
+              <MapIcon className="w-6 h-6" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-white">{pack.name}</h2>
+              <p className="text-slate-400 text-xs flex items-center gap-1"><Star className="w-3 h-3 text-amber-400 fill-amber-400" /> {totalStars} / {pack.levels.length * 3}</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {error && <span className="text-xs text-red-400 max-w-[200px] truncate" title={error}>{error}</span>}
+            <button onClick={() => onEdit(null)} className="p-2 bg-white/5 rounded-full hover:bg-white/10" title="Create a level"><Plus className="w-6 h-6 text-slate-400" /></button>
+            <label className="p-2 bg-white/5 rounded-full hover:bg-white/10 cursor-pointer" title="Open level file">
+              <Upload className="w-6 h-6 text-slate-400" />
+              <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            </label>
+            <button onClick={onClose} className="p-2 bg-white/5 rounded-full hover:bg-white/10"><XCircle className="w-6 h-6 text-slate-400" /></button>
+          </div>
+        </div>
+
+        {/* Levels */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {pack.levels.map((level, i) => {
+            const unlocked = isLevelUnlocked(pack, stars, i);
+            const difficulty = getLevelDifficulty(level);
+            return (
+              <div key={level.id} className={`flex items-center gap-4 p-4 rounded-2xl border transition-colors ${unlocked ? 'bg-white/5 border-white/5 hover:bg-white/10' : 'bg-black/20 border-transparent opacity-50'}`}>
+                <span className="w-10 h-10 flex-shrink-0 flex items-center justify-center rounded-full font-bold bg-slate-700/50 text-slate-300">{i + 1}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-bold text-slate-100 truncate">{level.name}</p>
+                    <span className="text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full bg-black/30" style={{ color: DIFFICULTY_CONFIG[difficulty].color }}>{difficulty}</span>
+                  </div>
+                  {level.description && <p className="text-xs text-slate-400 truncate">{level.description}</p>}
+                  <div className="flex items-center gap-3 mt-1 text-[11px] text-slate-500">
+                    <span className="flex items-center gap-1"><Target className="w-3 h-3" /> {describeGoal(level.goal)}</span>
+                    {level.dropInterval > 0 && <span className="flex items-center gap-1"><Clock className="w-3 h-3" /> Drops every {Math.round(level.dropInterval / 1000)}s</span>}
+                  </div>
+                </div>
+                <StarRow count={stars[level.id] || 0} />
+                <button onClick={() => onEdit(level)} className="p-2 text-slate-500 hover:text-emerald-300" title="Edit a copy in the level editor"><Edit3 className="w-4 h-4" /></button>
+                <button
+                  onClick={() => onPlay(level)}
+                  disabled={!unlocked}
+                  className="p-3 bg-emerald-600 rounded-full hover:bg-emerald-500 disabled:bg-slate-700 transition-all hover:scale-105 disabled:hover:scale-100"
+                  title={unlocked ? 'Play' : 'Earn a star on the previous level first'}
+                >
+                  {unlocked ? <Play className="w-5 h-5 text-white" /> : <Lock className="w-5 h-5 text-slate-400" />}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CampaignScreen;
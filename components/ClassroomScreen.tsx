@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { ClassroomPlayer, ClassroomRole, UserProfile } from '../types';
+import { ClassroomSession, getDefaultClassroomUrl } from '../services/classroomService';
+import { MODE_CONFIG } from '../engine/config';
+import { Users, XCircle, Loader2, Play, Square, LogOut, GraduationCap, User, Flag, Wifi, WifiOff, Medal } from 'lucide-react';
+
+interface ClassroomScreenProps {
+  session: ClassroomSession | null; // null until the player connects
+  profile: UserProfile; // Teacher: topic, difficulty and mode for the next round
+  onConnect: (url: string, role: ClassroomRole) => void;
+  onStartRound: () => Promise<void>;
+  onStopRound: () => void;
+  onLeave: () => void; // Disconnects
+  onClose: () => void; // Hides the screen, stays connected
+}
+
+const Scoreboard: React.FC<{ players: ClassroomPlayer[], playerId: string | null }> = ({ players, playerId }) => (
+  <div className="space-y-2">
+    {players.length === 0 ? <p className="text-center text-slate-500 py-8">No students yet.</p> : players.map((p, i) => (
+      <div key={p.id} className={`flex items-center justify-between p-3 rounded-2xl border transition-colors ${p.id === playerId ? 'bg-sky-500/10 border-sky-500/30' : 'bg-white/5 border-white/5'}`}>
+        <div className="flex items-center gap-3">
+          <span className={`w-8 h-8 flex items-center justify-center rounded-full font-bold text-sm ${i < 3 ? 'bg-amber-500/20 text-amber-400' : 'bg-slate-700/50 text-slate-400'}`}>{i + 1}</span>
+          <div>
+            <p className="font-bold text-slate-200 flex items-center gap-2">{p.name}{p.gameOver && <Flag className="w-3 h-3 text-red-400" />}</p>
+            <p className="text-xs text-slate-500">{p.className} · {p.quizCorrect} correct, {p.quizMissed} missed</p>
+          </div>
+        </div>
+        <span className="font-mono font-bold text-sky-400">{p.score.toLocaleString()}</span>
+      </div>
+    ))}
+  </div>
+);
+
+const ClassroomScreen: React.FC<ClassroomScreenProps> = ({ session, profile, onConnect, onStartRound, onStopRound, onLeave, onClose }) => {
+  const [url, setUrl] = useState(session?.url || getDefaultClassroomUrl());
+  const [role, setRole] = useState<ClassroomRole>(session?.role || 'student');
+  const [starting, setStarting] = useState(false);
+
+  const connected = session?.status === 'connected';
+  const canStart = !!profile.topic || (profile.customQuestions?.length || 0) > 0;
+  const showFinal = !session?.round && !!session?.finalStandings;
+
+  const startRound = () => {
+      setStarting(true);
+      onStartRound().finally(() => setStarting(false));
+  };
+
+  return (
+    <div className="absolute inset-0 z-[85] bg-black/80 backdrop-blur-lg flex items-center justify-center p-4">
+      <div className="bg-slate-900/95 w-full max-w-2xl h-[85vh] rounded-[2.5rem] border border-white/10 shadow-2xl flex flex-col overflow-hidden animate-in zoom-in-95 duration-300">
+        {/* Header */}
+        <div className="p-6 border-b border-white/5 flex justify-between items-center bg-black/20">
+          <div className="flex items-center gap-3">
+            <div className="bg-violet-500/20 p-2 rounded-xl text-violet-300">
+              <Users className="w-6 h-6" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-white">Classroom Battle</h2>
+              <p className="text-xs text-slate-400 flex items-center gap-1">
+                {connected ? <><Wifi className="w-3 h-3 text-emerald-400" /> {session.role === 'teacher' ? 'Teacher' : 'Student'} · {session.url}</> :
+                 session?.status === 'connecting' ? <><Loader2 className="w-3 h-3 animate-spin" /> Connecting to {session.url}</> :
+                 <><WifiOff className="w-3 h-3" /> Not connected</>}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 bg-white/5 rounded-full hover:bg-white/10"><XCircle className="w-6 h-6 text-slate-400" /></button>
+        </div>
+
+        {!session || session.status === 'closed' ? (
+          /* Connect */
+          <div className="flex-1 overflow-y-auto p-6 space-y-5">
+            <p className="text-sm text-slate-400">
+              The teacher runs <code className="text-violet-300">npm run relay</code> on their laptop; everyone connects to the address it prints.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              {(['student', 'teacher'] as ClassroomRole[]).map(r => (
+                <button key={r} onClick={() => setRole(r)} className={`py-3 rounded-2xl font-bold flex items-center justify-center gap-2 transition-colors ${role === r ? 'bg-violet-500/20 text-violet-200 ring-1 ring-violet-400/50' : 'bg-white/5 text-slate-400 hover:bg-white/10'}`}>
+                  {r === 'teacher' ? <GraduationCap className="w-4 h-4" /> : <User className="w-4 h-4" />} {r === 'teacher' ? 'Teacher' : 'Student'}
+                </button>
+              ))}
+            </div>
+            <input
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="ws://192.168.1.20:8787"
+              className="w-full bg-black/20 rounded-2xl px-4 py-3 text-white font-mono text-sm ring-1 ring-white/10 focus:ring-violet-400 outline-none"
+            />
+            {session?.error && <p className="text-sm text-red-400">{session.error}</p>}
+            <button
+              onClick={() => onConnect(url.trim(), role)}
+              disabled={!url.trim() || (role === 'student' && (!profile.name || !profile.className))}
+              className="w-full bg-violet-600 hover:bg-violet-500 text-white font-bold py-4 rounded-2xl transition-all disabled:opacity-50"
+            >
+              Connect
+            </button>
+            {role === 'student' && (!profile.name || !profile.className) && <p className="text-xs text-slate-500 text-center">Enter your name and class on the start screen first.</p>}
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-6 space-y-5">
+            {session.error && <p className="text-sm text-red-400">{session.error}</p>}
+
+            {session.role === 'teacher' ? (
+              <div className="bg-black/20 rounded-2xl p-4 ring-1 ring-white/10 space-y-3">
+                <p className="text-sm text-slate-300">
+                  <span className="font-bold text-white">{profile.customQuestions?.length ? `${profile.customQuestions.length} custom questions` : profile.topic || 'No topic'}</span>
+                  {' · '}{profile.difficulty}{' · '}{MODE_CONFIG[profile.mode || 'classic'].label}
+                </p>
+                <p className="text-xs text-slate-500">Round settings come from the start screen. Everyone gets the same board and questions.</p>
+                <div className="flex gap-3">
+                  <button onClick={startRound} disabled={!connected || starting || !canStart} className="flex-1 bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-3 rounded-xl flex items-center justify-center gap-2 disabled:opacity-50">
+                    {starting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />} {session.round ? 'New Round' : 'Start Round'}
+                  </button>
+                  <button onClick={onStopRound} disabled={!session.round} className="flex-1 bg-red-900/30 border border-red-500/30 text-red-300 font-bold py-3 rounded-xl hover:bg-red-900/50 flex items-center justify-center gap-2 disabled:opacity-50">
+                    <Square className="w-4 h-4" /> Stop Round
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-center text-slate-300 py-2">
+                {session.round ? 'Round in progress - watch the scoreboard.' : showFinal ? 'Round over!' : <span className="flex items-center justify-center gap-2"><Loader2 className="w-4 h-4 animate-spin" /> Waiting for the teacher to start a round...</span>}
+              </p>
+            )}
+
+            <div>
+              <p className="text-[10px] uppercase font-bold text-slate-500 mb-2 flex items-center gap-1">
+                <Medal className="w-3 h-3" /> {showFinal ? 'Final standings' : session.round ? 'Live scoreboard' : 'Students'}
+              </p>
+              <Scoreboard players={showFinal ? session.finalStandings! : session.players} playerId={session.playerId} />
+            </div>
+          </div>
+        )}
+
+        {session && session.status !== 'closed' && (
+          <div className="p-4 border-t border-white/5 bg-black/20">
+            <button onClick={onLeave} className="w-full bg-white/5 text-slate-300 font-bold py-3 rounded-xl hover:bg-white/10 flex items-center justify-center gap-2">
+              <LogOut className="w-4 h-4" /> Leave Classroom
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ClassroomScreen;
@@ -4,51 +4,51 @@
 */
 
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { generateQuizQuestion } from '../services/geminiService';
-import { Point, Bubble, Particle, BubbleColor, UserProfile, QuizQuestion, LeaderboardEntry, Difficulty } from '../types';
-import { Loader2, Trophy, Play, Pause, BrainCircuit, CheckCircle2, XCircle, User, School, BookOpen, Crown, Save, LogOut, Medal, Gauge, Star, Sparkles, Zap, Infinity as InfinityIcon, GraduationCap, PenTool, Dices, Shuffle, Plus, Trash2, FileText, Edit3 } from 'lucide-react';
+import { generateQuizQuestion, getLocalStrategyAdvice, getLocalVocabularyWord, getStrategyAdvice, getVocabularyWord } from '../services/geminiService';
+import { ClassroomConnection, ClassroomSession, buildRoundQuestions, connectClassroom } from '../services/classroomService';
+import { clearSavedGame, readSavedGame, writeSavedGame } from '../services/savedGame';
+import { readCalibration, writeCalibration } from '../services/calibrationStorage';
+import { readGestureSettings, writeGestureSettings } from '../services/gestureSettings';
+import { readCameraSettings, writeCameraSettings } from '../services/cameraSettings';
+import { createGame, step, getGridCols, getAnchor, getDangerY, getDangerProximity, getBoardGrid, launchVelocity, COLLISION_DIST, hasOwnColor } from '../engine/gameEngine';
+import { getNeighbors, hasBubbleWithin, getBubblePos } from '../engine/hexGrid';
+import { randomSeed } from '../engine/rng';
+import { createReplay, recordStep, parseReplay, REPLAY_VERSION } from '../engine/replay';
+import { createShotSearch, ShotSearch } from '../engine/solver';
+import { toLevelPack, getLevelStars, getLevelDifficulty, getShotsLeft, getTimeLeft, getDropInterval, getNextDropIn, describeGoal } from '../engine/levels';
+import campaignData from '../levels/campaign.json';
+import { drawBubble } from './bubbleRenderer';
+import ReplayViewer from './ReplayViewer';
+import CampaignScreen, { StarRow } from './CampaignScreen';
+import LevelEditor from './LevelEditor';
+import VersusArena from './VersusArena';
+import ClassroomScreen from './ClassroomScreen';
+import CalibrationWizard from './CalibrationWizard';
+import { DEFAULT_CALIBRATION, getPinchDist, mapLandmarks, pickHand, toPlayPoint } from './handCalibration';
+import { createOneEuroFilter, createPinchDetector } from './handFilter';
+import { GestureProgress, createGestureRecognizer } from './gestureRecognizer';
+import { GestureRing, GestureToggles } from './GestureHud';
+import { ANSWER_ROW, AnswerBoard, createAnswerBoard, getAnswerMode, dropTile, findAnswerTarget, getArrangedAnswer, layoutAnswerBoard, toggleTile, traceAnswerShot } from './answerTargets';
+import { CAMERA_PROBLEMS, LandmarkRecorder, LandmarkSource, createLandmarkRecorder, createLandmarkSource, listCameras } from './landmarkSources';
+import { drawCameraFeed } from './cameraFeed';
+import { CameraControls, PrivacyToggles } from './CameraControls';
+import { AimSource, KEYBOARD_PULL_STEP, createSlingshotController, toCanvasPoint } from './slingshotInput';
+import { GRAVITY, BUBBLE_RADIUS, ROW_HEIGHT, DIFFICULTY_CONFIG, COLOR_CONFIG, MODE_CONFIG, QUIZ_RUSH_GOAL, QUIZ_RUSH_LIVES } from '../engine/config';
+import { Point, Bubble, Particle, BubbleColor, UserProfile, QuizQuestion, LeaderboardEntry, Difficulty, GameMode, GameState, EngineEvent, EngineInput, SessionReplay, ShotSuggestion, StrategyAdvice, LevelDefinition, LevelPack, WordTarget, SavedGame, HandCalibration, HandResults, CameraProblem, CameraSettings, CameraDevice, GestureSettings, HandGesture, ClassroomRole, ClassroomRound, ClassroomServerMessage } from '../types';
+import { Loader2, Trophy, Play, Pause, BrainCircuit, CheckCircle2, XCircle, User, School, BookOpen, Crown, Save, LogOut, Medal, Gauge, Star, Sparkles, Zap, Infinity as InfinityIcon, GraduationCap, PenTool, Dices, Shuffle, Plus, Trash2, FileText, Edit3, Film, Upload, Map as MapIcon, Target, RotateCcw, ChevronRight, Type as TypeIcon, ArrowLeftRight, Timer, Heart, Flag, Swords, Users, Hand, CircleDot, Camera as CameraIcon, CameraOff } from 'lucide-react';
 
 // --- Constants & Config ---
 
-const PINCH_THRESHOLD = 0.05;
-const GRAVITY = 0.25; 
-const FRICTION = 0.99; 
-
-// Reduced Bubble Size (Smaller for more density)
-const BUBBLE_RADIUS = 20; 
-const ROW_HEIGHT = BUBBLE_RADIUS * Math.sqrt(3);
-
-// Dynamic Grid: Max columns increased for desktop since bubbles are smaller
-const MAX_GRID_COLS = 16; 
-const GRID_ROWS = 10; 
-const SLINGSHOT_BOTTOM_OFFSET = 220;
-
-const MAX_DRAG_DIST = 180;
-const MIN_FORCE_MULT = 0.15;
-const MAX_FORCE_MULT = 0.45;
-
 const POP_DURATION = 350;
-const SMOOTHING_FACTOR = 0.25;
-
-// Difficulty Settings (Increased initialRows for denser grid)
-const DIFFICULTY_CONFIG: Record<Difficulty, { dropInterval: number, initialRows: number, density: number, label: string, color: string, winScore: number }> = {
-    Easy:   { dropInterval: 60000, initialRows: 6, density: 0.85, label: 'Easy',   color: '#4ade80', winScore: 3000 },
-    Medium: { dropInterval: 40000, initialRows: 8, density: 0.9, label: 'Medium', color: '#facc15', winScore: 8000 },
-    Hard:   { dropInterval: 20000, initialRows: 10, density: 0.95, label: 'Hard',   color: '#ef4444', winScore: 15000 },
-    Infinity: { dropInterval: 30000, initialRows: 9, density: 0.9, label: 'Infinity', color: '#d8b4fe', winScore: Number.MAX_SAFE_INTEGER }
-};
-
-// VIBRANT Colors (Sặc sỡ) for Dark Mode Contrast
-const COLOR_CONFIG: Record<BubbleColor, { hex: string, points: number, label: string }> = {
-  red:    { hex: '#FF0000', points: 100, label: 'Red' },       // Pure Vibrant Red
-  blue:   { hex: '#0080FF', points: 150, label: 'Blue' },      // Bright Azure
-  green:  { hex: '#00E676', points: 200, label: 'Green' },     // Neon Green
-  yellow: { hex: '#FFEA00', points: 250, label: 'Yellow' },    // Vivid Yellow
-  purple: { hex: '#D500F9', points: 300, label: 'Purple' },    // Electric Purple
-  orange: { hex: '#FF6D00', points: 500, label: 'Orange' }     // Bright Orange
-};
+const DESCENT_DURATION = 450; // Ceiling drop: the grid slides into its new rows
+// Physics runs in fixed steps, decoupled from camera FPS and display refresh rate.
+// GRAVITY/FRICTION were tuned per webcam frame, so one step matches a 30 fps camera frame.
+const PHYSICS_STEP_MS = 1000 / 30;
+const MAX_STEPS_PER_FRAME = 5; // Drop time beyond this after a long stall instead of fast-forwarding
+const SHOT_SEARCH_PULLS_PER_FRAME = 12; // Shot hints are solved a slice per frame so the loop never stalls on them
 
-const COLOR_KEYS: BubbleColor[] = ['red', 'blue', 'green', 'yellow', 'purple', 'orange'];
+// Built-in level pack for Campaign mode
+const CAMPAIGN_PACK = toLevelPack(campaignData);
 
 // Expanded English Topics List for Randomizer & Suggestions
 const ENGLISH_TOPICS = [
@@ -69,6 +69,21 @@ const ENGLISH_TOPICS = [
     "Phrasal Verbs for School"
 ];
 
+interface TrackedHand {
+    landmarks: any[];
+    pos: Point;
+    pinchDist: number;
+    pinching: boolean; // Calibrated grab / release thresholds with the release debounce
+}
+
+// A preferred hand can only be picked out when MediaPipe reports both
+const wantsHandedness = (profile: UserProfile | null) => (profile?.calibration?.handedness || 'any') !== 'any';
+
+interface CopilotCallout {
+    advice: StrategyAdvice;
+    board: Bubble[]; // Board the advice was given for; the callout hides once it changes
+}
+
 interface FloatingText {
     x: number;
     y: number;
@@ -78,31 +93,11 @@ interface FloatingText {
     vy: number;
 }
 
-const adjustColor = (color: string, amount: number) => {
-    const hex = color.replace('#', '');
-    const r = Math.max(0, Math.min(255, parseInt(hex.substring(0, 2), 16) + amount));
-    const g = Math.max(0, Math.min(255, parseInt(hex.substring(2, 4), 16) + amount));
-    const b = Math.max(0, Math.min(255, parseInt(hex.substring(4, 6), 16) + amount));
-    
-    const componentToHex = (c: number) => {
-        const hex = c.toString(16);
-        return hex.length === 1 ? "0" + hex : hex;
-    };
-    
-    return "#" + componentToHex(r) + componentToHex(g) + componentToHex(b);
-};
-
-const isNeighbor = (a: Bubble, b: Bubble) => {
-    const dr = b.row - a.row;
-    const dc = b.col - a.col;
-    if (Math.abs(dr) > 1) return false;
-    if (dr === 0) return Math.abs(dc) === 1;
-    if (a.row % 2 !== 0) {
-        return dc === 0 || dc === 1;
-    } else {
-        return dc === -1 || dc === 0;
-    }
-};
+// Bubbles that have left the engine's board but are still animating (popping or falling)
+interface EffectBubble extends Bubble {
+    vx: number;
+    vy: number;
+}
 
 // --- AUDIO SYSTEM ---
 const AudioContextClass = (window.AudioContext || (window as any).webkitAudioContext);
@@ -224,42 +219,67 @@ const GeminiSlingshot: React.FC = () => {
   const gameContainerRef = useRef<HTMLDivElement>(null);
   
   // Game State Refs
+  const gameRef = useRef<GameState | null>(null); // Headless engine state (rules, board, projectile)
+  const replayRef = useRef<SessionReplay | null>(null); // Recording of the current session
+  const shownGameRef = useRef<GameState | null>(null); // State the current game started or resumed from; tells games apart across engine steps
   const ballPos = useRef<Point>({ x: 0, y: 0 });
-  const ballVel = useRef<Point>({ x: 0, y: 0 });
   const anchorPos = useRef<Point>({ x: 0, y: 0 });
-  const isPinching = useRef<boolean>(false);
-  const isDragging = useRef<boolean>(false); // Track touch drag
-  const isFlying = useRef<boolean>(false);
-  const flightStartTime = useRef<number>(0);
-  const bubbles = useRef<Bubble[]>([]);
+  const effectBubbles = useRef<EffectBubble[]>([]);
   const particles = useRef<Particle[]>([]);
   const floatingTexts = useRef<FloatingText[]>([]);
   const potentialMatchesRef = useRef<string[]>([]);
-  
-  // Dynamic Grid
-  const gridColsRef = useRef<number>(MAX_GRID_COLS);
-
-  // Hand Stabilization Ref
-  const prevHandPos = useRef<Point | null>(null);
+  const aimHintRef = useRef<ShotSuggestion | null>(null); // Best shot for the loaded ammo, drawn as an aim arc
+  const hintSourceRef = useRef<{ bubbles: Bubble[], ammo: BubbleColor } | null>(null); // Board the hints were solved for
+  const shotSearchRef = useRef<ShotSearch | null>(null); // Hints still being solved for hintSourceRef
+  const copilotRef = useRef<CopilotCallout | null>(null);
+  const levelRef = useRef<LevelDefinition | null>(null); // Campaign level being played, null for a random board
+  const testPlayRef = useRef<boolean>(false); // Level comes from the editor: don't record campaign stars
+  const lastFrameTime = useRef<number>(0);
+  const descentRef = useRef<{ start: number, from: Map<string, Point> } | null>(null); // Where each bubble sat before the last ceiling drop
+  const prevBallPos = useRef<Point>({ x: 0, y: 0 }); // Ball position one physics step ago, for interpolation
+  const spelledWords = useRef<string[]>([]); // Letter Bubbles words finished this game, never asked again
+
+  // Hand Tracking Refs: MediaPipe writes the newest results, the game loop consumes them
+  const latestResults = useRef<any>(null);
+  const trackedHand = useRef<TrackedHand | null>(null);
+  const [handFilter] = useState(() => createOneEuroFilter()); // Hand Stabilization
+  const [pinch] = useState(() => createPinchDetector());
+
+  // Hand gestures: the recognizer runs in the game loop, commands are whatever the screen offers right now
+  const [gestures] = useState(() => createGestureRecognizer());
+  const [gestureSettings, setGestureSettings] = useState<GestureSettings>(readGestureSettings);
+  const [activeGesture, setActiveGesture] = useState<GestureProgress | null>(null);
+  const gestureCommands = useRef<Partial<Record<HandGesture, () => void>>>({});
+
+  // Hands-free quiz: questions with options are answered on the canvas by shooting, pinching or dragging
+  const answerBoard = useRef<AnswerBoard | null>(null);
+  const tileDrag = useRef<{ index: number, pos: Point, source: AimSource } | null>(null);
+  const answerShot = useRef<{ path: Point[], hit: number | null, step: number } | null>(null);
+  const submitAnswerRef = useRef<(answer: string) => void>(() => {});
 
-  const scoreRef = useRef<number>(0);
-  const lastDropTimeRef = useRef<number>(0);
-  const hasWonRef = useRef<boolean>(false);
-  
   // Logic Control
   const isQuizActiveRef = useRef<boolean>(false);
   const isPausedRef = useRef<boolean>(false);
   const pendingMatchesRef = useRef<Bubble[]>([]);
   const gameOverRef = useRef<boolean>(false);
-  
-  const currentAmmoRef = useRef<BubbleColor>('red');
-  const nextAmmoRef = useRef<BubbleColor>('blue');
+
+  // Every input device aims through this one controller; it only reads refs, so it is created once
+  const [slingshot] = useState(() => createSlingshotController(ballPos, anchorPos, () => {
+      const game = gameRef.current;
+      return !!game && !game.projectile && !game.gameOver && (!isQuizActiveRef.current || !!answerBoard.current) && !answerShot.current && !isPausedRef.current;
+  }));
   
   // React State
   const [loading, setLoading] = useState(true);
   const [score, setScore] = useState(0);
   const [currentAmmo, setCurrentAmmo] = useState<BubbleColor>('red');
   const [nextAmmo, setNextAmmo] = useState<BubbleColor>('blue');
+  const [upcomingAmmo, setUpcomingAmmo] = useState<BubbleColor[]>([]);
+  const [streaks, setStreaks] = useState({ chain: 0, quiz: 0 });
+  const [gameMode, setGameMode] = useState<GameMode>('classic');
+  const [timeLeft, setTimeLeft] = useState<number | null>(null); // Time Attack, whole seconds
+  const [quizTally, setQuizTally] = useState({ correct: 0, missed: 0 });
+  const [ammoSwapped, setAmmoSwapped] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [gameOver, setGameOver] = useState(false);
   const [gameWon, setGameWon] = useState(false);
@@ -272,6 +292,7 @@ const GeminiSlingshot: React.FC = () => {
       className: '', 
       topic: '', 
       difficulty: 'Medium',
+      mode: 'classic',
       customQuestions: []
   });
   const [isRandomizing, setIsRandomizing] = useState(false);
@@ -287,37 +308,173 @@ const GeminiSlingshot: React.FC = () => {
   const [pendingMatches, setPendingMatches] = useState<Bubble[]>([]);
 
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(null); // Offered as "Resume previous game"
   const [showLeaderboard, setShowLeaderboard] = useState(false);
+  const [leaderboardMode, setLeaderboardMode] = useState<GameMode>('classic');
+  const [activeReplay, setActiveReplay] = useState<{ replay: SessionReplay, title: string } | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [copilotLoading, setCopilotLoading] = useState(false);
+
+  // Campaign State
+  const [showCampaign, setShowCampaign] = useState(false);
+  const [campaignPack, setCampaignPack] = useState<LevelPack>(CAMPAIGN_PACK);
+  const [campaignStars, setCampaignStars] = useState<Record<string, number>>({});
+  const [activeLevel, setActiveLevel] = useState<LevelDefinition | null>(null);
+  const [levelStars, setLevelStars] = useState(0); // Stars earned in the current attempt
+  const [shotsLeft, setShotsLeft] = useState<number | null>(null);
+  const [showEditor, setShowEditor] = useState(false);
+  const [editorLevel, setEditorLevel] = useState<LevelDefinition | null>(null); // Draft to reopen after a test play
+  const [isTestPlay, setIsTestPlay] = useState(false);
+
+  // Versus and the calibration wizard borrow the camera; MediaPipe looks for two hands while either is open
+  const [showVersus, setShowVersus] = useState(false);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const handFeed = useRef<((results: any) => void) | null>(null);
+  const handSource = useRef<LandmarkSource | null>(null);
+  const [cameraOff, setCameraOff] = useState(false); // Chosen on the start screen, or forced by a camera problem
+  const [cameraProblem, setCameraProblem] = useState<CameraProblem | null>(null);
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(readCameraSettings);
+  const cameraSettingsRef = useRef(cameraSettings); // Read by the game loop
+  const [cameras, setCameras] = useState<CameraDevice[]>([]);
+
+  // Hand tracking recorder: saves the landmarks of a real session for playback without a camera
+  const landmarkRecorder = useRef<LandmarkRecorder | null>(null);
+  const [isRecordingHands, setIsRecordingHands] = useState(false);
+
+  // Classroom State: the connection lives here so a round keeps syncing after the lobby closes
+  const [showClassroom, setShowClassroom] = useState(false);
+  const [classroom, setClassroom] = useState<ClassroomSession | null>(null);
+  const classroomRef = useRef<{ connection: ClassroomConnection, profile: UserProfile, role: ClassroomRole, round: ClassroomRound | null, questionIndex: number, lastProgress: string } | null>(null);
+
+  // Letter Bubbles State
+  const [wordTarget, setWordTarget] = useState<WordTarget | null>(null);
+  const [wordLoading, setWordLoading] = useState(false);
+  const [wordCard, setWordCard] = useState<{ word: string, definition: string } | null>(null); // Definition shown after spelling a word
 
-  useEffect(() => { currentAmmoRef.current = currentAmmo; }, [currentAmmo]);
-  useEffect(() => { nextAmmoRef.current = nextAmmo; }, [nextAmmo]);
   useEffect(() => { isPausedRef.current = isPaused; }, [isPaused]);
+  useEffect(() => { cameraSettingsRef.current = cameraSettings; }, [cameraSettings]);
+  useEffect(() => { handSource.current?.setCamera(cameraSettings); }, [cameraSettings.deviceId, cameraSettings.quality]);
+  useEffect(() => { handSource.current?.setMaxHands(showVersus || showCalibration || wantsHandedness(userProfile) ? 2 : 1); }, [showVersus, showCalibration, userProfile]);
   useEffect(() => { pendingMatchesRef.current = pendingMatches; }, [pendingMatches]);
-  useEffect(() => { gameOverRef.current = gameOver; if (gameOver) playSound('gameover'); }, [gameOver]);
+  useEffect(() => { gameOverRef.current = gameOver; if (gameOver && !gameRef.current?.won) playSound('gameover'); }, [gameOver]);
+  useEffect(() => { if (gameOver) { clearSavedGame(); setSavedGame(null); } }, [gameOver]);
 
   useEffect(() => {
     const saved = localStorage.getItem('gemini_slingshot_leaderboard');
     if (saved) {
         try { setLeaderboard(JSON.parse(saved)); } catch (e) { console.error("Failed to load leaderboard"); }
     }
+    const stars = localStorage.getItem('gemini_slingshot_campaign');
+    if (stars) {
+        try { setCampaignStars(JSON.parse(stars)); } catch (e) { console.error("Failed to load campaign progress"); }
+    }
+    setSavedGame(readSavedGame());
   }, []);
 
+  // Snapshot for "Resume previous game". Finished games are dropped; classroom rounds can't be rejoined alone
+  const saveCurrentGame = () => {
+      const game = gameRef.current;
+      if (!game || !userProfile || classroomRef.current?.round) return;
+      if (game.gameOver || (game.won && game.level)) {
+          clearSavedGame();
+          setSavedGame(null);
+          return;
+      }
+      setSavedGame(writeSavedGame({ profile: userProfile, game, replay: replayRef.current, spelledWords: spelledWords.current, testPlay: testPlayRef.current }));
+  };
+
+  useEffect(() => { if (isPaused) saveCurrentGame(); }, [isPaused]);
+
+  // Tab hidden (or the laptop going to sleep): save and pause
+  useEffect(() => {
+      const handleVisibility = () => {
+          if (!document.hidden || !gameRef.current) return;
+          saveCurrentGame();
+          setIsPaused(true);
+      };
+      document.addEventListener('visibilitychange', handleVisibility);
+      return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, [userProfile]);
+
+  // Keep the best result per level
+  const recordLevelStars = (levelId: string, stars: number) => {
+      setCampaignStars(prev => {
+          if ((prev[levelId] || 0) >= stars) return prev;
+          const updated = { ...prev, [levelId]: stars };
+          localStorage.setItem('gemini_slingshot_campaign', JSON.stringify(updated));
+          return updated;
+      });
+  };
+
   const saveToLeaderboard = () => {
       if (!userProfile) return;
+      const mode = gameRef.current?.mode || 'classic';
       const newEntry: LeaderboardEntry = {
           name: userProfile.name,
           className: userProfile.className,
-          score: scoreRef.current,
+          score: gameRef.current?.score || 0,
           date: new Date().toLocaleDateString(),
-          difficulty: userProfile.difficulty
+          difficulty: userProfile.difficulty,
+          ...(mode !== 'classic' ? { mode } : {}),
+          replay: replayRef.current ? { ...replayRef.current, entries: [...replayRef.current.entries] } : undefined
       };
-      const updated = [...leaderboard, newEntry].sort((a, b) => b.score - a.score).slice(0, 100);
+      // Top 100 per category
+      const ranks: Partial<Record<GameMode, number>> = {};
+      const updated = [...leaderboard, newEntry].sort((a, b) => b.score - a.score).filter(e => {
+          const m = e.mode || 'classic';
+          ranks[m] = (ranks[m] || 0) + 1;
+          return ranks[m]! <= 100;
+      });
       setLeaderboard(updated);
-      localStorage.setItem('gemini_slingshot_leaderboard', JSON.stringify(updated));
+      setLeaderboardMode(mode);
+      try {
+          localStorage.setItem('gemini_slingshot_leaderboard', JSON.stringify(updated));
+      } catch (e) {
+          // Storage full: keep replays only for the top scores
+          const trimmed = updated.map((entry, i) => (i < 10 || entry === newEntry) ? entry : { ...entry, replay: undefined });
+          try {
+              localStorage.setItem('gemini_slingshot_leaderboard', JSON.stringify(trimmed));
+          } catch (e) {
+              console.error("Failed to save leaderboard", e);
+          }
+      }
       setShowLeaderboard(true);
       setIsPaused(true);
   };
   
+  const handleImportReplay = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      file.text().then(text => {
+          setReplayError(null);
+          setActiveReplay({ replay: parseReplay(text), title: file.name });
+      }).catch(err => {
+          console.error("Failed to open replay", err);
+          setReplayError("Invalid replay file");
+      });
+  };
+
+  // Starts recording hand landmarks, or stops and downloads the recording for ?landmarks= playback
+  const toggleHandRecording = () => {
+      const recorder = landmarkRecorder.current;
+      if (!recorder) {
+          landmarkRecorder.current = createLandmarkRecorder();
+          setIsRecordingHands(true);
+          return;
+      }
+      landmarkRecorder.current = null;
+      setIsRecordingHands(false);
+      const recording = recorder.finish();
+      const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `slingshot-hands-${recording.recordedAt.replace(/[:.]/g, '-')}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+  };
+
   const handleRandomizeTopic = () => {
       if(isRandomizing) return;
       setIsRandomizing(true);
@@ -360,133 +517,151 @@ const GeminiSlingshot: React.FC = () => {
       playSound('pop');
   };
 
-  const getBubblePos = (row: number, col: number, width: number) => {
-    const cols = gridColsRef.current;
-    const xOffset = (width - (cols * BUBBLE_RADIUS * 2)) / 2 + BUBBLE_RADIUS;
-    const isOdd = row % 2 !== 0;
-    const x = xOffset + col * (BUBBLE_RADIUS * 2) + (isOdd ? BUBBLE_RADIUS : 0);
-    const y = BUBBLE_RADIUS + row * ROW_HEIGHT;
-    return { x, y };
+  // Puts a new or resumed engine state on screen
+  const showGame = (game: GameState, replay: SessionReplay | null) => {
+    gameRef.current = game;
+    shownGameRef.current = game;
+    replayRef.current = replay;
+    effectBubbles.current = [];
+    descentRef.current = null;
+    copilotRef.current = null;
+    clearShotHints();
+    setScore(game.score);
+    setCurrentAmmo(game.currentAmmo);
+    setNextAmmo(game.nextAmmo);
+    setUpcomingAmmo(game.upcomingAmmo);
+    setAmmoSwapped(game.ammoSwapped);
+    setStreaks({ chain: game.chain, quiz: game.quizStreak });
+    setGameMode(game.mode);
+    setTimeLeft(getTimeLeft(game) === null ? null : Math.ceil(getTimeLeft(game)! / 1000));
+    setQuizTally({ correct: game.quizCorrect, missed: game.quizMissed });
+    setShotsLeft(getShotsLeft(game));
+    setWordTarget(game.wordTarget);
+    setWordCard(null);
+    setLevelStars(0);
+    setGameOver(false);
+    setGameWon(false);
   };
 
-  const getNextBubbleColor = (currentBubbles: Bubble[], forbiddenColors: BubbleColor[] = [], difficulty: Difficulty = 'Medium') => {
-      let activeColors = Array.from(new Set(currentBubbles.filter(b => b.active).map(b => b.color)));
-      
-      // If board is empty (shouldn't happen in gameplay, but safe fallback), return all colors
-      if (activeColors.length === 0) return COLOR_KEYS[Math.floor(Math.random() * COLOR_KEYS.length)];
+  // shared: a classroom round's board, identical on every machine
+  const startGame = useCallback((difficulty: Difficulty, mode: GameMode = 'classic', shared?: { seed: number, cols: number }) => {
+    const width = canvasRef.current?.width || 1280;
+    const height = canvasRef.current?.height || 720;
+    const game = createGame({ width, height, difficulty, mode, seed: shared?.seed ?? randomSeed(), cols: shared?.cols, level: levelRef.current || undefined });
+    showGame(game, createReplay(game));
+    spelledWords.current = [];
+  }, []);
 
-      let candidates = activeColors.filter(c => !forbiddenColors.includes(c));
-      
-      // If all active colors are forbidden (rare), try any valid color
-      if (candidates.length === 0) candidates = COLOR_KEYS.filter(c => !forbiddenColors.includes(c));
-      
-      // Still empty? Just pick any color
-      if (candidates.length === 0) return COLOR_KEYS[Math.floor(Math.random() * COLOR_KEYS.length)];
+  const changeGestureSettings = (settings: GestureSettings) => {
+      setGestureSettings(settings);
+      writeGestureSettings(settings);
+  };
 
-      const introduceNewColorChance = difficulty === 'Infinity' ? 0.35 : (difficulty === 'Hard' ? 0.1 : 0.05);
-      if (Math.random() < introduceNewColorChance) {
-          const allValid = COLOR_KEYS.filter(c => !forbiddenColors.includes(c));
-          if (allValid.length > 0) return allValid[Math.floor(Math.random() * allValid.length)];
-      }
-      
-      return candidates[Math.floor(Math.random() * candidates.length)];
+  const changeCameraSettings = (settings: CameraSettings) => {
+      setCameraSettings(settings);
+      writeCameraSettings(settings);
   };
 
-  const initGrid = useCallback((width: number, difficulty: Difficulty) => {
-    // Determine responsive grid cols: max possible based on width, but capped at MAX_GRID_COLS
-    // Use BUBBLE_RADIUS * 2.2 to allow slight spacing in calculation
-    const calculatedCols = Math.max(5, Math.floor((width - 40) / (BUBBLE_RADIUS * 2.1)));
-    gridColsRef.current = Math.min(MAX_GRID_COLS, calculatedCols); 
+  // Camera names only show up once the camera is allowed, so the list is read again after it starts and on plugging
+  useEffect(() => {
+      if (loading || cameraOff || !navigator.mediaDevices) return;
+      const refresh = () => { listCameras().then(setCameras).catch(() => setCameras([])); };
+      refresh();
+      navigator.mediaDevices.addEventListener('devicechange', refresh);
+      return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [loading, cameraOff]);
+
+  // Kept with the profile for this game and by name for next time
+  const saveCalibration = (calibration: HandCalibration) => {
+      writeCalibration(formInput.name, calibration);
+      setFormInput(prev => ({ ...prev, calibration }));
+      setShowCalibration(false);
+  };
 
-    const newBubbles: Bubble[] = [];
-    const config = DIFFICULTY_CONFIG[difficulty];
-    
-    // INCREASED COLOR VARIETY: 
-    // Easy: 4 colors (was 3), Medium: 5 colors (was 4), Hard/Infinity: 6 colors (all)
-    let numColors = 5; 
-    if (difficulty === 'Easy') numColors = 4;
-    if (difficulty === 'Hard') numColors = 6;
-    if (difficulty === 'Infinity') numColors = 6;
-    
-    // Shuffle and slice to get a random set of colors for this level
-    const levelPalette = [...COLOR_KEYS].sort(() => Math.random() - 0.5).slice(0, numColors);
-
-    for (let r = 0; r < config.initialRows; r++) { 
-      const cols = (r % 2 !== 0 ? gridColsRef.current - 1 : gridColsRef.current);
-      for (let c = 0; c < cols; c++) {
-        if (Math.random() < config.density) {
-            const { x, y } = getBubblePos(r, c, width);
-            
-            // Relaxed neighbor restriction for more randomness
-            const forbidden: BubbleColor[] = [];
-            // Only forbid if both top neighbors are same color (creating a triangle) to prevent huge initial blobs
-            if (newBubbles.length >= 2) {
-                 const prev1 = newBubbles[newBubbles.length - 1];
-                 const prev2 = newBubbles[newBubbles.length - 2];
-                 if (prev1.row === r && prev1.color === prev2.color) forbidden.push(prev1.color);
-            }
-            
-            // Pick strictly from Level Palette
-            let candidates = levelPalette.filter(c => !forbidden.includes(c));
-            if (candidates.length === 0) candidates = levelPalette;
-            
-            const selectedColor = candidates[Math.floor(Math.random() * candidates.length)];
-
-            newBubbles.push({
-              id: `${r}-${c}-${Date.now()}`,
-              row: r, col: c, x, y,
-              color: selectedColor,
-              active: true
-            });
-        }
-      }
-    }
-    bubbles.current = newBubbles;
-    lastDropTimeRef.current = performance.now();
-    setGameOver(false);
-    setGameWon(false);
-    hasWonRef.current = false;
-    
-    const activeColors = Array.from(new Set(newBubbles.map(b => b.color)));
-    if (activeColors.length > 0) {
-        setCurrentAmmo(activeColors[Math.floor(Math.random() * activeColors.length)]);
-        setNextAmmo(activeColors[Math.floor(Math.random() * activeColors.length)]);
-    }
-  }, []);
+  // Picks up where the last session paused; a quiz that was open is asked again
+  const resumeSavedGame = () => {
+      const saved = readSavedGame();
+      setSavedGame(saved);
+      if (!saved) return;
+      const { game, profile } = saved;
+      audioCtx.resume();
+      levelRef.current = game.level;
+      testPlayRef.current = saved.testPlay;
+      setIsTestPlay(saved.testPlay);
+      if (saved.testPlay) setEditorLevel(game.level);
+      setActiveLevel(game.level);
+      setFormInput(profile);
+      setUserProfile(profile);
+      setIsPaused(false);
+      showGame(game, saved.replay);
+      spelledWords.current = saved.spelledWords;
+      if (game.pendingMatch.length > 0) triggerQuiz(game.bubbles.filter(b => game.pendingMatch.includes(b.id)), profile);
+      else if (game.quizPending) triggerQuiz([], profile);
+      // The loop only resizes when the window changes, so fit the saved board to this screen now
+      const canvas = canvasRef.current;
+      if (canvas && (canvas.width !== game.width || canvas.height !== game.height)) runEngine({ type: 'resize', width: canvas.width, height: canvas.height });
+  };
 
-  const addNewRow = (canvasWidth: number, canvasHeight: number) => {
-      bubbles.current.forEach(b => {
-          b.row += 1;
-          const pos = getBubblePos(b.row, b.col, canvasWidth);
-          b.x = pos.x; b.y = pos.y;
-      });
-      const lowestY = Math.max(...bubbles.current.filter(b => b.active).map(b => b.y));
-      if (lowestY > canvasHeight - SLINGSHOT_BOTTOM_OFFSET - 80) { setGameOver(true); return; }
-
-      const newRowBubbles: Bubble[] = [];
-      const colsInRow = gridColsRef.current;
-      const difficulty = userProfile ? userProfile.difficulty : 'Medium';
-      const density = userProfile ? DIFFICULTY_CONFIG[difficulty].density : 0.85;
-
-      for (let c = 0; c < colsInRow; c++) {
-           if (Math.random() < density) {
-                const { x, y } = getBubblePos(0, c, canvasWidth);
-                const forbidden: BubbleColor[] = [];
-                if (newRowBubbles.length >= 2) {
-                    const prev1 = newRowBubbles[newRowBubbles.length - 1];
-                    const prev2 = newRowBubbles[newRowBubbles.length - 2];
-                    if (prev1.color === prev2.color) forbidden.push(prev1.color);
-                }
-                // Use getNextBubbleColor here to respect "cleared" colors (unless it decides to introduce new ones)
-                newRowBubbles.push({
-                    id: `new-${Date.now()}-${c}`, row: 0, col: c, x, y,
-                    color: getNextBubbleColor(bubbles.current, forbidden, difficulty),
-                    active: true
-                });
-           }
+  // Campaign: the level brings its own difficulty and questions, the player keeps name and class
+  const playLevel = (level: LevelDefinition, testPlay = false) => {
+      const profile: UserProfile = {
+          ...formInput,
+          difficulty: getLevelDifficulty(level),
+          topic: level.topic || formInput.topic || ENGLISH_TOPICS[0],
+          customQuestions: level.questions?.length ? level.questions : formInput.customQuestions
+      };
+      audioCtx.resume();
+      levelRef.current = level;
+      testPlayRef.current = testPlay;
+      setIsTestPlay(testPlay);
+      setActiveLevel(level);
+      setShowCampaign(false);
+      setShowEditor(false);
+      setIsPaused(false);
+      setUserProfile(profile);
+      startGame(profile.difficulty, profile.mode);
+  };
+
+  const openEditor = (level: LevelDefinition | null) => {
+      setEditorLevel(level);
+      setShowCampaign(false);
+      setShowEditor(true);
+      if (userProfile) setIsPaused(true);
+  };
+
+  const testLevel = (level: LevelDefinition) => {
+      setEditorLevel(level);
+      playLevel(level, true);
+  };
+
+  const nextLevel = activeLevel && !isTestPlay ? campaignPack.levels[campaignPack.levels.findIndex(l => l.id === activeLevel.id) + 1] : undefined;
+
+  const isFlying = () => !!gameRef.current?.projectile || !!answerShot.current;
+
+  const clearShotHints = () => {
+      potentialMatchesRef.current = [];
+      aimHintRef.current = null;
+      hintSourceRef.current = null;
+      shotSearchRef.current = null;
+  };
+
+  // Re-solve hints whenever the board or the loaded ammo changes, a few candidate pulls per frame
+  const updateShotHints = () => {
+      const game = gameRef.current;
+      if (!game || game.projectile || game.pendingMatch.length > 0 || game.gameOver) return;
+      if (!DIFFICULTY_CONFIG[game.difficulty].shotHints) return;
+      const source = hintSourceRef.current;
+      if (!source || source.bubbles !== game.bubbles || source.ammo !== game.currentAmmo) {
+          clearShotHints();
+          hintSourceRef.current = { bubbles: game.bubbles, ammo: game.currentAmmo };
+          shotSearchRef.current = createShotSearch(game);
       }
-      bubbles.current = [...bubbles.current, ...newRowBubbles];
-      lastDropTimeRef.current = performance.now();
+
+      const suggestions = shotSearchRef.current?.advance(SHOT_SEARCH_PULLS_PER_FRAME);
+      if (!suggestions) return;
+      shotSearchRef.current = null;
+      aimHintRef.current = suggestions[0] || null;
+      potentialMatchesRef.current = suggestions.flatMap(s => s.cluster);
   };
 
   const createExplosion = (x: number, y: number, color: string) => {
@@ -508,7 +683,218 @@ const GeminiSlingshot: React.FC = () => {
       });
   };
 
-  const triggerQuiz = async (matches: Bubble[]) => {
+  // Turns engine events into sound, effects and React state
+  const handleEngineEvents = (events: EngineEvent[]) => {
+      const now = performance.now();
+      let scoreAt: Point | null = null; // Where this batch's match happened, for the score breakdown
+      events.forEach(ev => {
+          switch (ev.type) {
+              case 'launched':
+                  clearShotHints();
+                  playSound('shoot');
+                  break;
+              case 'bounce':
+                  playSound('bounce');
+                  break;
+              case 'landed':
+                  playSound('hit');
+                  ballPos.current = { ...anchorPos.current };
+                  prevBallPos.current = { ...anchorPos.current };
+                  break;
+              case 'ammoSwapped':
+                  playSound('tick');
+                  break;
+              case 'missed':
+                  ballPos.current = { ...anchorPos.current };
+                  prevBallPos.current = { ...anchorPos.current };
+                  break;
+              case 'matchPending':
+                  triggerQuiz(ev.bubbles);
+                  break;
+              case 'quizPending':
+                  triggerQuiz([]);
+                  break;
+              case 'timeUp':
+                  addFloatingText(gameContainerRef.current!.clientWidth/2, gameContainerRef.current!.clientHeight/2, "TIME'S UP!", '#f87171');
+                  break;
+              case 'matched': {
+                  // Pop Animation & Points
+                  ev.bubbles.forEach(b => {
+                      effectBubbles.current.push({ ...b, active: false, popTime: now, vx: 0, vy: 0 });
+                      createExplosion(b.x, b.y, hasOwnColor(b) ? COLOR_CONFIG[b.color].hex : '#ffffff');
+                  });
+                  const center = ev.bubbles[Math.floor(ev.bubbles.length / 2)];
+                  if (center) scoreAt = { x: center.x, y: center.y - 20 };
+                  playSound('pop');
+                  break;
+              }
+              case 'bombBlast':
+                  [ev.origin, ...ev.bubbles].forEach(b => {
+                      effectBubbles.current.push({ ...b, active: false, popTime: now, vx: 0, vy: 0 });
+                  });
+                  createExplosion(ev.origin.x, ev.origin.y, '#fde047');
+                  createExplosion(ev.origin.x, ev.origin.y, '#fb923c');
+                  ev.bubbles.forEach(b => createExplosion(b.x, b.y, '#fb923c'));
+                  addFloatingText(ev.origin.x, ev.origin.y - 20, 'BOOM!', '#fb923c');
+                  if (!scoreAt) scoreAt = { x: ev.origin.x, y: ev.origin.y + 10 };
+                  playSound('pop');
+                  break;
+              case 'iceCracked':
+                  ev.bubbles.forEach(b => createExplosion(b.x, b.y, '#e0f2fe'));
+                  playSound('hit');
+                  break;
+              case 'lettersCollected':
+                  ev.bubbles.forEach(b => addFloatingText(b.x, b.y - 10, b.letter!, '#fde68a'));
+                  playSound('tick');
+                  break;
+              case 'wordCompleted': {
+                  const card = { word: ev.word, definition: ev.definition };
+                  spelledWords.current.push(ev.word);
+                  setWordCard(card);
+                  setTimeout(() => setWordCard(prev => prev === card ? null : prev), 6000);
+                  addFloatingText(gameContainerRef.current!.clientWidth/2, gameContainerRef.current!.clientHeight/3, `${ev.word}! +${ev.points}`, '#fde68a');
+                  playSound('correct');
+                  break;
+              }
+              case 'avalanche':
+                  ev.bubbles.forEach(b => {
+                      effectBubbles.current.push({ ...b, isFloating: true, vx: (Math.random() - 0.5) * 6, vy: -3 - Math.random() * 3 });
+                  });
+                  addFloatingText(gameContainerRef.current!.clientWidth/2, gameContainerRef.current!.clientHeight/2, 'AVALANCHE!', '#facc15');
+                  break;
+              case 'scored': {
+                  // Itemized so students can see where the points came from
+                  const lines = [
+                      ...ev.items.map(item => ({ text: `${item.label} +${item.points.toLocaleString()}`, color: '#4ade80' })),
+                      ...ev.multipliers.map(m => ({ text: `${m.label} x${m.factor}`, color: '#38bdf8' }))
+                  ];
+                  if (lines.length > 1) lines.push({ text: `= +${ev.points.toLocaleString()}`, color: '#facc15' });
+                  const at = scoreAt || { x: gameContainerRef.current!.clientWidth / 2, y: gameContainerRef.current!.clientHeight / 3 };
+                  const top = Math.max(40, at.y - (lines.length - 1) * 26);
+                  lines.forEach((line, i) => addFloatingText(at.x, top + i * 26, line.text, line.color));
+                  break;
+              }
+              case 'won':
+                  if (levelRef.current && gameRef.current) {
+                      const stars = getLevelStars(levelRef.current, true, gameRef.current.score);
+                      setLevelStars(stars);
+                      if (!testPlayRef.current) recordLevelStars(levelRef.current.id, stars);
+                  }
+                  setGameWon(true);
+                  setIsPaused(true);
+                  playSound('win');
+                  break;
+              case 'gameOver':
+                  setGameOver(true);
+                  break;
+          }
+      });
+  };
+
+  const runEngine = (input: EngineInput) => {
+      if (!gameRef.current) return [];
+      const before = gameRef.current;
+      const result = step(before, input);
+      if (replayRef.current) recordStep(replayRef.current, input, before, result);
+      const { state, events } = result;
+      gameRef.current = state;
+      if (events.some(e => e.type === 'rowDropped')) {
+          descentRef.current = { start: performance.now(), from: new Map(before.bubbles.map(b => [b.id, { x: b.x, y: b.y }])) };
+      }
+      if (events.length > 0) {
+          handleEngineEvents(events);
+          setScore(state.score);
+          setCurrentAmmo(state.currentAmmo);
+          setNextAmmo(state.nextAmmo);
+          setUpcomingAmmo(state.upcomingAmmo);
+          setAmmoSwapped(state.ammoSwapped);
+          setStreaks({ chain: state.chain, quiz: state.quizStreak });
+          setQuizTally({ correct: state.quizCorrect, missed: state.quizMissed });
+          setShotsLeft(getShotsLeft(state));
+          setWordTarget(state.wordTarget);
+          syncClassroomProgress(state);
+      }
+      const msLeft = getTimeLeft(state);
+      if (msLeft !== null) setTimeLeft(Math.ceil(msLeft / 1000));
+      return events;
+  };
+
+  // Letter Bubbles: fetch the next target word whenever the game has none
+  useEffect(() => {
+      if (!userProfile?.letterMode || wordTarget || wordLoading || gameOver || !gameRef.current) return;
+      setWordLoading(true);
+      const topic = userProfile.topic || 'Everyday English';
+      const shown = shownGameRef.current; // A restart or classroom round while loading gets its own word
+      getVocabularyWord(topic, userProfile.className, userProfile.difficulty, spelledWords.current)
+          .then(res => res.word)
+          .catch(() => getLocalVocabularyWord(topic, userProfile.difficulty, spelledWords.current))
+          .then(word => {
+              if (shownGameRef.current !== shown || !gameRef.current || gameRef.current.gameOver) return;
+              runEngine({ type: 'setWord', word: word.word, definition: word.definition });
+              setWordTarget(gameRef.current.wordTarget);
+          })
+          .catch(e => console.error("Failed to set Letter Bubbles word", e))
+          .finally(() => setWordLoading(false));
+  }, [userProfile, wordTarget, wordLoading, gameOver]);
+
+  const releaseShot = () => {
+      if (answerBoard.current) { shootAnswer(); return; }
+      const events = runEngine({ type: 'shot', dx: anchorPos.current.x - ballPos.current.x, dy: anchorPos.current.y - ballPos.current.y });
+      if (!events.some(e => e.type === 'launched')) ballPos.current = { ...anchorPos.current };
+  };
+
+  const swapAmmo = () => {
+      if (isQuizActiveRef.current || isPausedRef.current) return;
+      runEngine({ type: 'swapAmmo' });
+  };
+
+  // Keyboard: S swaps loaded and next ammo, arrows pull the slingshot, Space/Enter fires, Escape lets go
+  useEffect(() => {
+      // The canvas is mirrored, so pulling towards screen left means +x
+      const PULL_KEYS: Record<string, Point> = {
+          ArrowLeft: { x: KEYBOARD_PULL_STEP, y: 0 },
+          ArrowRight: { x: -KEYBOARD_PULL_STEP, y: 0 },
+          ArrowUp: { x: 0, y: -KEYBOARD_PULL_STEP },
+          ArrowDown: { x: 0, y: KEYBOARD_PULL_STEP }
+      };
+      const handleKeyDown = (e: KeyboardEvent) => {
+          if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+          const pull = PULL_KEYS[e.code];
+          if (e.code === 'KeyS' && !e.repeat) {
+              swapAmmo();
+          } else if (pull && gameRef.current) {
+              e.preventDefault();
+              slingshot.nudge(pull.x, pull.y);
+          } else if ((e.code === 'Space' || e.code === 'Enter') && slingshot.getSource() === 'keyboard') {
+              e.preventDefault();
+              if (slingshot.release('keyboard')) releaseShot();
+          } else if (e.code === 'Escape' && slingshot.getSource() === 'keyboard') {
+              slingshot.cancel();
+          }
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [userProfile]);
+
+  // Strategic Co-pilot: Gemini (or the local stand-in) picks a target cell for the loaded ammo
+  const askCopilot = async () => {
+      const game = gameRef.current;
+      if (!game || copilotLoading || isFlying() || game.pendingMatch.length > 0 || game.gameOver) return;
+      setCopilotLoading(true);
+      copilotRef.current = null;
+      try {
+          const res = await getStrategyAdvice(game);
+          if (res.debug.error) console.warn("Co-pilot using local advice:", res.debug.error);
+          copilotRef.current = { advice: res.advice, board: game.bubbles };
+      } catch (e) {
+          console.error("Co-pilot failed, using local advice", e);
+          copilotRef.current = { advice: getLocalStrategyAdvice(game), board: game.bubbles };
+      } finally {
+          setCopilotLoading(false);
+      }
+  };
+
+  const triggerQuiz = async (matches: Bubble[], profile = userProfile) => {
       isQuizActiveRef.current = true;
       setPendingMatches(matches);
       setQuizLoading(true);
@@ -516,234 +902,255 @@ const GeminiSlingshot: React.FC = () => {
       setQuizResult(null);
       setQuizAnswer('');
       
-      if (userProfile) {
+      if (profile) {
           // Logic: Prioritize Custom Questions if they exist, otherwise use Gemini
-          if (userProfile.customQuestions && userProfile.customQuestions.length > 0) {
+          if (profile.customQuestions && profile.customQuestions.length > 0) {
               setQuizLoading(true);
               // Fake delay for "thinking" effect
               setTimeout(() => {
-                  const randomQ = userProfile.customQuestions![Math.floor(Math.random() * userProfile.customQuestions!.length)];
-                  setQuizData(randomQ);
+                  const questions = profile.customQuestions!;
+                  const room = classroomRef.current;
+                  // Classroom rounds ask everyone the same questions in the same order
+                  const nextQ = room?.round ? questions[room.questionIndex++ % questions.length] : questions[Math.floor(Math.random() * questions.length)];
+                  setQuizData(nextQ);
                   setQuizLoading(false);
               }, 600);
           } else {
               setQuizLoading(true);
-              const res = await generateQuizQuestion(userProfile.topic, userProfile.className, userProfile.difficulty);
+              const res = await generateQuizQuestion(profile.topic, profile.className, profile.difficulty);
               setQuizData(res.quiz);
               setQuizLoading(false);
           }
       }
   };
 
-  const handleQuizSubmit = (e?: React.FormEvent) => {
+  const handleQuizSubmit = (e?: React.FormEvent, answer = quizAnswer) => {
       if (e) e.preventDefault();
       if (!quizData) return;
       const normalize = (s: string) => s.trim().toLowerCase().replace(/[.,!]/g, '');
-      const isCorrect = normalize(quizAnswer) === normalize(quizData.answer);
+      const isCorrect = normalize(answer) === normalize(quizData.answer);
       setQuizResult(isCorrect ? 'correct' : 'incorrect');
+      answerBoard.current = null;
+      tileDrag.current = null;
       if (isCorrect) {
           playSound('correct');
-          setTimeout(() => completeMatch(true), 1200);
+          setTimeout(() => completeMatch(true, true), 1200);
       } else {
           playSound('incorrect');
       }
   };
 
-  const findFloatingBubbles = (allBubbles: Bubble[]) => {
-      const connected = new Set<string>();
-      const queue: Bubble[] = allBubbles.filter(b => b.row === 0 && b.active && !b.isFloating);
-      queue.forEach(b => connected.add(b.id));
-      let head = 0;
-      while(head < queue.length) {
-          const curr = queue[head++];
-          const neighbors = allBubbles.filter(b => b.active && !b.isFloating && !connected.has(b.id) && isNeighbor(curr, b));
-          for (const n of neighbors) { connected.add(n.id); queue.push(n); }
-      }
-      return allBubbles.filter(b => b.active && !b.isFloating && !connected.has(b.id));
+  submitAnswerRef.current = (answer: string) => {
+      setQuizAnswer(answer);
+      handleQuizSubmit(undefined, answer);
   };
 
-  const completeMatch = (awarded: boolean) => {
-      if (awarded && userProfile) {
-        let points = 0;
-        const targetColor = pendingMatches[0]?.color || 'red';
-        const basePoints = COLOR_CONFIG[targetColor].points;
-
-        // Pop Animation & Points
-        pendingMatches.forEach(b => {
-            b.active = false;
-            b.popTime = performance.now();
-            createExplosion(b.x, b.y, COLOR_CONFIG[b.color].hex);
-            points += basePoints;
-        });
-        
-        // Floating Text for main match
-        if (pendingMatches.length > 0) {
-            const center = pendingMatches[Math.floor(pendingMatches.length/2)];
-            addFloatingText(center.x, center.y - 20, `+${points}`, '#4ade80');
-        }
+  // --- Hands-free quiz ---
+  useEffect(() => {
+      const canvas = canvasRef.current;
+      answerBoard.current = quizData && canvas ? createAnswerBoard(quizData, canvas.width, canvas.height) : null;
+      tileDrag.current = null;
+      answerShot.current = null;
+  }, [quizData]);
+
+  // Rearranged words go into the typed answer as they move; the last tile placed submits
+  const updateArrangement = (board: AnswerBoard) => {
+      answerBoard.current = board;
+      if (board.kind !== 'arrange') return;
+      const answer = getArrangedAnswer(board);
+      if (board.placed.length === board.tiles.length) submitAnswerRef.current(answer);
+      else setQuizAnswer(answer);
+  };
 
-        playSound('pop');
-        
-        const floating = findFloatingBubbles(bubbles.current);
-        if (floating.length > 0) {
-            floating.forEach(b => {
-                b.isFloating = true;
-                (b as any).vx = (Math.random() - 0.5) * 6;
-                (b as any).vy = -3 - Math.random() * 3;
-            });
-            const bonus = floating.length * basePoints * 2;
-            points += bonus;
-            addFloatingText(gameContainerRef.current!.clientWidth/2, gameContainerRef.current!.clientHeight/2, `AVALANCHE! +${bonus}`, '#facc15');
-        }
+  // A choice is the answer; a word tile hops between the pool and the end of the answer
+  const pickAnswer = (index: number) => {
+      const board = answerBoard.current;
+      const canvas = canvasRef.current;
+      if (!board || !canvas) return;
+      if (board.kind === 'choice') submitAnswerRef.current(board.targets[index].text);
+      else updateArrangement(toggleTile(board, index, canvas.width, canvas.height));
+  };
 
-        scoreRef.current += points + 500;
-        setScore(scoreRef.current);
-        
-        const config = DIFFICULTY_CONFIG[userProfile.difficulty];
-        if (userProfile.difficulty !== 'Infinity' && !hasWonRef.current && scoreRef.current >= config.winScore) {
-            hasWonRef.current = true;
-            setGameWon(true);
-            setIsPaused(true);
-            playSound('win');
-        }
-      }
+  // Pinch or press on the answers: a choice is picked at once, a tile is picked up. False when nothing is there
+  const pressAnswer = (source: AimSource, point: Point) => {
+      const board = answerBoard.current;
+      if (!board || answerShot.current || tileDrag.current) return false;
+      const index = findAnswerTarget(board, point);
+      if (index === null) return false;
+      if (board.kind === 'choice') pickAnswer(index);
+      else tileDrag.current = { index, pos: point, source };
+      return true;
+  };
+
+  const releaseTile = () => {
+      const board = answerBoard.current;
+      const drag = tileDrag.current;
+      const canvas = canvasRef.current;
+      tileDrag.current = null;
+      if (board?.kind === 'arrange' && drag && canvas) updateArrangement(dropTile(board, drag.index, drag.pos, canvas.width, canvas.height));
+  };
 
+  // The slingshot fires at the answers instead of the board; the flight is traced up front and played back by the game loop
+  const shootAnswer = () => {
+      const board = answerBoard.current;
+      const canvas = canvasRef.current;
+      const velocity = launchVelocity(anchorPos.current.x - ballPos.current.x, anchorPos.current.y - ballPos.current.y);
+      if (!board || !canvas || !velocity) { ballPos.current = { ...anchorPos.current }; return; }
+      answerShot.current = { ...traceAnswerShot(ballPos.current, velocity, canvas.width, canvas.height, board), step: 0 };
+      playSound('shoot');
+  };
+
+  const completeMatch = (awarded: boolean, correct = false) => {
+      // Quiz Rush asks after every shot; without a match there is nothing to pop
+      if (gameRef.current?.quizPending) runEngine({ type: 'answerQuiz', correct });
+      else runEngine({ type: 'resolveMatch', awarded, correct });
       setQuizData(null);
       isQuizActiveRef.current = false;
       setPendingMatches([]);
-      
-      const activeCount = bubbles.current.filter(b => b.active && !b.isFloating).length;
-      if (activeCount === 0 && userProfile) initGrid(canvasRef.current?.width || 1280, userProfile.difficulty);
   };
   
-  const skipQuiz = () => completeMatch(true);
-
-  const checkMatches = (startBubble: Bubble) => {
-    const toCheck = [startBubble];
-    const visited = new Set<string>();
-    const matches: Bubble[] = [];
-    while (toCheck.length > 0) {
-      const current = toCheck.pop()!;
-      if (visited.has(current.id)) continue;
-      visited.add(current.id);
-      if (current.color === startBubble.color) {
-        matches.push(current);
-        toCheck.push(...bubbles.current.filter(b => b.active && !b.isFloating && !visited.has(b.id) && isNeighbor(current, b)));
+  // Quiz Rush counts a skip as a miss and keeps the cluster
+  const skipQuiz = () => completeMatch(gameRef.current?.mode !== 'quizRush');
+
+  const restartGame = () => {
+      // One attempt per classroom round: back to the scoreboard instead
+      if (classroomRef.current?.round) { setShowClassroom(true); return; }
+      if (userProfile) startGame(userProfile.difficulty, userProfile.mode);
+  };
+
+  // --- Classroom Battle ---
+  const updateClassroom = (patch: Partial<ClassroomSession>) => setClassroom(prev => prev ? { ...prev, ...patch } : prev);
+
+  // Student: every round starts the same seeded board with the teacher's question list
+  const joinRound = (round: ClassroomRound) => {
+      const room = classroomRef.current;
+      if (!room) return;
+      room.round = round;
+      room.questionIndex = 0;
+      room.lastProgress = '';
+      const profile: UserProfile = { ...room.profile, topic: round.topic, difficulty: round.difficulty, mode: round.mode, customQuestions: round.questions, letterMode: false };
+      audioCtx.resume();
+      levelRef.current = null;
+      testPlayRef.current = false;
+      setIsTestPlay(false);
+      setActiveLevel(null);
+      setShowLeaderboard(false);
+      setShowClassroom(false);
+      setIsPaused(false);
+      setUserProfile(profile);
+      startGame(round.difficulty, round.mode, { seed: round.seed, cols: round.cols });
+  };
+
+  const handleClassroomMessage = (message: ClassroomServerMessage) => {
+      const room = classroomRef.current;
+      if (!room) return;
+      switch (message.type) {
+          case 'welcome':
+              updateClassroom({ status: 'connected', playerId: message.id, round: message.round, error: null });
+              if (room.role === 'student' && message.round) joinRound(message.round);
+              break;
+          case 'scoreboard':
+              updateClassroom({ players: message.players });
+              break;
+          case 'roundStarted':
+              updateClassroom({ round: message.round, finalStandings: null });
+              if (room.role === 'student') joinRound(message.round);
+              break;
+          case 'roundStopped':
+              updateClassroom({ round: null, finalStandings: message.players });
+              if (room.round) {
+                  room.round = null;
+                  setGameOver(true);
+                  setShowClassroom(true);
+              }
+              break;
+          case 'error':
+              updateClassroom({ error: message.message });
+              break;
       }
-    }
-    if (matches.length >= 3) {
-      triggerQuiz(matches);
-      return true;
-    }
-    return false;
   };
 
-  // --- Touch Event Handlers for Mobile ---
-  const handleTouchStart = (e: React.TouchEvent) => {
-    if (isQuizActiveRef.current || gameOverRef.current || isFlying.current) return;
-    const touch = e.touches[0];
-    const rect = canvasRef.current!.getBoundingClientRect();
-    const x = touch.clientX - rect.left;
-    const y = touch.clientY - rect.top;
-
-    // Check if touching near ball or slingshot
-    const distToBall = Math.sqrt(Math.pow(x - ballPos.current.x, 2) + Math.pow(y - ballPos.current.y, 2));
-    const distToAnchor = Math.sqrt(Math.pow(x - anchorPos.current.x, 2) + Math.pow(y - anchorPos.current.y, 2));
-    
-    if (distToBall < 120 || distToAnchor < 120) { // Large hit area for mobile
-        isDragging.current = true;
-        isPinching.current = true; // Use existing pinch visual logic
-        // Immediately snap ball to touch
-        ballPos.current = { x, y };
-    }
+  const connectToClassroom = (url: string, role: ClassroomRole) => {
+      classroomRef.current?.connection.close();
+      const profile = formInput;
+      const connection = connectClassroom(url, {
+          onOpen: () => connection.send({ type: 'join', role, name: profile.name || 'Teacher', className: profile.className }),
+          onMessage: handleClassroomMessage,
+          onClose: () => {
+              if (classroomRef.current?.connection !== connection) return; // Left on purpose
+              classroomRef.current = null;
+              setClassroom(prev => prev && { ...prev, status: 'closed', round: null, error: prev.status === 'connecting' ? `Could not reach ${url}` : 'Lost the connection to the classroom relay' });
+          }
+      });
+      classroomRef.current = { connection, profile, role, round: null, questionIndex: 0, lastProgress: '' };
+      setClassroom({ url, role, status: 'connecting', playerId: null, players: [], round: null, finalStandings: null, error: null });
   };
 
-  const handleTouchMove = (e: React.TouchEvent) => {
-    if (!isDragging.current || isFlying.current) return;
-    // Prevent scrolling
-    // e.preventDefault(); // Note: might need to be added to listener options in useEffect
-
-    const touch = e.touches[0];
-    const rect = canvasRef.current!.getBoundingClientRect();
-    const x = touch.clientX - rect.left;
-    const y = touch.clientY - rect.top;
-
-    // Constrain logic
-    ballPos.current = { x, y };
-    const dragDx = ballPos.current.x - anchorPos.current.x;
-    const dragDy = ballPos.current.y - anchorPos.current.y;
-    const dragDist = Math.sqrt(dragDx*dragDx + dragDy*dragDy);
-    
-    if (dragDist > MAX_DRAG_DIST) {
-        const angle = Math.atan2(dragDy, dragDx);
-        ballPos.current.x = anchorPos.current.x + Math.cos(angle) * MAX_DRAG_DIST;
-        ballPos.current.y = anchorPos.current.y + Math.sin(angle) * MAX_DRAG_DIST;
-    }
+  const leaveClassroom = () => {
+      const room = classroomRef.current;
+      classroomRef.current = null;
+      room?.connection.close();
+      setClassroom(null);
   };
 
-  const handleTouchEnd = () => {
-    if (!isDragging.current) return;
-    isDragging.current = false;
-    isPinching.current = false;
-    
-    const dx = anchorPos.current.x - ballPos.current.x;
-    const dy = anchorPos.current.y - ballPos.current.y;
-    
-    if (Math.sqrt(dx*dx + dy*dy) > 30) {
-        playSound('shoot');
-        isFlying.current = true;
-        flightStartTime.current = performance.now();
-        const power = Math.min(Math.sqrt(dx*dx + dy*dy) / MAX_DRAG_DIST, 1.0);
-        const mult = MIN_FORCE_MULT + (MAX_FORCE_MULT - MIN_FORCE_MULT) * (power * power);
-        ballVel.current = { x: dx * mult, y: dy * mult };
-    } else {
-        ballPos.current = { ...anchorPos.current };
-    }
+  // Teacher: fixes the seed, board width and question list, then the relay hands them to every student
+  const startClassroomRound = async () => {
+      const room = classroomRef.current;
+      if (!room) return;
+      const questions = await buildRoundQuestions(formInput);
+      room.connection.send({
+          type: 'startRound',
+          round: {
+              seed: randomSeed(),
+              cols: getGridCols(canvasRef.current?.width || 1280),
+              difficulty: formInput.difficulty,
+              mode: formInput.mode || 'classic',
+              topic: formInput.topic || 'Custom questions',
+              questions
+          }
+      });
   };
 
+  const stopClassroomRound = () => classroomRef.current?.connection.send({ type: 'stopRound' });
+
+  // Student: report score, game over and quiz results whenever they change
+  const syncClassroomProgress = (state: GameState) => {
+      const room = classroomRef.current;
+      if (!room?.round) return;
+      const progress = { type: 'progress' as const, score: state.score, gameOver: state.gameOver, quizCorrect: state.quizCorrect, quizMissed: state.quizMissed };
+      const key = JSON.stringify(progress);
+      if (key === room.lastProgress) return;
+      room.lastProgress = key;
+      room.connection.send(progress);
+  };
 
-  // --- Rendering ---
-  const drawBubble = (ctx: CanvasRenderingContext2D, x: number, y: number, radius: number, colorKey: BubbleColor, isHighlighted: boolean = false, isHint: boolean = false) => {
-    const config = COLOR_CONFIG[colorKey];
-    const baseColor = config.hex;
-    
-    // Hint Glow
-    if (isHint) {
-        const pulse = (Math.sin(performance.now() / 150) + 1) / 2;
-        ctx.save();
-        ctx.beginPath();
-        ctx.arc(x, y, radius + 4, 0, Math.PI * 2);
-        ctx.strokeStyle = `rgba(255, 255, 255, ${0.7 + pulse * 0.3})`;
-        ctx.lineWidth = 4;
-        ctx.shadowBlur = 15;
-        ctx.shadowColor = baseColor; // Colored glow for vibrancy
-        ctx.stroke();
-        ctx.restore();
-    }
+  useEffect(() => () => classroomRef.current?.connection.close(), []);
 
-    // Main Body - Vibrant Gradient
-    const grad = ctx.createRadialGradient(x - radius * 0.3, y - radius * 0.3, radius * 0.1, x, y, radius);
-    grad.addColorStop(0, '#ffffff'); // Highlight point            
-    grad.addColorStop(0.2, baseColor); // Main color start earlier for vibrancy           
-    grad.addColorStop(1, adjustColor(baseColor, -40)); // Deep shadow for volume
-
-    ctx.save();
-    // Strong shadow for pop against dark background
-    ctx.shadowColor = 'rgba(0,0,0,0.5)';
-    ctx.shadowBlur = 6;
-    ctx.shadowOffsetY = 3;
-    
-    ctx.beginPath();
-    ctx.arc(x, y, radius, 0, Math.PI * 2);
-    ctx.fillStyle = grad;
-    ctx.fill();
-    ctx.restore();
-
-    // Sharp Highlight (Glossy Gem Look)
-    ctx.beginPath();
-    ctx.ellipse(x - radius * 0.3, y - radius * 0.35, radius * 0.25, radius * 0.12, Math.PI / 4, 0, Math.PI * 2);
-    ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
-    ctx.fill();
+  // --- Pointer Input: mouse, pen and touch ---
+  const pointerSource = (e: React.PointerEvent): AimSource => e.pointerType === 'touch' ? 'touch' : 'pointer';
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!e.isPrimary) return;
+    const point = toCanvasPoint(e.currentTarget, e.clientX, e.clientY);
+    if (pressAnswer(pointerSource(e), point) || slingshot.grab(pointerSource(e), point)) e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!e.isPrimary) return;
+    const point = toCanvasPoint(e.currentTarget, e.clientX, e.clientY);
+    if (tileDrag.current?.source === pointerSource(e)) tileDrag.current.pos = point;
+    else slingshot.drag(pointerSource(e), point);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!e.isPrimary) return;
+    if (tileDrag.current?.source === pointerSource(e)) releaseTile();
+    else if (slingshot.release(pointerSource(e))) releaseShot();
+  };
+
+  const handlePointerCancel = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (tileDrag.current?.source === pointerSource(e)) tileDrag.current = null;
+    if (slingshot.getSource() === pointerSource(e)) slingshot.cancel();
   };
 
   useEffect(() => {
@@ -756,243 +1163,328 @@ const GeminiSlingshot: React.FC = () => {
     
     canvas.width = container.clientWidth;
     canvas.height = container.clientHeight;
-    anchorPos.current = { x: canvas.width / 2, y: canvas.height - SLINGSHOT_BOTTOM_OFFSET };
+    anchorPos.current = getAnchor(canvas.width, canvas.height);
     ballPos.current = { ...anchorPos.current };
+    prevBallPos.current = { ...anchorPos.current };
+    lastFrameTime.current = performance.now();
     
-    if (userProfile && bubbles.current.length === 0) initGrid(canvas.width, userProfile.difficulty);
-
-    let camera: any = null;
-    let hands: any = null;
-
-    const onResults = (results: any) => {
-      if (isPausedRef.current || gameOverRef.current) return;
+    if (userProfile && !gameRef.current) startGame(userProfile.difficulty, userProfile.mode);
+
+    let frameId = 0;
+    let accumulator = 0;
+    let processedResults: any = null;
+    const calibration = userProfile?.calibration || DEFAULT_CALIBRATION;
+
+    // MediaPipe callback: only hands the newest landmarks to the game loop
+    const onResults = (results: HandResults) => {
+      latestResults.current = results;
+      landmarkRecorder.current?.add(results);
+      handFeed.current?.(results);
       setLoading(false);
+    };
+
+    // Hand Tracking Logic - runs once per new MediaPipe result
+    const processHands = (results: any) => {
+      // Only check hands while no other device holds the slingshot
+      const holder = slingshot.getSource();
+      const landmarks = userProfile ? pickHand(results, calibration.handedness) : null;
       const now = performance.now();
-      
-      // Auto Drop
-      if (userProfile && !isQuizActiveRef.current && !isPinching.current && !isFlying.current && !gameWon) {
-          if (now - lastDropTimeRef.current > DIFFICULTY_CONFIG[userProfile.difficulty].dropInterval) addNewRow(canvas.width, canvas.height);
+      const wasPinching = pinch.isPinching();
+      if ((holder === null || holder === 'hand') && landmarks && (!isQuizActiveRef.current || answerBoard.current) && !gameOverRef.current) {
+        const pos = handFilter.filter(toPlayPoint(calibration, landmarks, canvas.width, canvas.height), now);
+        const pinchDist = getPinchDist(landmarks);
+        const pinching = pinch.update(calibration, pinchDist, now);
+        trackedHand.current = { landmarks: mapLandmarks(calibration, landmarks), pos, pinchDist, pinching };
+      } else {
+          // A hand lost for a frame counts as opening, so the release debounce covers tracker dropouts too
+          if (!pinch.update(calibration, Infinity, now)) handFilter.reset();
+          trackedHand.current = null;
       }
-      
-      if (canvas.width !== container.clientWidth || canvas.height !== container.clientHeight) {
-        canvas.width = container.clientWidth;
-        canvas.height = container.clientHeight;
-        anchorPos.current = { x: canvas.width / 2, y: canvas.height - SLINGSHOT_BOTTOM_OFFSET };
-        if (!isFlying.current && !isPinching.current) ballPos.current = { ...anchorPos.current };
+
+      // Hands-free quiz: a pinch that starts on an answer picks it, or carries its word tile until the pinch opens
+      const hand = trackedHand.current;
+      if (tileDrag.current?.source === 'hand') {
+          if (!pinch.isPinching()) releaseTile();
+          else if (hand) tileDrag.current.pos = hand.pos;
+          return;
+      }
+      if (hand && pinch.isPinching() && !wasPinching && slingshot.getSource() === null && pressAnswer('hand', hand.pos)) return;
+
+      // Slingshot grab / drag / release by pinching; a held pinch keeps the ball where it was while the hand is out of view
+      if (pinch.isPinching()) {
+          if (!hand) return;
+          if (slingshot.getSource() === 'hand') slingshot.drag('hand', hand.pos);
+          else slingshot.grab('hand', hand.pos);
+      } else if (slingshot.release('hand')) {
+          releaseShot();
+      }
+    };
+
+    // One fixed physics step: everything that moves is advanced here, never in render
+    const fixedUpdate = () => {
+      prevBallPos.current = { ...ballPos.current };
+
+      // Ball eases back to the pouch when nobody is holding it
+      if (userProfile && !isQuizActiveRef.current && !isFlying() && slingshot.getSource() === null) {
+          const dx = anchorPos.current.x - ballPos.current.x;
+          const dy = anchorPos.current.y - ballPos.current.y;
+          ballPos.current.x += dx * 0.15; ballPos.current.y += dy * 0.15;
+      }
+
+      // Hands-free quiz shot: plays back its traced flight, then answers with whatever it hit
+      const shot = answerShot.current;
+      if (shot) {
+          ballPos.current = { ...shot.path[Math.min(shot.step++, shot.path.length - 1)] };
+          if (shot.step >= shot.path.length) {
+              answerShot.current = null;
+              ballPos.current = { ...anchorPos.current };
+              prevBallPos.current = { ...anchorPos.current };
+              if (shot.hit !== null) pickAnswer(shot.hit);
+          }
+      }
+
+      // Engine Tick (Projectile, Auto Drop) - drop waits while the player is aiming
+      if (userProfile && !gameOverRef.current) {
+          runEngine({ type: 'tick', dt: PHYSICS_STEP_MS, holdDrop: slingshot.getSource() !== null });
+          const projectile = gameRef.current?.projectile;
+          if (projectile) ballPos.current = { x: projectile.x, y: projectile.y };
+      }
+
+      // Effect Physics (Falling avalanche bubbles)
+      effectBubbles.current.forEach(b => {
+          if (b.isFloating) {
+              b.vy += 0.5;
+              b.x += b.vx; b.y += b.vy;
+              if (b.x < BUBBLE_RADIUS || b.x > canvas.width - BUBBLE_RADIUS) { b.vx *= -0.6; b.x = Math.max(BUBBLE_RADIUS, Math.min(canvas.width - BUBBLE_RADIUS, b.x)); }
+          }
+      });
+
+      // Particles (Sparkles)
+      for (let i = particles.current.length - 1; i >= 0; i--) {
+          const p = particles.current[i];
+          p.x += p.vx; p.y += p.vy; p.life -= 0.04;
+          if (p.life <= 0) particles.current.splice(i, 1);
+      }
+
+      // Floating Texts
+      for (let i = floatingTexts.current.length - 1; i >= 0; i--) {
+          const ft = floatingTexts.current[i];
+          ft.y += ft.vy;
+          ft.life -= 0.02;
+          if (ft.life <= 0) floatingTexts.current.splice(i, 1);
       }
+    };
+
+    const render = (now: number, alpha: number) => {
+      effectBubbles.current = effectBubbles.current.filter(b => {
+          if (b.isFloating) return b.y < canvas.height + 100;
+          if (b.popTime) return (now - b.popTime < POP_DURATION);
+          return false;
+      });
 
       ctx.save();
       ctx.clearRect(0, 0, canvas.width, canvas.height);
       
-      // Video Feed & Overlay
-      ctx.drawImage(results.image, 0, 0, canvas.width, canvas.height);
+      // Video Feed & Overlay (flipped back when the player turned mirroring off, so the feed matches their hand)
+      drawCameraFeed(ctx, latestResults.current, cameraSettingsRef.current.privacy, !calibration.mirror);
       // Dark Elegant Overlay (Midnight Blue tint)
       ctx.fillStyle = 'rgba(15, 23, 42, 0.7)'; 
       ctx.fillRect(0, 0, canvas.width, canvas.height);
 
-      // Hand Tracking Logic
-      let handPos: Point | null = null;
-      let pinchDist = 1.0;
-
-      // Only check hands if NOT currently touch-dragging
-      if (!isDragging.current && userProfile && !isQuizActiveRef.current && !gameOverRef.current && results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-        const landmarks = results.multiHandLandmarks[0];
-        const rawHandX = (landmarks[8].x * canvas.width + landmarks[4].x * canvas.width) / 2;
-        const rawHandY = (landmarks[8].y * canvas.height + landmarks[4].y * canvas.height) / 2;
-
-        // Apply Hand Smoothing (Linear Interpolation)
-        if (!prevHandPos.current) {
-            prevHandPos.current = { x: rawHandX, y: rawHandY };
-        } else {
-            prevHandPos.current.x = prevHandPos.current.x * (1 - SMOOTHING_FACTOR) + rawHandX * SMOOTHING_FACTOR;
-            prevHandPos.current.y = prevHandPos.current.y * (1 - SMOOTHING_FACTOR) + rawHandY * SMOOTHING_FACTOR;
-        }
-
-        handPos = { ...prevHandPos.current };
-        pinchDist = Math.sqrt(Math.pow(landmarks[8].x - landmarks[4].x, 2) + Math.pow(landmarks[8].y - landmarks[4].y, 2));
-
+      const hand = trackedHand.current;
+      if (hand) {
         if (window.drawConnectors && window.drawLandmarks) {
-           window.drawConnectors(ctx, landmarks, window.HAND_CONNECTIONS, {color: 'rgba(56, 189, 248, 0.6)', lineWidth: 4}); // Thicker lines
-           window.drawLandmarks(ctx, landmarks, {color: 'rgba(14, 165, 233, 0.8)', lineWidth: 0, radius: 6}); // Larger points
+           window.drawConnectors(ctx, hand.landmarks, window.HAND_CONNECTIONS, {color: 'rgba(56, 189, 248, 0.6)', lineWidth: 4}); // Thicker lines
+           window.drawLandmarks(ctx, hand.landmarks, {color: 'rgba(14, 165, 233, 0.8)', lineWidth: 0, radius: 6}); // Larger points
         }
         
         // Custom Cursor
         ctx.beginPath();
-        ctx.arc(handPos.x, handPos.y, 35, 0, Math.PI * 2); // Larger cursor (25 -> 35)
-        ctx.strokeStyle = pinchDist < PINCH_THRESHOLD ? '#4ade80' : 'rgba(56, 189, 248, 0.8)';
+        ctx.arc(hand.pos.x, hand.pos.y, 35, 0, Math.PI * 2); // Larger cursor (25 -> 35)
+        ctx.strokeStyle = hand.pinching ? '#4ade80' : 'rgba(56, 189, 248, 0.8)';
         ctx.lineWidth = 2;
-        ctx.setLineDash(pinchDist < PINCH_THRESHOLD ? [] : [4, 4]);
+        ctx.setLineDash(hand.pinching ? [] : [4, 4]);
         ctx.stroke();
         ctx.setLineDash([]);
-      } else {
-          // Reset smooth tracking if hand is lost
-          prevHandPos.current = null;
       }
-      
-      // Physics Updates (Slingshot, Bubbles, Projectile) - Keeping Logic Same
-      // Note: Skip hand logic if dragging via touch
-      if (userProfile && !isQuizActiveRef.current && !gameOverRef.current && !isDragging.current) {
-         if (handPos && pinchDist < PINCH_THRESHOLD && !isFlying.current) {
-            const distToBall = Math.sqrt(Math.pow(handPos.x - ballPos.current.x, 2) + Math.pow(handPos.y - ballPos.current.y, 2));
-            if (!isPinching.current && distToBall < 100) isPinching.current = true;
-            if (isPinching.current) {
-                ballPos.current = { x: handPos.x, y: handPos.y };
-                const dragDx = ballPos.current.x - anchorPos.current.x;
-                const dragDy = ballPos.current.y - anchorPos.current.y;
-                const dragDist = Math.sqrt(dragDx*dragDx + dragDy*dragDy);
-                if (dragDist > MAX_DRAG_DIST) {
-                    const angle = Math.atan2(dragDy, dragDx);
-                    ballPos.current.x = anchorPos.current.x + Math.cos(angle) * MAX_DRAG_DIST;
-                    ballPos.current.y = anchorPos.current.y + Math.sin(angle) * MAX_DRAG_DIST;
-                }
-            }
-        } else if (isPinching.current && (!handPos || pinchDist >= PINCH_THRESHOLD)) {
-            isPinching.current = false;
-            const dx = anchorPos.current.x - ballPos.current.x;
-            const dy = anchorPos.current.y - ballPos.current.y;
-            if (Math.sqrt(dx*dx + dy*dy) > 30) {
-                playSound('shoot');
-                isFlying.current = true;
-                flightStartTime.current = performance.now();
-                const power = Math.min(Math.sqrt(dx*dx + dy*dy) / MAX_DRAG_DIST, 1.0);
-                const mult = MIN_FORCE_MULT + (MAX_FORCE_MULT - MIN_FORCE_MULT) * (power * power);
-                ballVel.current = { x: dx * mult, y: dy * mult };
-            } else { ballPos.current = { ...anchorPos.current }; }
-        } else if (!isFlying.current && !isPinching.current) {
-            const dx = anchorPos.current.x - ballPos.current.x;
-            const dy = anchorPos.current.y - ballPos.current.y;
-            ballPos.current.x += dx * 0.15; ballPos.current.y += dy * 0.15;
-        }
-      }
-
-      // Physics Loop (Floating/Projectile)
-      bubbles.current.forEach(b => {
-          if (b.isFloating) {
-              const bAny = b as any;
-              bAny.vy = (bAny.vy || 0) + 0.5;
-              b.x += (bAny.vx || 0); b.y += bAny.vy;
-              if (b.x < BUBBLE_RADIUS || b.x > canvas.width - BUBBLE_RADIUS) { bAny.vx *= -0.6; b.x = Math.max(BUBBLE_RADIUS, Math.min(canvas.width - BUBBLE_RADIUS, b.x)); }
-          }
-      });
-      bubbles.current = bubbles.current.filter(b => {
-          if (b.active) return b.y < canvas.height + 100;
-          if (b.popTime) return (now - b.popTime < POP_DURATION);
-          return false;
-      });
 
-      if (isFlying.current && !isQuizActiveRef.current && !gameOverRef.current) {
-         if (now - flightStartTime.current > 5000) { isFlying.current = false; ballPos.current = { ...anchorPos.current }; ballVel.current = { x: 0, y: 0 }; }
-         else {
-             ballVel.current.y += GRAVITY;
-             const speed = Math.sqrt(ballVel.current.x**2 + ballVel.current.y**2);
-             const steps = Math.ceil(speed / (BUBBLE_RADIUS * 0.5));
-             let collision = false;
-             for (let i = 0; i < steps; i++) {
-                 ballPos.current.x += ballVel.current.x / steps; ballPos.current.y += ballVel.current.y / steps;
-                 if (ballPos.current.x < BUBBLE_RADIUS || ballPos.current.x > canvas.width - BUBBLE_RADIUS) { ballVel.current.x *= -1; ballPos.current.x = Math.max(BUBBLE_RADIUS, Math.min(canvas.width - BUBBLE_RADIUS, ballPos.current.x)); playSound('bounce'); }
-                 if (ballPos.current.y < BUBBLE_RADIUS) { collision = true; break; }
-                 for (const b of bubbles.current) {
-                     if (!b.active || b.isFloating) continue;
-                     if (Math.sqrt((ballPos.current.x-b.x)**2 + (ballPos.current.y-b.y)**2) < BUBBLE_RADIUS*1.8) { collision = true; break; }
-                 }
-                 if (collision) break;
-             }
-             ballVel.current.x *= FRICTION; ballVel.current.y *= FRICTION;
-             if (collision) {
-                 playSound('hit');
-                 isFlying.current = false;
-                 // Snap logic
-                 let bestDist=Infinity, bestRow=0, bestCol=0, bestX=0, bestY=0;
-                 for (let r=0; r<GRID_ROWS+10; r++) {
-                     const cols = r%2!==0 ? gridColsRef.current - 1 : gridColsRef.current;
-                     for (let c=0; c<cols; c++) {
-                         const {x,y} = getBubblePos(r,c,canvas.width);
-                         if (bubbles.current.some(b=>b.active && !b.isFloating && b.row===r && b.col===c)) continue;
-                         const dist = Math.sqrt((ballPos.current.x-x)**2 + (ballPos.current.y-y)**2);
-                         if(dist < bestDist) { bestDist=dist; bestRow=r; bestCol=c; bestX=x; bestY=y; }
-                     }
-                 }
-                 const newB = { id: `${bestRow}-${bestCol}-${Date.now()}`, row: bestRow, col: bestCol, x: bestX, y: bestY, color: currentAmmoRef.current, active: true };
-                 bubbles.current.push(newB);
-                 checkMatches(newB);
-                 if (newB.y > canvas.height - SLINGSHOT_BOTTOM_OFFSET - 80) setGameOver(true);
-                 // Cycle Ammo
-                 const activeColors = new Set<BubbleColor>(); bubbles.current.forEach(b=>{if(b.active&&!b.isFloating)activeColors.add(b.color)});
-                 const avail = Array.from(activeColors);
-                 setCurrentAmmo(nextAmmoRef.current);
-                 setNextAmmo(avail.length>0 ? avail[Math.floor(Math.random()*avail.length)] : 'red');
-                 ballPos.current = { ...anchorPos.current }; ballVel.current = { x: 0, y: 0 };
-             } else if (ballPos.current.y > canvas.height) {
-                 isFlying.current = false; ballPos.current = { ...anchorPos.current }; ballVel.current = { x: 0, y: 0 };
-             }
-         }
-      }
+      // A free ball is drawn between its last two physics positions so motion stays smooth at any refresh rate
+      const ball = slingshot.getSource() !== null
+          ? ballPos.current
+          : { x: prevBallPos.current.x + (ballPos.current.x - prevBallPos.current.x) * alpha, y: prevBallPos.current.y + (ballPos.current.y - prevBallPos.current.y) * alpha };
 
       // --- Draw Scene ---
 
       // Bubbles
-      bubbles.current.forEach(b => {
-          if (!b.active && b.popTime) { // Pop Animation
-              const age = now - b.popTime;
-              const progress = age / POP_DURATION;
+      const game = gameRef.current;
+      const grid = game ? getBoardGrid(game) : null;
+      // Ceiling drop: ease every bubble from its old cell, the new top row slides in from above
+      const descent = descentRef.current && now - descentRef.current.start < DESCENT_DURATION ? descentRef.current : null;
+      const board = !descent ? game?.bubbles || [] : game!.bubbles.map(b => {
+          const t = (now - descent.start) / DESCENT_DURATION;
+          const ease = 1 - Math.pow(1 - t, 3);
+          const from = descent.from.get(b.id) || { x: b.x, y: b.y - ROW_HEIGHT };
+          return { ...b, x: from.x + (b.x - from.x) * ease, y: from.y + (b.y - from.y) * ease };
+      });
+      // Danger: the board trembles harder the closer it gets to the line
+      const danger = game && !game.gameOver ? getDangerProximity(game) : 0;
+      const pendingIds = new Set(pendingMatchesRef.current.map(pm => pm.id));
+      const hintIds = new Set(potentialMatchesRef.current);
+      effectBubbles.current.forEach(b => {
+          if (b.popTime) { // Pop Animation
+              const progress = (now - b.popTime) / POP_DURATION;
               if (progress < 1) {
                   ctx.save();
                   ctx.globalAlpha = 1 - progress;
                   ctx.translate(b.x, b.y);
                   ctx.scale(1 + progress * 0.5, 1 + progress * 0.5); // Expand then fade
-                  drawBubble(ctx, 0, 0, BUBBLE_RADIUS, b.color, false, false);
+                  drawBubble(ctx, 0, 0, BUBBLE_RADIUS, b.color, false, false, b.kind, false, b.letter);
                   ctx.restore();
               }
               return;
           }
-          if (!b.active) return;
-          const isPending = pendingMatchesRef.current.some(pm => pm.id === b.id);
-          const isHint = potentialMatchesRef.current.includes(b.id);
-          if (b.isFloating) ctx.globalAlpha = 0.8;
-          drawBubble(ctx, b.x, b.y, BUBBLE_RADIUS - 1, b.color, isPending, isHint);
+          ctx.globalAlpha = 0.8;
+          drawBubble(ctx, b.x, b.y, BUBBLE_RADIUS - 1, b.color, false, false, b.kind, b.cracked, b.letter);
           ctx.globalAlpha = 1.0;
       });
+      ctx.save();
+      if (danger > 0) ctx.translate((Math.random() - 0.5) * danger * 6, (Math.random() - 0.5) * danger * 4);
+      board.forEach(b => {
+          drawBubble(ctx, b.x, b.y, BUBBLE_RADIUS - 1, b.color, pendingIds.has(b.id), hintIds.has(b.id), b.kind, b.cracked, b.letter);
+      });
+      ctx.restore();
 
       // Connections
-      if (potentialMatchesRef.current.length > 0) {
+      if (grid && hintIds.size > 0 && !descent) {
           ctx.save();
           ctx.lineWidth = 4;
           ctx.lineCap = 'round';
           const pulse = (Math.sin(now / 150) + 1) / 2;
           ctx.strokeStyle = `rgba(255, 255, 255, ${0.4 + pulse * 0.4})`;
-          const matchBubbles = bubbles.current.filter(b => potentialMatchesRef.current.includes(b.id));
           ctx.beginPath();
-          for (let i=0; i<matchBubbles.length; i++) {
-              for (let j=i+1; j<matchBubbles.length; j++) {
-                  if (isNeighbor(matchBubbles[i], matchBubbles[j])) { ctx.moveTo(matchBubbles[i].x, matchBubbles[i].y); ctx.lineTo(matchBubbles[j].x, matchBubbles[j].y); }
-              }
-          }
+          board.forEach(b => {
+              if (!hintIds.has(b.id)) return;
+              getNeighbors(grid, b).forEach(n => {
+                  // Each link once: only towards neighbors later in row/col order
+                  if (hintIds.has(n.id) && (n.row > b.row || (n.row === b.row && n.col > b.col))) { ctx.moveTo(b.x, b.y); ctx.lineTo(n.x, n.y); }
+              });
+          });
           ctx.stroke();
           ctx.restore();
       }
 
       // Danger Line
-      const dangerY = canvas.height - SLINGSHOT_BOTTOM_OFFSET - 80;
+      const dangerY = getDangerY(canvas.height);
       ctx.beginPath(); ctx.moveTo(0, dangerY); ctx.lineTo(canvas.width, dangerY);
-      ctx.strokeStyle = 'rgba(239, 68, 68, 0.4)'; ctx.setLineDash([8, 8]); ctx.lineWidth = 2; ctx.stroke(); ctx.setLineDash([]);
+      ctx.strokeStyle = `rgba(239, 68, 68, ${0.4 + danger * 0.5 * (Math.sin(now / 100) + 1) / 2})`; ctx.setLineDash([8, 8]); ctx.lineWidth = 2 + danger * 2; ctx.stroke(); ctx.setLineDash([]);
+
+      // Next Drop: bar along the top edge that shrinks towards the center, red for the last seconds
+      const dropIn = game && userProfile && !game.gameOver ? getNextDropIn(game) : null;
+      if (dropIn !== null) {
+          const barWidth = canvas.width * (dropIn / getDropInterval(game!));
+          ctx.fillStyle = dropIn < 5000 ? `rgba(248, 113, 113, ${0.6 + 0.4 * (Math.sin(now / 120) + 1) / 2})` : 'rgba(56, 189, 248, 0.7)';
+          ctx.fillRect((canvas.width - barWidth) / 2, 0, barWidth, 6);
+      }
+
+      // Hands-free quiz: the answers over the dimmed board, the one under the hand cursor lit up
+      const answers = answerBoard.current;
+      if (answers) {
+          ctx.save();
+          ctx.fillStyle = 'rgba(15, 23, 42, 0.6)';
+          ctx.fillRect(0, 0, canvas.width, canvas.height);
+          const drag = tileDrag.current;
+          const hovered = hand && !drag ? findAnswerTarget(answers, hand.pos) : null;
+          // Canvas is mirrored by CSS: flip each label back so it reads left to right
+          const drawLabel = (text: string, x: number, y: number, maxWidth: number, size: number) => {
+              ctx.save();
+              ctx.translate(x, y);
+              ctx.scale(-1, 1);
+              ctx.font = `600 ${Math.round(size)}px Outfit`;
+              ctx.fillStyle = '#f1f5f9';
+              ctx.textAlign = 'center';
+              ctx.textBaseline = 'middle';
+              ctx.fillText(text, 0, 0, maxWidth);
+              ctx.restore();
+          };
+          ctx.lineWidth = 3;
+          if (answers.kind === 'choice') {
+              answers.targets.forEach((t, i) => {
+                  ctx.beginPath();
+                  ctx.arc(t.x, t.y, t.radius, 0, Math.PI * 2);
+                  ctx.fillStyle = i === hovered ? 'rgba(14, 165, 233, 0.45)' : 'rgba(30, 41, 59, 0.9)';
+                  ctx.fill();
+                  ctx.strokeStyle = i === hovered ? '#38bdf8' : 'rgba(255, 255, 255, 0.25)';
+                  ctx.stroke();
+                  drawLabel(t.text, t.x, t.y, t.radius * 1.7, Math.min(22, t.radius * 0.4));
+              });
+          } else {
+              // Drop zone for the answer row
+              const rowY = canvas.height * ANSWER_ROW;
+              ctx.strokeStyle = 'rgba(56, 189, 248, 0.35)';
+              ctx.setLineDash([8, 8]);
+              ctx.beginPath();
+              ctx.roundRect(canvas.width * 0.04, rowY - 34, canvas.width * 0.92, 68, 16);
+              ctx.stroke();
+              ctx.setLineDash([]);
+              const drawTile = (i: number, x: number, y: number) => {
+                  const t = answers.tiles[i];
+                  ctx.beginPath();
+                  ctx.roundRect(x - t.width / 2, y - t.height / 2, t.width, t.height, 12);
+                  ctx.fillStyle = answers.placed.includes(i) ? 'rgba(5, 150, 105, 0.85)' : 'rgba(30, 41, 59, 0.95)';
+                  ctx.fill();
+                  ctx.strokeStyle = i === hovered || i === drag?.index ? '#38bdf8' : 'rgba(255, 255, 255, 0.25)';
+                  ctx.stroke();
+                  drawLabel(t.text, x, y, t.width - 12, t.height * 0.42);
+              };
+              answers.tiles.forEach((t, i) => { if (i !== drag?.index) drawTile(i, t.x, t.y); });
+              if (drag) drawTile(drag.index, drag.pos.x, drag.pos.y);
+          }
+          // The hand cursor went under the dimming; outline it again on top
+          if (hand) {
+              ctx.beginPath();
+              ctx.arc(hand.pos.x, hand.pos.y, 20, 0, Math.PI * 2);
+              ctx.strokeStyle = hand.pinching ? '#4ade80' : 'rgba(56, 189, 248, 0.9)';
+              ctx.stroke();
+          }
+          ctx.restore();
+      }
+
+      // Suggested Aim: ghost pouch where to pull to, dotted arc, and the cell it settles in
+      const aimHint = aimHintRef.current;
+      if (aimHint && userProfile && !isFlying() && !isQuizActiveRef.current) {
+          const pulse = (Math.sin(now / 300) + 1) / 2;
+          ctx.save();
+          ctx.fillStyle = `rgba(250, 204, 21, ${0.3 + pulse * 0.3})`;
+          aimHint.path.forEach((pt, i) => {
+              if (i % 3 !== 0) return;
+              ctx.beginPath(); ctx.arc(pt.x, pt.y, 3, 0, Math.PI * 2); ctx.fill();
+          });
+          const start = aimHint.path[0];
+          const target = aimHint.path[aimHint.path.length - 1];
+          ctx.strokeStyle = `rgba(250, 204, 21, ${0.4 + pulse * 0.4})`;
+          ctx.lineWidth = 2;
+          ctx.setLineDash([4, 4]);
+          ctx.beginPath(); ctx.arc(start.x, start.y, BUBBLE_RADIUS, 0, Math.PI * 2); ctx.stroke();
+          ctx.beginPath(); ctx.arc(target.x, target.y, BUBBLE_RADIUS - 1, 0, Math.PI * 2); ctx.stroke();
+          ctx.setLineDash([]);
+          ctx.restore();
+      }
 
       // Trajectory
-      if (isPinching.current && !isFlying.current && userProfile) {
-          const dx = anchorPos.current.x - ballPos.current.x; const dy = anchorPos.current.y - ballPos.current.y;
-          const dist = Math.sqrt(dx*dx+dy*dy);
-          if (dist > 10) {
-              const power = Math.min(dist/MAX_DRAG_DIST, 1.0); const mult = MIN_FORCE_MULT + (MAX_FORCE_MULT-MIN_FORCE_MULT)*(power*power);
-              let sx = anchorPos.current.x, sy = anchorPos.current.y, svx = dx*mult, svy = dy*mult;
-              ctx.beginPath(); ctx.moveTo(sx, sy);
-              for(let i=0; i<300; i++) {
-                  svy += GRAVITY; sx += svx; sy += svy;
-                  if (sx < BUBBLE_RADIUS || sx > canvas.width-BUBBLE_RADIUS) svx *= -1;
-                  if (i%5===0) ctx.lineTo(sx, sy);
-                  // Quick hit check
-                  if (sy < BUBBLE_RADIUS || bubbles.current.some(b=>b.active && !b.isFloating && Math.sqrt((sx-b.x)**2+(sy-b.y)**2) < BUBBLE_RADIUS*1.8)) break;
-              }
-              ctx.strokeStyle = 'rgba(56, 189, 248, 0.4)'; ctx.setLineDash([6, 6]); ctx.lineWidth = 3; ctx.stroke(); ctx.setLineDash([]);
+      const aimVelocity = slingshot.getSource() !== null && !isFlying() && userProfile
+          ? launchVelocity(anchorPos.current.x - ballPos.current.x, anchorPos.current.y - ballPos.current.y)
+          : null;
+      if (aimVelocity) {
+          let sx = anchorPos.current.x, sy = anchorPos.current.y, svx = aimVelocity.vx, svy = aimVelocity.vy;
+          ctx.beginPath(); ctx.moveTo(sx, sy);
+          for(let i=0; i<300; i++) {
+              svy += GRAVITY; sx += svx; sy += svy;
+              if (sx < BUBBLE_RADIUS || sx > canvas.width-BUBBLE_RADIUS) svx *= -1;
+              if (i%5===0) ctx.lineTo(sx, sy);
+              // Quick hit check
+              if (sy < BUBBLE_RADIUS || (answers ? findAnswerTarget(answers, { x: sx, y: sy }) !== null : grid && hasBubbleWithin(grid, { x: sx, y: sy }, COLLISION_DIST))) break;
           }
+          ctx.strokeStyle = 'rgba(56, 189, 248, 0.4)'; ctx.setLineDash([6, 6]); ctx.lineWidth = 3; ctx.stroke(); ctx.setLineDash([]);
       }
 
       // --- ORIGINAL VECTOR SLINGSHOT ---
@@ -1034,16 +1526,16 @@ const GeminiSlingshot: React.FC = () => {
       ctx.restore();
 
       // Slingshot Bands (Elastics)
-      const bandColor = isPinching.current ? '#fcd34d' : 'rgba(252, 211, 77, 0.4)';
+      const bandColor = slingshot.getSource() !== null ? '#fcd34d' : 'rgba(252, 211, 77, 0.4)';
       const leftTip = { x: anchorPos.current.x - forkSpread/2 + 5, y: anchorPos.current.y + 5 };
       const rightTip = { x: anchorPos.current.x + forkSpread/2 - 5, y: anchorPos.current.y + 5 };
       
-      if (!isFlying.current) {
+      if (!isFlying()) {
           ctx.save();
           ctx.beginPath();
           // Back Band
           ctx.moveTo(leftTip.x, leftTip.y);
-          ctx.lineTo(ballPos.current.x - 10, ballPos.current.y);
+          ctx.lineTo(ball.x - 10, ball.y);
           ctx.lineWidth = 8;
           ctx.strokeStyle = '#92400e'; // Darker part of band (shadow)
           ctx.lineCap = 'round';
@@ -1052,14 +1544,14 @@ const GeminiSlingshot: React.FC = () => {
           // Front Band
           ctx.beginPath();
           ctx.moveTo(rightTip.x, rightTip.y);
-          ctx.lineTo(ballPos.current.x + 10, ballPos.current.y);
+          ctx.lineTo(ball.x + 10, ball.y);
           ctx.strokeStyle = bandColor;
           ctx.lineWidth = 8;
           ctx.stroke();
           
           // Leather Pouch
           ctx.beginPath();
-          ctx.ellipse(ballPos.current.x, ballPos.current.y, 20, 24, 0, 0, Math.PI * 2);
+          ctx.ellipse(ball.x, ball.y, 20, 24, 0, 0, Math.PI * 2);
           ctx.fillStyle = '#573625';
           ctx.fill();
           ctx.restore();
@@ -1067,28 +1559,64 @@ const GeminiSlingshot: React.FC = () => {
 
       // Draw Ball on top of back band/pouch but behind front band logic if needed (simplified here)
       if (userProfile && !gameOverRef.current) {
-          drawBubble(ctx, ballPos.current.x, ballPos.current.y, BUBBLE_RADIUS, currentAmmoRef.current);
+          drawBubble(ctx, ball.x, ball.y, BUBBLE_RADIUS, gameRef.current?.currentAmmo || currentAmmo);
       }
 
       // Redraw Left band on top if needed for depth
-      if (!isFlying.current) {
+      if (!isFlying()) {
          ctx.save();
          // Connect left band to ball
          ctx.beginPath();
          ctx.moveTo(leftTip.x, leftTip.y);
-         ctx.lineTo(ballPos.current.x, ballPos.current.y);
+         ctx.lineTo(ball.x, ball.y);
          ctx.strokeStyle = bandColor;
          ctx.lineWidth = 7;
          ctx.stroke();
          ctx.restore();
       }
 
+      // Co-pilot Callout: ring on the advised cell plus the rationale
+      const callout = copilotRef.current;
+      if (callout && game && callout.board === game.bubbles && !isFlying() && !isQuizActiveRef.current) {
+          const { advice } = callout;
+          const target = getBubblePos(advice.target.row, advice.target.col, game.width, game.cols);
+          const pulse = (Math.sin(now / 250) + 1) / 2;
+          ctx.save();
+          ctx.beginPath();
+          ctx.arc(target.x, target.y, BUBBLE_RADIUS + 4 + pulse * 4, 0, Math.PI * 2);
+          ctx.strokeStyle = COLOR_CONFIG[game.currentAmmo].hex;
+          ctx.lineWidth = 3;
+          ctx.stroke();
+
+          ctx.font = "600 15px Outfit";
+          const label = `${advice.source === 'gemini' ? 'Gemini' : 'Co-pilot'}: ${advice.rationale}`;
+          const boxW = Math.min(ctx.measureText(label).width + 24, canvas.width - 20);
+          const boxH = 34;
+          const boxX = Math.max(10, Math.min(canvas.width - boxW - 10, target.x - boxW / 2));
+          const boxY = target.y + BUBBLE_RADIUS + 14;
+          ctx.beginPath();
+          ctx.moveTo(target.x, target.y + BUBBLE_RADIUS + 4);
+          ctx.lineTo(target.x, boxY);
+          ctx.stroke();
+          ctx.fillStyle = 'rgba(15, 23, 42, 0.9)';
+          ctx.beginPath();
+          ctx.roundRect(boxX, boxY, boxW, boxH, 12);
+          ctx.fill();
+          ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+          ctx.lineWidth = 1;
+          ctx.stroke();
+          // Canvas is mirrored by CSS: flip the text back so it reads left to right
+          ctx.translate(boxX + boxW / 2, boxY + boxH / 2);
+          ctx.scale(-1, 1);
+          ctx.fillStyle = '#e2e8f0';
+          ctx.textAlign = 'center';
+          ctx.textBaseline = 'middle';
+          ctx.fillText(label, 0, 0, boxW - 24);
+          ctx.restore();
+      }
+
       // Particles (Sparkles)
-      for (let i = particles.current.length - 1; i >= 0; i--) {
-          const p = particles.current[i];
-          p.x += p.vx; p.y += p.vy; p.life -= 0.04;
-          if (p.life <= 0) particles.current.splice(i, 1);
-          else {
+      particles.current.forEach(p => {
               ctx.save();
               ctx.globalAlpha = p.life;
               ctx.translate(p.x, p.y);
@@ -1101,16 +1629,10 @@ const GeminiSlingshot: React.FC = () => {
               ctx.fillStyle = p.color;
               ctx.fill();
               ctx.restore();
-          }
-      }
+      });
 
       // Floating Texts
-      for (let i = floatingTexts.current.length - 1; i >= 0; i--) {
-          const ft = floatingTexts.current[i];
-          ft.y += ft.vy;
-          ft.life -= 0.02;
-          if (ft.life <= 0) floatingTexts.current.splice(i, 1);
-          else {
+      floatingTexts.current.forEach(ft => {
               ctx.save();
               ctx.globalAlpha = ft.life;
               ctx.font = "bold 24px Outfit";
@@ -1121,23 +1643,115 @@ const GeminiSlingshot: React.FC = () => {
               ctx.strokeText(ft.text, ft.x, ft.y);
               ctx.fillText(ft.text, ft.x, ft.y);
               ctx.restore();
-          }
-      }
+      });
       
       ctx.restore();
     };
 
-    if (window.Hands) {
-      hands = new window.Hands({ locateFile: (file: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}` });
-      hands.setOptions({ maxNumHands: 1, modelComplexity: 1, minDetectionConfidence: 0.5, minTrackingConfidence: 0.5 });
-      hands.onResults(onResults);
-      if (window.Camera) {
-        camera = new window.Camera(video, { onFrame: async () => { if (videoRef.current && hands) await hands.send({ image: videoRef.current }); }, width: 1280, height: 720 });
-        camera.start();
+    // Gestures run even while paused or after game over, where they resume and restart
+    let shownGesture: GestureProgress | null = null;
+    const processGestures = (results: any) => {
+      const commands = gestureCommands.current;
+      // No gestures while a hand is aiming or carrying a word tile, or while another screen borrows the camera
+      const landmarks = !handFeed.current && slingshot.getSource() !== 'hand' && !tileDrag.current ? pickHand(results, calibration.handedness) : null;
+      const enabled = { openPalm: !!commands.openPalm, fist: !!commands.fist, thumbsUp: !!commands.thumbsUp, swipe: !!commands.swipe };
+      const { active, fired } = gestures.update(landmarks, enabled, performance.now());
+      // Re-render only when the ring visibly changes
+      if (active?.gesture !== shownGesture?.gesture || Math.abs((active?.progress || 0) - (shownGesture?.progress || 0)) >= 0.05) {
+          shownGesture = active;
+          setActiveGesture(active);
+      }
+      if (fired) commands[fired]?.();
+    };
+
+    const loop = () => {
+      frameId = requestAnimationFrame(loop);
+      const now = performance.now();
+      const elapsed = now - lastFrameTime.current;
+      lastFrameTime.current = now;
+
+      const results = latestResults.current;
+      const freshResults = results && results !== processedResults;
+      if (freshResults) {
+          processedResults = results;
+          processGestures(results);
+      }
+      if (isPausedRef.current || gameOverRef.current) { accumulator = 0; return; }
+
+      if (canvas.width !== container.clientWidth || canvas.height !== container.clientHeight) {
+        canvas.width = container.clientWidth;
+        canvas.height = container.clientHeight;
+        anchorPos.current = getAnchor(canvas.width, canvas.height);
+        runEngine({ type: 'resize', width: canvas.width, height: canvas.height });
+        if (answerBoard.current) answerBoard.current = layoutAnswerBoard(answerBoard.current, canvas.width, canvas.height);
+        if (!isFlying() && slingshot.getSource() === null) ballPos.current = { ...anchorPos.current };
       }
+
+      if (freshResults) processHands(results);
+
+      accumulator = Math.min(accumulator + elapsed, PHYSICS_STEP_MS * MAX_STEPS_PER_FRAME);
+      while (accumulator >= PHYSICS_STEP_MS) {
+          fixedUpdate();
+          accumulator -= PHYSICS_STEP_MS;
+      }
+      if (userProfile) updateShotHints();
+
+      render(now, accumulator / PHYSICS_STEP_MS);
+    };
+    frameId = requestAnimationFrame(loop);
+
+    // Webcam through MediaPipe, or a recording / script when the URL asks for one. Without a camera
+    // the mouse, touch and keyboard play on a plain background
+    const source = cameraOff ? null : createLandmarkSource(video, handFeed.current || wantsHandedness(userProfile) ? 2 : 1, cameraSettingsRef.current);
+    handSource.current = source;
+    if (source) {
+        // A failed camera switches to playing without one, which re-runs this effect
+        source.start(onResults, problem => {
+            console.warn("Playing without camera:", problem);
+            setCameraProblem(problem);
+            setCameraOff(true);
+        });
+    } else {
+        latestResults.current = null;
+        trackedHand.current = null;
+        setLoading(false);
     }
-    return () => { if (camera) camera.stop(); if (hands) hands.close(); };
-  }, [initGrid, userProfile]);
+    return () => { cancelAnimationFrame(frameId); source?.stop(); handSource.current = null; };
+  }, [startGame, userProfile, cameraOff]);
+
+  // Gesture commands for whatever is on screen; rebuilt every render so the game loop never acts on stale state
+  const commands: Partial<Record<HandGesture, () => void>> = {};
+  if (userProfile) {
+      const playing = !gameOver && !gameWon && !isPaused && !quizData && !quizLoading && !showLeaderboard && !showClassroom;
+      if (playing && gestureSettings.openPalm) commands.openPalm = () => setIsPaused(true);
+      if (playing && gestureSettings.fist) commands.fist = swapAmmo;
+      // Thumbs up presses the main button of the overlay in front
+      if (gestureSettings.thumbsUp && !showLeaderboard && !showClassroom) {
+          if (quizData) {
+              if (!quizResult && quizAnswer.trim()) commands.thumbsUp = () => handleQuizSubmit();
+              else if (quizResult === 'incorrect') commands.thumbsUp = skipQuiz;
+          } else if (gameWon && activeLevel) {
+              if (nextLevel) commands.thumbsUp = () => playLevel(nextLevel);
+          } else if (gameWon && gameMode === 'classic' && !gameOver) {
+              commands.thumbsUp = () => { setGameWon(false); setIsPaused(false); };
+          } else if (gameOver) {
+              commands.thumbsUp = activeLevel ? () => playLevel(activeLevel, isTestPlay) : restartGame;
+          } else if (isPaused) {
+              commands.thumbsUp = () => setIsPaused(false);
+          }
+      }
+      if (gestureSettings.swipe) {
+          if (quizData) commands.swipe = skipQuiz;
+          else if (showLeaderboard) commands.swipe = () => { setShowLeaderboard(false); setIsPaused(false); if (gameOver) restartGame(); };
+          else if (isPaused && !gameWon) commands.swipe = () => setIsPaused(false);
+          else if (wordCard) commands.swipe = () => setWordCard(null);
+      }
+  }
+  gestureCommands.current = commands;
+
+  const handsFreeQuiz = !!quizData && !!getAnswerMode(quizData);
+  const rankedEntries = leaderboard.filter(e => (e.mode || 'classic') === leaderboardMode);
+  const classroomRank = classroom ? classroom.players.findIndex(p => p.id === classroom.playerId) : -1;
 
   // --- JSX UI (Dark Glassmorphism) ---
   return (
@@ -1150,19 +1764,24 @@ const GeminiSlingshot: React.FC = () => {
 
       <div ref={gameContainerRef} className="flex-1 relative h-full overflow-hidden">
         <video ref={videoRef} className="absolute hidden" playsInline />
-        {/* ADDED TOUCH HANDLERS TO CANVAS */}
+        {/* Mouse, pen and touch aiming (hands come from MediaPipe, keys from the window) */}
         <canvas 
             ref={canvasRef} 
             className="absolute inset-0 touch-none" 
-            onTouchStart={handleTouchStart}
-            onTouchMove={handleTouchMove}
-            onTouchEnd={handleTouchEnd}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerCancel}
         />
 
         {/* Loading */}
         {loading && (
-            <div className="absolute inset-0 flex items-center justify-center bg-slate-900/80 backdrop-blur-md z-50">
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 bg-slate-900/80 backdrop-blur-md z-50">
                 <Loader2 className="w-12 h-12 text-sky-400 animate-spin" />
+                <p className="text-slate-400 font-medium">Starting the camera...</p>
+                <button onClick={() => setCameraOff(true)} className="flex items-center gap-2 text-sm font-bold text-slate-500 hover:text-slate-300 transition-colors">
+                    <CameraOff className="w-4 h-4" /> Play without camera
+                </button>
             </div>
         )}
 
@@ -1185,7 +1804,7 @@ const GeminiSlingshot: React.FC = () => {
                                 type="text" 
                                 className="w-full bg-black/30 border-0 ring-1 ring-white/10 rounded-2xl py-3 px-5 text-white focus:ring-2 focus:ring-sky-500 outline-none transition-all placeholder:text-slate-600"
                                 value={formInput.name}
-                                onChange={(e) => setFormInput({...formInput, name: e.target.value})}
+                                onChange={(e) => setFormInput({...formInput, name: e.target.value, calibration: readCalibration(e.target.value) || undefined})}
                                 placeholder="Enter your name"
                             />
                         </div>
@@ -1216,6 +1835,23 @@ const GeminiSlingshot: React.FC = () => {
                             </div>
                         </div>
 
+                        <div>
+                            <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2 ml-1">Mode</label>
+                            <div className="grid grid-cols-4 gap-2">
+                                {(Object.keys(MODE_CONFIG) as GameMode[]).map(mode => (
+                                    <button
+                                        key={mode}
+                                        onClick={() => setFormInput({...formInput, mode})}
+                                        title={MODE_CONFIG[mode].description}
+                                        className={`py-2 rounded-xl text-xs font-bold transition-all ${(formInput.mode || 'classic') === mode ? 'bg-sky-600 text-white shadow-lg shadow-sky-900/50' : 'bg-black/30 text-slate-400 ring-1 ring-white/10 hover:text-white'}`}
+                                    >
+                                        {MODE_CONFIG[mode].label}
+                                    </button>
+                                ))}
+                            </div>
+                            <p className="text-[11px] text-slate-500 mt-1.5 ml-1">{MODE_CONFIG[formInput.mode || 'classic'].description}</p>
+                        </div>
+
                         <div>
                             <div className="flex justify-between items-end mb-2">
                                 <label className="block text-xs font-bold text-sky-400 uppercase tracking-wider ml-1">What do you want to learn?</label>
@@ -1279,12 +1915,83 @@ const GeminiSlingshot: React.FC = () => {
                             )}
                         </div>
 
+                        <label className="flex items-center gap-3 bg-black/20 rounded-2xl px-4 py-3 ring-1 ring-white/10 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                className="w-4 h-4 accent-amber-400"
+                                checked={!!formInput.letterMode}
+                                onChange={(e) => setFormInput({...formInput, letterMode: e.target.checked})}
+                            />
+                            <TypeIcon className="w-4 h-4 text-amber-300" />
+                            <span className="text-sm text-slate-300">Letter Bubbles <span className="text-slate-500 text-xs">- pop letters to spell topic words</span></span>
+                        </label>
+
+                        {cameraProblem && (
+                            <div className="flex items-start gap-3 bg-amber-500/10 border border-amber-500/30 text-amber-200 rounded-2xl px-4 py-3 text-sm">
+                                <CameraOff className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                                <span>{CAMERA_PROBLEMS[cameraProblem]} <span className="text-amber-200/60">You can play with the mouse or touch instead.</span></span>
+                            </div>
+                        )}
+
+                        <button
+                            onClick={() => { setCameraProblem(null); setLoading(cameraOff); setCameraOff(!cameraOff); }}
+                            className="w-full flex items-center gap-3 bg-black/20 rounded-2xl px-4 py-3 ring-1 ring-white/10 transition-all hover:bg-white/5 text-left"
+                        >
+                            {cameraOff ? <CameraIcon className="w-4 h-4 text-sky-300" /> : <CameraOff className="w-4 h-4 text-slate-400" />}
+                            <span className="flex-1 text-sm text-slate-300">
+                                {cameraOff ? 'Use the camera' : 'Play without camera'} <span className="text-slate-500 text-xs">- {cameraOff ? 'aim by pinching in front of the webcam' : 'aim with the mouse, touch or arrow keys'}</span>
+                            </span>
+                        </button>
+
+                        {!cameraOff && (
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2 ml-1">Camera</label>
+                                <CameraControls settings={cameraSettings} cameras={cameras} onChange={changeCameraSettings} />
+                            </div>
+                        )}
+
+                        <button
+                            onClick={() => setShowCalibration(true)}
+                            disabled={!formInput.name || cameraOff}
+                            title="Pinch and reach a few times so the game fits your hand and camera"
+                            className="w-full flex items-center gap-3 bg-black/20 rounded-2xl px-4 py-3 ring-1 ring-white/10 transition-all hover:bg-white/5 text-left disabled:opacity-50"
+                        >
+                            <Hand className="w-4 h-4 text-sky-300" />
+                            <span className="flex-1 text-sm text-slate-300">
+                                Calibrate hand tracking <span className="text-slate-500 text-xs">- {formInput.calibration ? `saved ${new Date(formInput.calibration.calibratedAt).toLocaleDateString()}` : 'for small hands or a distant camera'}</span>
+                            </span>
+                            {formInput.calibration && <CheckCircle2 className="w-4 h-4 text-emerald-400" />}
+                        </button>
+
+                        <div>
+                            <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2 ml-1">Hand Gestures</label>
+                            <GestureToggles settings={gestureSettings} onChange={changeGestureSettings} />
+                        </div>
+
+                        {savedGame && (
+                            <button 
+                                onClick={resumeSavedGame}
+                                className="w-full mt-6 bg-amber-500/10 border border-amber-500/30 text-amber-200 rounded-2xl px-4 py-3 transition-all hover:bg-amber-500/20 flex items-center gap-3 text-left"
+                            >
+                                <RotateCcw className="w-5 h-5 flex-shrink-0" />
+                                <span className="flex-1">
+                                    <span className="block font-bold">Resume previous game</span>
+                                    <span className="block text-xs text-amber-200/60">
+                                        {savedGame.profile.name} · {savedGame.game.level ? savedGame.game.level.name : `${MODE_CONFIG[savedGame.game.mode].label} · ${savedGame.game.difficulty}`} · {savedGame.game.score.toLocaleString()} pts · {new Date(savedGame.savedAt).toLocaleString()}
+                                    </span>
+                                </span>
+                            </button>
+                        )}
                         <button 
                             onClick={() => {
                                 if(formInput.name && formInput.className && (formInput.topic || (formInput.customQuestions?.length || 0) > 0)) {
                                     audioCtx.resume();
+                                    levelRef.current = null;
+                                    testPlayRef.current = false;
+                                    setIsTestPlay(false);
+                                    setActiveLevel(null);
                                     setUserProfile(formInput);
-                                    initGrid(canvasRef.current?.width || 1280, formInput.difficulty);
+                                    startGame(formInput.difficulty, formInput.mode);
                                 }
                             }}
                             disabled={!formInput.name || !formInput.className || (!formInput.topic && (formInput.customQuestions?.length || 0) === 0)}
@@ -1292,6 +1999,28 @@ const GeminiSlingshot: React.FC = () => {
                         >
                             Start Mission
                         </button>
+                        <button 
+                            onClick={() => setShowCampaign(true)}
+                            disabled={!formInput.name || !formInput.className}
+                            className="w-full bg-emerald-900/30 border border-emerald-500/30 text-emerald-300 font-bold py-3 rounded-2xl transition-all hover:bg-emerald-900/50 flex items-center justify-center gap-2 disabled:opacity-50"
+                        >
+                            <MapIcon className="w-5 h-5" /> Campaign
+                        </button>
+                        <button 
+                            onClick={() => { audioCtx.resume(); setShowVersus(true); }}
+                            disabled={cameraOff || (!formInput.topic && (formInput.customQuestions?.length || 0) === 0)}
+                            title="Two players, one camera: each pinches with one hand"
+                            className="w-full bg-amber-900/30 border border-amber-500/30 text-amber-300 font-bold py-3 rounded-2xl transition-all hover:bg-amber-900/50 flex items-center justify-center gap-2 disabled:opacity-50"
+                        >
+                            <Swords className="w-5 h-5" /> Versus
+                        </button>
+                        <button 
+                            onClick={() => setShowClassroom(true)}
+                            title="Play one synchronized round with the whole class"
+                            className="w-full bg-violet-900/30 border border-violet-500/30 text-violet-300 font-bold py-3 rounded-2xl transition-all hover:bg-violet-900/50 flex items-center justify-center gap-2"
+                        >
+                            <Users className="w-5 h-5" /> Classroom
+                        </button>
                     </div>
                 </div>
             </div>
@@ -1405,7 +2134,7 @@ const GeminiSlingshot: React.FC = () => {
         )}
 
         {/* QUIZ OVERLAY - Dark Luxurious Pop-up */}
-        {(quizLoading || quizData) && (
+        {(quizLoading || (quizData && !handsFreeQuiz)) && (
             <div className="absolute inset-0 z-[90] bg-black/50 backdrop-blur-md flex items-center justify-center p-4">
                 <div className="bg-slate-900/90 backdrop-blur-xl w-full max-w-lg rounded-[2.5rem] border border-white/10 shadow-2xl overflow-hidden animate-in zoom-in duration-300">
                     <div className="bg-white/5 p-8 border-b border-white/5 flex items-center gap-5">
@@ -1414,7 +2143,7 @@ const GeminiSlingshot: React.FC = () => {
                         </div>
                         <div>
                             <h2 className="text-2xl font-bold text-white">English Challenge</h2>
-                            <p className="text-sky-400 font-medium">Solve to pop the cluster!</p>
+                            <p className="text-sky-400 font-medium">{pendingMatches.length > 0 ? 'Solve to pop the cluster!' : 'Quiz Rush: every shot counts!'}</p>
                         </div>
                     </div>
 
@@ -1477,6 +2206,50 @@ const GeminiSlingshot: React.FC = () => {
             </div>
         )}
 
+        {/* HANDS-FREE QUIZ - the answers are on the canvas; this card only asks, and keeps typing as a fallback */}
+        {quizData && handsFreeQuiz && (
+            <div className="absolute top-4 inset-x-0 z-[90] flex justify-center px-4 pointer-events-none">
+                <div className="pointer-events-auto bg-slate-900/90 backdrop-blur-xl w-full max-w-xl rounded-3xl border border-white/10 shadow-2xl p-4 space-y-3 animate-in slide-in-from-top-4 duration-300">
+                    <div className="flex items-start gap-3">
+                        <BrainCircuit className="w-6 h-6 text-sky-400 shrink-0 mt-1" />
+                        <div className="flex-1">
+                            <p className="text-lg text-slate-100 font-medium leading-snug">{quizData.question}</p>
+                            <p className="text-xs text-sky-400 font-bold mt-1">
+                                {quizData.type === 'rearrange' ? 'Drag the words into order, or shoot them one by one' : 'Shoot or pinch your answer'}
+                                {quizData.type === 'custom' && <span className="ml-2 text-[10px] bg-amber-500/20 text-amber-300 px-2 py-0.5 rounded border border-amber-500/20 uppercase tracking-widest">Teacher's Question</span>}
+                            </p>
+                        </div>
+                    </div>
+
+                    {!quizResult ? (
+                        <form onSubmit={handleQuizSubmit} className="flex gap-2">
+                            <input
+                                type="text"
+                                value={quizAnswer}
+                                onChange={(e) => setQuizAnswer(e.target.value)}
+                                className="flex-1 bg-black/20 border-0 ring-1 ring-white/20 rounded-xl py-2 px-4 text-white focus:ring-2 focus:ring-sky-500 outline-none transition-all placeholder:text-slate-600"
+                                placeholder="...or type it"
+                            />
+                            <button type="submit" className="bg-sky-600 hover:bg-sky-500 text-white font-bold px-4 rounded-xl transition-transform active:scale-95">Submit</button>
+                        </form>
+                    ) : (
+                        <div className={`p-3 rounded-xl flex items-center gap-3 animate-in fade-in ${quizResult === 'correct' ? 'bg-green-900/30 border border-green-500/30 text-green-300' : 'bg-red-900/30 border border-red-500/30 text-red-300'}`}>
+                            {quizResult === 'correct' ? <CheckCircle2 className="w-6 h-6 shrink-0" /> : <XCircle className="w-6 h-6 shrink-0" />}
+                            <div className="text-sm">
+                                <span className="font-bold">{quizResult === 'correct' ? 'Brilliant!' : 'Not quite.'}</span>
+                                {quizResult === 'incorrect' && <span className="ml-2 text-slate-300">Answer: <b>{quizData.answer}</b></span>}
+                                {quizData.explanation && <p className="text-xs mt-1 text-slate-400 italic">{quizData.explanation}</p>}
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="flex justify-center">
+                        <button onClick={skipQuiz} className="text-slate-500 hover:text-slate-300 text-xs font-bold uppercase tracking-widest transition-colors">Skip Question</button>
+                    </div>
+                </div>
+            </div>
+        )}
+
         {/* HUD: Modern Dark Glass Pills */}
         {userProfile && (
             <>
@@ -1488,19 +2261,102 @@ const GeminiSlingshot: React.FC = () => {
                         <div>
                             <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">Score</p>
                             <p className="text-2xl font-bold text-white leading-none">{score.toLocaleString()}</p>
+                            {(streaks.chain > 1 || streaks.quiz > 1) && (
+                                <p className="text-[10px] font-bold uppercase tracking-wider mt-1 flex gap-2">
+                                    {streaks.chain > 1 && <span className="text-sky-300" title="Consecutive matching shots">Chain {streaks.chain}</span>}
+                                    {streaks.quiz > 1 && <span className="text-emerald-300" title="Consecutive correct answers">Streak {streaks.quiz}</span>}
+                                </p>
+                            )}
                         </div>
                     </div>
+
+                    {userProfile.letterMode && (
+                        <div className="bg-slate-900/60 backdrop-blur-md px-4 py-3 rounded-2xl border border-amber-500/20 shadow-lg" title="Pop the lettered bubbles to spell the word">
+                            <p className="text-[10px] text-amber-300 font-bold uppercase tracking-widest mb-1.5 flex items-center gap-1"><TypeIcon className="w-3 h-3" /> Spell</p>
+                            {wordTarget ? (
+                                <div className="flex gap-1">
+                                    {wordTarget.word.split('').map((ch, i) => (
+                                        <span key={i} className={`w-7 h-8 flex items-center justify-center rounded-md font-bold text-lg ${wordTarget.collected[i] ? 'bg-amber-400 text-slate-900' : 'bg-white/5 text-slate-500 ring-1 ring-white/10'}`}>{ch}</span>
+                                    ))}
+                                </div>
+                            ) : (
+                                <Loader2 className="w-5 h-5 text-amber-300 animate-spin" />
+                            )}
+                        </div>
+                    )}
                     
-                    {userProfile.difficulty !== 'Infinity' && (
+                    {activeLevel ? (
+                        <div className="bg-slate-900/60 backdrop-blur-md px-4 py-3 rounded-2xl border border-emerald-500/20 w-56 shadow-lg space-y-2">
+                             <p className="text-sm font-bold text-white truncate">{activeLevel.name}</p>
+                             <p className="text-[11px] text-emerald-300 flex items-center gap-1"><Target className="w-3 h-3" /> {describeGoal(activeLevel.goal)}</p>
+                             {activeLevel.goal.type !== 'clear' && (
+                                <div className="h-1.5 w-full bg-white/10 rounded-full overflow-hidden">
+                                    <div className="h-full bg-gradient-to-r from-emerald-400 to-sky-500 transition-all duration-700" style={{ width: `${Math.min(100, (score / activeLevel.goal.score) * 100)}%` }} />
+                                </div>
+                             )}
+                             {shotsLeft !== null && <p className="text-[11px] text-slate-400">Shots left: <span className="font-bold text-white">{shotsLeft}</span></p>}
+                        </div>
+                    ) : gameMode === 'timeAttack' ? (
+                        <div className={`bg-slate-900/60 backdrop-blur-md px-4 py-2 rounded-2xl border shadow-lg flex items-center gap-2 w-48 ${timeLeft !== null && timeLeft <= 30 ? 'border-red-500/40 text-red-300' : 'border-white/10 text-white'}`}>
+                             <Timer className="w-4 h-4" />
+                             <span className="text-xl font-bold font-mono">{Math.floor((timeLeft || 0) / 60)}:{String((timeLeft || 0) % 60).padStart(2, '0')}</span>
+                        </div>
+                    ) : gameMode === 'puzzle' ? (
+                        <div className="bg-slate-900/60 backdrop-blur-md px-4 py-3 rounded-2xl border border-white/10 w-48 shadow-lg space-y-1">
+                             <p className="text-[11px] text-sky-300 flex items-center gap-1"><Target className="w-3 h-3" /> Clear the board</p>
+                             {shotsLeft !== null && <p className="text-[11px] text-slate-400">Shots left: <span className="font-bold text-white">{shotsLeft}</span></p>}
+                        </div>
+                    ) : gameMode === 'quizRush' ? (
+                        <div className="bg-slate-900/60 backdrop-blur-md px-4 py-3 rounded-2xl border border-white/10 w-48 shadow-lg space-y-2">
+                             <div className="flex items-center justify-between">
+                                <p className="text-[11px] text-sky-300 flex items-center gap-1"><BrainCircuit className="w-3 h-3" /> {quizTally.correct} / {QUIZ_RUSH_GOAL}</p>
+                                <div className="flex gap-0.5" title="Misses left">
+                                    {Array.from({ length: QUIZ_RUSH_LIVES }, (_, i) => (
+                                        <Heart key={i} className={`w-3.5 h-3.5 ${i < QUIZ_RUSH_LIVES - quizTally.missed ? 'text-red-400 fill-red-400' : 'text-slate-600'}`} />
+                                    ))}
+                                </div>
+                             </div>
+                             <div className="h-1.5 w-full bg-white/10 rounded-full overflow-hidden">
+                                <div className="h-full bg-gradient-to-r from-sky-400 to-emerald-400 transition-all duration-700" style={{ width: `${Math.min(100, (quizTally.correct / QUIZ_RUSH_GOAL) * 100)}%` }} />
+                             </div>
+                        </div>
+                    ) : userProfile.difficulty !== 'Infinity' && (
                         <div className="bg-slate-900/60 backdrop-blur-md px-4 py-2 rounded-2xl border border-white/10 w-48 shadow-lg">
                              <div className="h-1.5 w-full bg-white/10 rounded-full overflow-hidden">
                                 <div className="h-full bg-gradient-to-r from-sky-400 to-purple-500 transition-all duration-700" style={{ width: `${Math.min(100, (score / DIFFICULTY_CONFIG[userProfile.difficulty].winScore) * 100)}%` }} />
                              </div>
                         </div>
                     )}
+
+                    {classroom?.round && classroom.role === 'student' && (
+                        <div className="bg-slate-900/60 backdrop-blur-md px-4 py-3 rounded-2xl border border-violet-500/20 w-56 shadow-lg space-y-1" title="Live classroom scoreboard">
+                            <p className="text-[10px] text-violet-300 font-bold uppercase tracking-widest flex items-center gap-1 mb-1.5">
+                                <Users className="w-3 h-3" /> Classroom{classroomRank >= 0 && ` · #${classroomRank + 1} of ${classroom.players.length}`}
+                            </p>
+                            {classroom.players.slice(0, 5).map((p, i) => (
+                                <p key={p.id} className={`text-[11px] flex justify-between gap-2 ${p.id === classroom.playerId ? 'text-sky-300 font-bold' : 'text-slate-400'}`}>
+                                    <span className="truncate">{i + 1}. {p.name}</span>
+                                    <span className="font-mono">{p.score.toLocaleString()}</span>
+                                </p>
+                            ))}
+                        </div>
+                    )}
                 </div>
 
                 <div className="absolute top-8 right-8 z-50 flex gap-3 animate-in slide-in-from-right-6">
+                    {isRecordingHands && (
+                        <button onClick={toggleHandRecording} title="Stop recording and save the hand tracking" className="bg-red-900/60 hover:bg-red-800/80 backdrop-blur-md p-4 rounded-full border border-red-500/30 shadow-lg transition-all hover:scale-105 animate-pulse">
+                            <CircleDot className="w-5 h-5 text-red-300" />
+                        </button>
+                    )}
+                    {isTestPlay && (
+                        <button onClick={() => openEditor(editorLevel)} title="Back to the level editor" className="bg-emerald-900/60 hover:bg-emerald-800/80 backdrop-blur-md p-4 rounded-full border border-emerald-500/30 shadow-lg transition-all hover:scale-105">
+                            <PenTool className="w-5 h-5 text-emerald-300" />
+                        </button>
+                    )}
+                    <button onClick={askCopilot} disabled={copilotLoading || gameOver} title="Ask the co-pilot for a shot" className="bg-slate-900/60 hover:bg-slate-800/80 backdrop-blur-md p-4 rounded-full border border-white/10 shadow-lg transition-all hover:scale-105 group disabled:opacity-50">
+                        {copilotLoading ? <Loader2 className="w-5 h-5 text-sky-400 animate-spin" /> : <Sparkles className="w-5 h-5 text-slate-400 group-hover:text-sky-400" />}
+                    </button>
                     <button onClick={saveToLeaderboard} className="bg-slate-900/60 hover:bg-slate-800/80 backdrop-blur-md p-4 rounded-full border border-white/10 shadow-lg transition-all hover:scale-105 group">
                         <Save className="w-5 h-5 text-slate-400 group-hover:text-amber-400" />
                     </button>
@@ -1509,6 +2365,16 @@ const GeminiSlingshot: React.FC = () => {
                     </button>
                 </div>
 
+                {/* Letter Bubbles: definition of the word just spelled */}
+                {wordCard && (
+                    <div className="absolute top-8 left-1/2 -translate-x-1/2 z-40 pointer-events-none animate-in fade-in slide-in-from-top-4">
+                        <div className="bg-slate-900/80 backdrop-blur-xl px-6 py-4 rounded-3xl border border-amber-500/30 shadow-2xl max-w-md text-center">
+                            <p className="text-2xl font-bold text-amber-300 tracking-widest">{wordCard.word}</p>
+                            <p className="text-sm text-slate-200 mt-1 flex items-start gap-2 text-left"><BookOpen className="w-4 h-4 text-amber-400 flex-shrink-0 mt-0.5" /> {wordCard.definition}</p>
+                        </div>
+                    </div>
+                )}
+
                 {/* Ammo HUD */}
                 {!gameOver && (
                     <div className="absolute bottom-8 left-1/2 -translate-x-1/2 z-40">
@@ -1517,11 +2383,20 @@ const GeminiSlingshot: React.FC = () => {
                                 <div className="w-12 h-12 rounded-full shadow-lg ring-2 ring-white/30" style={{ background: COLOR_CONFIG[currentAmmo].hex }} />
                                 <div className="absolute -bottom-6 left-1/2 -translate-x-1/2 text-[10px] font-bold text-slate-400 uppercase tracking-widest">Load</div>
                             </div>
-                            <div className="w-px h-8 bg-white/10" />
+                            <button onClick={swapAmmo} title={`Swap loaded and next ammo (S)${ammoSwapped ? '' : ' - swapped matches earn a smaller bonus'}`} className={`p-2 rounded-full transition-all hover:scale-110 ${ammoSwapped ? 'bg-amber-500/20 text-amber-300' : 'bg-white/5 text-slate-400 hover:text-white'}`}>
+                                <ArrowLeftRight className="w-4 h-4" />
+                            </button>
                             <div className="relative opacity-60 scale-75">
                                 <div className="w-12 h-12 rounded-full shadow-inner ring-1 ring-white/10" style={{ background: COLOR_CONFIG[nextAmmo].hex }} />
                                 <div className="absolute -bottom-6 left-1/2 -translate-x-1/2 text-[10px] font-bold text-slate-500 uppercase tracking-widest">Next</div>
                             </div>
+                            {upcomingAmmo.length > 0 && (
+                                <div className="flex items-center gap-1.5 opacity-50" title="Coming up">
+                                    {upcomingAmmo.map((color, i) => (
+                                        <div key={i} className="w-5 h-5 rounded-full ring-1 ring-white/10" style={{ background: COLOR_CONFIG[color].hex }} />
+                                    ))}
+                                </div>
+                            )}
                         </div>
                     </div>
                 )}
@@ -1534,12 +2409,89 @@ const GeminiSlingshot: React.FC = () => {
                 <div className="bg-slate-900/80 backdrop-blur-xl p-10 rounded-[3rem] shadow-2xl border border-white/10 flex flex-col items-center">
                     <h2 className="text-4xl font-extrabold text-white mb-8 tracking-tight">Paused</h2>
                     <button onClick={() => setIsPaused(false)} className="bg-sky-600 text-white px-10 py-4 rounded-full font-bold shadow-lg hover:bg-sky-500 hover:scale-105 transition-all">Resume</button>
+                    <div className="mt-8 w-72">
+                        <p className="text-[10px] uppercase font-bold text-slate-500 mb-2 text-center">Hand Gestures</p>
+                        <GestureToggles settings={gestureSettings} onChange={changeGestureSettings} />
+                    </div>
+                    {!cameraOff && (
+                        <div className="mt-6 w-72">
+                            <p className="text-[10px] uppercase font-bold text-slate-500 mb-2 text-center">Camera Picture</p>
+                            <PrivacyToggles settings={cameraSettings} onChange={changeCameraSettings} />
+                        </div>
+                    )}
+                    <button onClick={toggleHandRecording} className={`mt-6 flex items-center gap-2 text-xs font-bold uppercase tracking-widest transition-colors ${isRecordingHands ? 'text-red-400 hover:text-red-300' : 'text-slate-500 hover:text-slate-300'}`}>
+                        <CircleDot className="w-4 h-4" /> {isRecordingHands ? 'Stop & save hand recording' : 'Record hand tracking'}
+                    </button>
+                </div>
+            </div>
+        )}
+
+        {/* LEVEL COMPLETE */}
+        {gameWon && activeLevel && (
+             <div className="absolute inset-0 z-[80] bg-black/60 backdrop-blur-lg flex items-center justify-center">
+                 <div className="bg-slate-900/90 backdrop-blur-xl p-10 rounded-[3rem] border border-emerald-500/30 shadow-2xl flex flex-col items-center text-center max-w-sm animate-in zoom-in duration-500">
+                    <StarRow count={levelStars} size="w-12 h-12" />
+                    <h2 className="text-4xl font-bold text-white mt-6 mb-2">Level Complete!</h2>
+                    <p className="text-slate-400 mb-8">{activeLevel.name} · {score.toLocaleString()} pts</p>
+                    {nextLevel && (
+                        <button onClick={() => playLevel(nextLevel)} className="w-full bg-emerald-500 hover:bg-emerald-400 text-black font-bold py-4 rounded-2xl shadow-lg shadow-emerald-900/50 transition-all hover:scale-[1.02] mb-3 flex items-center justify-center gap-2">Next Level <ChevronRight className="w-5 h-5" /></button>
+                    )}
+                    <div className="flex gap-3 w-full">
+                        <button onClick={() => playLevel(activeLevel, isTestPlay)} className="flex-1 bg-white/5 border border-white/10 text-slate-300 font-bold py-3 rounded-xl hover:bg-white/10 flex items-center justify-center gap-2"><RotateCcw className="w-4 h-4" /> Retry</button>
+                        {isTestPlay ? (
+                            <button onClick={() => { setGameWon(false); openEditor(editorLevel); }} className="flex-1 bg-sky-900/30 border border-sky-500/30 text-sky-400 font-bold py-3 rounded-xl hover:bg-sky-900/50 flex items-center justify-center gap-2"><PenTool className="w-4 h-4" /> Edit</button>
+                        ) : (
+                            <button onClick={() => { setGameWon(false); setShowCampaign(true); }} className="flex-1 bg-sky-900/30 border border-sky-500/30 text-sky-400 font-bold py-3 rounded-xl hover:bg-sky-900/50 flex items-center justify-center gap-2"><MapIcon className="w-4 h-4" /> Levels</button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        )}
+
+        {/* LEVEL FAILED */}
+        {gameOver && activeLevel && !showLeaderboard && !showCampaign && !showEditor && (
+             <div className="absolute inset-0 z-[80] bg-black/60 backdrop-blur-lg flex items-center justify-center">
+                 <div className="bg-slate-900/90 backdrop-blur-xl p-10 rounded-[3rem] border border-red-500/30 shadow-2xl flex flex-col items-center text-center max-w-sm animate-in zoom-in duration-500">
+                    <h2 className="text-4xl font-bold text-white mb-2">Level Failed</h2>
+                    <p className="text-slate-400 mb-8">{shotsLeft === 0 ? 'Out of shots.' : 'The bubbles reached the danger line.'} {describeGoal(activeLevel.goal)} to pass.</p>
+                    <div className="flex gap-3 w-full">
+                        <button onClick={() => playLevel(activeLevel, isTestPlay)} className="flex-1 bg-amber-500 hover:bg-amber-400 text-black font-bold py-3 rounded-xl flex items-center justify-center gap-2"><RotateCcw className="w-4 h-4" /> Retry</button>
+                        {isTestPlay ? (
+                            <button onClick={() => openEditor(editorLevel)} className="flex-1 bg-sky-900/30 border border-sky-500/30 text-sky-400 font-bold py-3 rounded-xl hover:bg-sky-900/50 flex items-center justify-center gap-2"><PenTool className="w-4 h-4" /> Edit</button>
+                        ) : (
+                            <button onClick={() => setShowCampaign(true)} className="flex-1 bg-sky-900/30 border border-sky-500/30 text-sky-400 font-bold py-3 rounded-xl hover:bg-sky-900/50 flex items-center justify-center gap-2"><MapIcon className="w-4 h-4" /> Levels</button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        )}
+
+        {/* MODE RESULT: Time Attack, Puzzle and Quiz Rush end with a win or a loss */}
+        {gameOver && !activeLevel && gameMode !== 'classic' && !showLeaderboard && (
+             <div className="absolute inset-0 z-[80] bg-black/60 backdrop-blur-lg flex items-center justify-center">
+                 <div className={`bg-slate-900/90 backdrop-blur-xl p-10 rounded-[3rem] border shadow-2xl flex flex-col items-center text-center max-w-sm animate-in zoom-in duration-500 ${gameWon ? 'border-amber-500/30' : 'border-red-500/30'}`}>
+                    <div className={`p-6 rounded-full mb-6 ring-1 ${gameWon ? 'bg-amber-900/30 ring-amber-500/50' : 'bg-red-900/30 ring-red-500/50'}`}>
+                        {gameWon ? <Crown className="w-12 h-12 text-amber-400" /> : <Flag className="w-12 h-12 text-red-400" />}
+                    </div>
+                    <p className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-1">{MODE_CONFIG[gameMode].label}</p>
+                    <h2 className="text-4xl font-bold text-white mb-2">
+                        {gameMode === 'timeAttack' ? (gameWon ? "Time's Up!" : 'Overrun!') : gameMode === 'puzzle' ? (gameWon ? 'Board Cleared!' : 'Puzzle Failed') : (gameWon ? 'Quiz Rush Complete!' : 'Out of Lives')}
+                    </h2>
+                    <p className="text-slate-400 mb-8">
+                        {score.toLocaleString()} pts
+                        {gameMode === 'puzzle' && !gameWon && (shotsLeft === 0 ? ' · Out of shots.' : ' · The bubbles reached the danger line.')}
+                        {gameMode === 'quizRush' && ` · ${quizTally.correct} correct`}
+                    </p>
+                    <div className="flex gap-3 w-full">
+                        <button onClick={saveToLeaderboard} className="flex-1 bg-white/5 border border-white/10 text-slate-300 font-bold py-3 rounded-xl hover:bg-white/10">Save</button>
+                        <button onClick={restartGame} className="flex-1 bg-sky-900/30 border border-sky-500/30 text-sky-400 font-bold py-3 rounded-xl hover:bg-sky-900/50 flex items-center justify-center gap-2"><RotateCcw className="w-4 h-4" /> Play Again</button>
+                    </div>
                 </div>
             </div>
         )}
 
         {/* VICTORY */}
-        {gameWon && (
+        {gameWon && !activeLevel && gameMode === 'classic' && (
              <div className="absolute inset-0 z-[80] bg-black/60 backdrop-blur-lg flex items-center justify-center">
                  <div className="bg-slate-900/90 backdrop-blur-xl p-10 rounded-[3rem] border border-amber-500/30 shadow-2xl flex flex-col items-center text-center max-w-sm animate-in zoom-in duration-500">
                     <div className="bg-amber-900/30 p-6 rounded-full mb-6 ring-1 ring-amber-500/50">
@@ -1550,7 +2502,7 @@ const GeminiSlingshot: React.FC = () => {
                     <button onClick={() => { setGameWon(false); setIsPaused(false); }} className="w-full bg-amber-500 hover:bg-amber-400 text-black font-bold py-4 rounded-2xl shadow-lg shadow-amber-900/50 transition-all hover:scale-[1.02] mb-3">Keep Playing</button>
                     <div className="flex gap-3 w-full">
                         <button onClick={saveToLeaderboard} className="flex-1 bg-white/5 border border-white/10 text-slate-300 font-bold py-3 rounded-xl hover:bg-white/10">Save</button>
-                        <button onClick={() => { if(userProfile) initGrid(canvasRef.current?.width || 1280, userProfile.difficulty); setScore(0); scoreRef.current = 0; }} className="flex-1 bg-sky-900/30 border border-sky-500/30 text-sky-400 font-bold py-3 rounded-xl hover:bg-sky-900/50">Restart</button>
+                        <button onClick={restartGame} className="flex-1 bg-sky-900/30 border border-sky-500/30 text-sky-400 font-bold py-3 rounded-xl hover:bg-sky-900/50">Restart</button>
                     </div>
                 </div>
             </div>
@@ -1562,22 +2514,95 @@ const GeminiSlingshot: React.FC = () => {
                  <div className="bg-slate-900/95 backdrop-blur-xl w-full max-w-xl h-[70vh] rounded-[2.5rem] border border-white/10 shadow-2xl flex flex-col overflow-hidden animate-in slide-in-from-bottom-8">
                     <div className="p-8 border-b border-white/5 flex justify-between items-center bg-black/20">
                         <h2 className="text-2xl font-bold text-white flex items-center gap-2"><Medal className="text-amber-400" /> Top Scholars</h2>
-                        <button onClick={() => { setShowLeaderboard(false); setIsPaused(false); if(gameOver && userProfile){ initGrid(canvasRef.current?.width||1280, userProfile.difficulty); setScore(0); scoreRef.current=0;}}} className="p-2 bg-white/5 rounded-full hover:bg-white/10"><XCircle className="w-6 h-6 text-slate-400" /></button>
+                        <div className="flex items-center gap-2">
+                            {replayError && <span className="text-xs text-red-400">{replayError}</span>}
+                            <label className="p-2 bg-white/5 rounded-full hover:bg-white/10 cursor-pointer" title="Open replay file">
+                                <Upload className="w-6 h-6 text-slate-400" />
+                                <input type="file" accept="application/json,.json" className="hidden" onChange={handleImportReplay} />
+                            </label>
+                            <button onClick={() => { setShowLeaderboard(false); setIsPaused(false); if(gameOver) restartGame();}} className="p-2 bg-white/5 rounded-full hover:bg-white/10"><XCircle className="w-6 h-6 text-slate-400" /></button>
+                        </div>
+                    </div>
+                    <div className="flex gap-2 px-4 pt-4">
+                        {(Object.keys(MODE_CONFIG) as GameMode[]).map(mode => (
+                            <button key={mode} onClick={() => setLeaderboardMode(mode)} className={`flex-1 py-2 rounded-xl text-xs font-bold transition-colors ${leaderboardMode === mode ? 'bg-amber-500/20 text-amber-300' : 'bg-white/5 text-slate-400 hover:bg-white/10'}`}>
+                                {MODE_CONFIG[mode].label}
+                            </button>
+                        ))}
                     </div>
                     <div className="flex-1 overflow-y-auto p-4 space-y-2">
-                        {leaderboard.length === 0 ? <p className="text-center text-slate-500 py-10">No records yet.</p> : leaderboard.map((e, i) => (
+                        {rankedEntries.length === 0 ? <p className="text-center text-slate-500 py-10">No records yet.</p> : rankedEntries.map((e, i) => (
                             <div key={i} className="flex items-center justify-between p-4 bg-white/5 rounded-2xl border border-white/5 shadow-sm hover:bg-white/10 transition-colors">
                                 <div className="flex items-center gap-4">
                                     <span className={`w-8 h-8 flex items-center justify-center rounded-full font-bold text-sm ${i<3 ? 'bg-amber-500/20 text-amber-400' : 'bg-slate-700/50 text-slate-400'}`}>{i+1}</span>
                                     <div><p className="font-bold text-slate-200">{e.name}</p><p className="text-xs text-slate-500">{e.className}</p></div>
                                 </div>
-                                <span className="font-mono font-bold text-sky-400">{e.score.toLocaleString()}</span>
+                                <div className="flex items-center gap-3">
+                                    {e.replay?.version === REPLAY_VERSION && (
+                                        <button onClick={() => setActiveReplay({ replay: e.replay!, title: `${e.name} (${e.className})` })} className="p-2 bg-white/5 rounded-full hover:bg-sky-500/20 text-slate-400 hover:text-sky-400 transition-colors" title="Watch replay">
+                                            <Film className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                    <span className="font-mono font-bold text-sky-400">{e.score.toLocaleString()}</span>
+                                </div>
                             </div>
                         ))}
                     </div>
                  </div>
              </div>
         )}
+
+        {/* CAMPAIGN */}
+        {showCampaign && (
+            <CampaignScreen
+                pack={campaignPack}
+                stars={campaignStars}
+                onPlay={(level) => playLevel(level)}
+                onEdit={openEditor}
+                onLoadPack={setCampaignPack}
+                onClose={() => setShowCampaign(false)}
+            />
+        )}
+
+        {/* LEVEL EDITOR */}
+        {showEditor && (
+            <LevelEditor
+                initialLevel={editorLevel}
+                onTest={testLevel}
+                onClose={() => { setShowEditor(false); if (!isTestPlay) setShowCampaign(true); }}
+            />
+        )}
+
+        {/* VERSUS */}
+        {showVersus && (
+            <VersusArena profile={formInput} handFeed={handFeed} privacy={cameraSettings.privacy} playSound={playSound} onClose={() => setShowVersus(false)} />
+        )}
+
+        {/* GESTURE PROGRESS */}
+        {activeGesture && <GestureRing active={activeGesture} />}
+
+        {/* HAND CALIBRATION */}
+        {showCalibration && (
+            <CalibrationWizard initial={formInput.calibration} handFeed={handFeed} privacy={cameraSettings.privacy} onSave={saveCalibration} onClose={() => setShowCalibration(false)} />
+        )}
+
+        {/* CLASSROOM */}
+        {showClassroom && (
+            <ClassroomScreen
+                session={classroom}
+                profile={formInput}
+                onConnect={connectToClassroom}
+                onStartRound={startClassroomRound}
+                onStopRound={stopClassroomRound}
+                onLeave={leaveClassroom}
+                onClose={() => setShowClassroom(false)}
+            />
+        )}
+
+        {/* REPLAY VIEWER */}
+        {activeReplay && (
+            <ReplayViewer replay={activeReplay.replay} title={activeReplay.title} onClose={() => setActiveReplay(null)} />
+        )}
       </div>
     </div>
   );
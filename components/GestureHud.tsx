@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { GestureSettings, HandGesture } from '../types';
+import { GestureProgress } from './gestureRecognizer';
+import { Hand, Grab, ThumbsUp, MoveHorizontal } from 'lucide-react';
+
+export const GESTURE_INFO: Record<HandGesture, { label: string, action: string, icon: React.FC<{ className?: string }> }> = {
+  openPalm: { label: 'Open palm', action: 'Pause', icon: Hand },
+  fist: { label: 'Fist', action: 'Swap ammo', icon: Grab },
+  thumbsUp: { label: 'Thumbs up', action: 'Confirm', icon: ThumbsUp },
+  swipe: { label: 'Swipe', action: 'Dismiss', icon: MoveHorizontal }
+};
+
+const RING_RADIUS = 26;
+const RING_LENGTH = 2 * Math.PI * RING_RADIUS;
+
+/** Fills up while a gesture is held; it fires when the ring closes. */
+export const GestureRing: React.FC<{ active: GestureProgress }> = ({ active }) => {
+  const { icon: Icon, action } = GESTURE_INFO[active.gesture];
+  return (
+    <div className="absolute top-24 left-1/2 -translate-x-1/2 z-[95] pointer-events-none flex flex-col items-center gap-2 animate-in fade-in duration-200">
+      <div className="relative w-16 h-16 bg-slate-900/80 backdrop-blur-md rounded-full shadow-2xl">
+        <svg className="absolute inset-0 -rotate-90" viewBox="0 0 64 64">
+          <circle cx="32" cy="32" r={RING_RADIUS} fill="none" stroke="rgba(255,255,255,0.1)" strokeWidth="5" />
+          <circle cx="32" cy="32" r={RING_RADIUS} fill="none" stroke="#38bdf8" strokeWidth="5" strokeLinecap="round" strokeDasharray={RING_LENGTH} strokeDashoffset={RING_LENGTH * (1 - active.progress)} />
+        </svg>
+        <Icon className="absolute inset-0 m-auto w-6 h-6 text-sky-300" />
+      </div>
+      <span className="text-xs font-bold text-sky-200 bg-slate-900/70 px-3 py-1 rounded-full">{action}</span>
+    </div>
+  );
+};
+
+/** One switch per gesture. */
+export const GestureToggles: React.FC<{ settings: GestureSettings, onChange: (settings: GestureSettings) => void }> = ({ settings, onChange }) => (
+  <div className="grid grid-cols-2 gap-2">
+    {(Object.keys(GESTURE_INFO) as HandGesture[]).map(gesture => {
+      const { icon: Icon, label, action } = GESTURE_INFO[gesture];
+      return (
+        <button
+          key={gesture}
+          onClick={() => onChange({ ...settings, [gesture]: !settings[gesture] })}
+          title={`${label}: ${action}`}
+          className={`flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-bold transition-all text-left ${settings[gesture] ? 'bg-sky-500/20 text-sky-200 ring-1 ring-sky-400/40' : 'bg-black/30 text-slate-500 ring-1 ring-white/10 hover:text-slate-300'}`}
+        >
+          <Icon className="w-4 h-4 flex-shrink-0" />
+          <span><span className="block">{label}</span><span className="block font-normal opacity-70">{action}</span></span>
+        </button>
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,397 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { BubbleColor, Difficulty, LevelDefinition, LevelGoal } from '../types';
+import { getLevelCells, layoutFromCells, parseLevelPack, toLevel, LevelCell } from '../engine/levels';
+import { getBubblePos, getRowCols } from '../engine/hexGrid';
+import { BUBBLE_RADIUS, COLOR_CONFIG, COLOR_KEYS, DIFFICULTY_CONFIG, GRID_ROWS, MAX_AMMO_PREVIEW, MAX_GRID_COLS, ROW_HEIGHT } from '../engine/config';
+import { drawBubble } from './bubbleRenderer';
+import { PenTool, Eraser, Trash2, Play, Download, Upload, XCircle, Plus, Bomb, Rainbow, Mountain, Snowflake } from 'lucide-react';
+
+interface LevelEditorProps {
+  initialLevel: LevelDefinition | null; // Level to edit, or null for a blank one
+  onTest: (level: LevelDefinition) => void;
+  onClose: () => void;
+}
+
+type Tool = BubbleColor | 'bomb' | 'rainbow' | 'stone' | 'erase';
+type Paint = Omit<LevelCell, 'row' | 'col'>;
+
+const SPECIAL_TOOLS = [
+  { kind: 'bomb', label: 'Bomb', Icon: Bomb },
+  { kind: 'rainbow', label: 'Rainbow (matches any color)', Icon: Rainbow },
+  { kind: 'stone', label: 'Stone (never pops, only falls)', Icon: Mountain }
+] as const;
+
+// Canvas always fits the widest board; narrower boards are centered like in the game
+const CANVAS_WIDTH = MAX_GRID_COLS * BUBBLE_RADIUS * 2 + BUBBLE_RADIUS * 2;
+const CANVAS_HEIGHT = Math.ceil(BUBBLE_RADIUS * 2 + (GRID_ROWS - 1) * ROW_HEIGHT);
+
+const BLANK_LEVEL: LevelDefinition = {
+  version: 1,
+  id: '',
+  name: 'My Level',
+  difficulty: 'Easy',
+  cols: 10,
+  layout: [],
+  ammo: { colors: ['red', 'blue', 'green'] },
+  dropInterval: 0,
+  goal: { type: 'clear' },
+  stars: [3000, 5000]
+};
+
+const cellKey = (row: number, col: number) => `${row}:${col}`;
+
+const toCellMap = (level: LevelDefinition) => {
+  const map: Record<string, Paint> = {};
+  getLevelCells(level).forEach(c => { map[cellKey(c.row, c.col)] = { color: c.color, kind: c.kind }; });
+  return map;
+};
+
+// Colors paint as ice while the ice toggle is on; special kinds have no color
+const toPaint = (tool: Exclude<Tool, 'erase'>, ice: boolean): Paint => {
+  if (tool === 'bomb' || tool === 'rainbow' || tool === 'stone') return { color: 'red', kind: tool };
+  return { color: tool, kind: ice ? 'ice' : 'normal' };
+};
+
+const inputClass = "w-full bg-slate-800 border-0 ring-1 ring-white/10 rounded-xl py-2 px-3 text-white text-sm focus:ring-2 focus:ring-emerald-500 outline-none";
+const labelClass = "block text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1";
+
+const LevelEditor: React.FC<LevelEditorProps> = ({ initialLevel, onTest, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const painting = useRef<Paint | 'erase' | null>(null);
+
+  const [draft, setDraft] = useState<LevelDefinition>(initialLevel || BLANK_LEVEL);
+  const [cells, setCells] = useState<Record<string, Paint>>(() => initialLevel ? toCellMap(initialLevel) : {});
+  const [tool, setTool] = useState<Tool>('red');
+  const [ice, setIce] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (changes: Partial<LevelDefinition>) => { setDraft(prev => ({ ...prev, ...changes })); setError(null); };
+
+  const cellList = (): LevelCell[] => Object.keys(cells).map(key => {
+      const [row, col] = key.split(':').map(Number);
+      return { row, col, ...cells[key] };
+  });
+
+  // Validates through the same parser used for level files, so what tests here also loads from disk
+  const buildLevel = (): LevelDefinition | null => {
+      try {
+          return toLevel({ ...draft, id: draft.id || undefined, layout: layoutFromCells(cellList(), draft.cols) });
+      } catch (e: any) {
+          setError(e.message);
+          return null;
+      }
+  };
+
+  // --- Board Painting ---
+
+  const cellAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const canvas = canvasRef.current!;
+      const rect = canvas.getBoundingClientRect();
+      // Canvas is mirrored by CSS like the game board, so x runs from the right edge
+      const x = (rect.right - e.clientX) * (canvas.width / rect.width);
+      const y = (e.clientY - rect.top) * (canvas.height / rect.height);
+      for (let row = 0; row < GRID_ROWS; row++) {
+          for (let col = 0; col < getRowCols(row, draft.cols); col++) {
+              const p = getBubblePos(row, col, CANVAS_WIDTH, draft.cols);
+              if (Math.sqrt((x - p.x) ** 2 + (y - p.y) ** 2) < BUBBLE_RADIUS) return { row, col };
+          }
+      }
+      return null;
+  };
+
+  const paint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const cell = cellAt(e);
+      if (!cell || !painting.current) return;
+      const key = cellKey(cell.row, cell.col);
+      const mode = painting.current;
+      setCells(prev => {
+          if (mode === 'erase') {
+              if (!prev[key]) return prev;
+              const { [key]: _, ...rest } = prev;
+              return rest;
+          }
+          const current = prev[key];
+          return current && current.color === mode.color && current.kind === mode.kind ? prev : { ...prev, [key]: mode };
+      });
+      setError(null);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      painting.current = e.button === 2 || tool === 'erase' ? 'erase' : toPaint(tool, ice); // Right-click always erases
+      paint(e);
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    for (let row = 0; row < GRID_ROWS; row++) {
+      for (let col = 0; col < getRowCols(row, draft.cols); col++) {
+        const { x, y } = getBubblePos(row, col, CANVAS_WIDTH, draft.cols);
+        const cell = cells[cellKey(row, col)];
+        if (cell) {
+          drawBubble(ctx, x, y, BUBBLE_RADIUS - 1, cell.color, false, false, cell.kind);
+        } else {
+          ctx.beginPath();
+          ctx.arc(x, y, BUBBLE_RADIUS - 2, 0, Math.PI * 2);
+          ctx.strokeStyle = 'rgba(255, 255, 255, 0.08)';
+          ctx.lineWidth = 1;
+          ctx.stroke();
+        }
+      }
+    }
+  }, [cells, draft.cols]);
+
+  // --- Ammo ---
+
+  const toggleAmmoColor = (color: BubbleColor) => {
+      const colors = draft.ammo.colors.includes(color) ? draft.ammo.colors.filter(c => c !== color) : [...draft.ammo.colors, color];
+      update({ ammo: { ...draft.ammo, colors: COLOR_KEYS.filter(c => colors.includes(c)) } });
+  };
+
+  const setSequence = (sequence: BubbleColor[]) => {
+      const { sequence: _, ...rest } = draft.ammo;
+      update({ ammo: sequence.length > 0 ? { ...rest, sequence } : rest });
+  };
+
+  // 0 falls back to the difficulty's preview depth
+  const setPreview = (preview: number) => {
+      const { preview: _, ...rest } = draft.ammo;
+      update({ ammo: preview > 0 ? { ...rest, preview } : rest });
+  };
+
+  const setGoalType = (type: LevelGoal['type']) => {
+      const score = draft.goal.type !== 'clear' ? draft.goal.score : 3000;
+      if (type === 'clear') update({ goal: { type } });
+      else if (type === 'score') update({ goal: { type, score } });
+      else update({ goal: { type, score, shots: draft.goal.type === 'shots' ? draft.goal.shots : 20 } });
+  };
+
+  // --- File ---
+
+  const handleTest = () => {
+      const level = buildLevel();
+      if (level) onTest(level);
+  };
+
+  const handleExport = () => {
+      const level = buildLevel();
+      if (!level) return;
+      const blob = new Blob([JSON.stringify(level, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${level.id}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      file.text().then(text => {
+          const [level] = parseLevelPack(text).levels;
+          setDraft(level);
+          setCells(toCellMap(level));
+          setError(null);
+      }).catch(err => {
+          console.error("Failed to load level file:", err);
+          setError(err.message || "Not a level file");
+      });
+  };
+
+  const sequence = draft.ammo.sequence || [];
+
+  return (
+    <div className="absolute inset-0 z-[76] bg-black/80 backdrop-blur-lg flex items-center justify-center p-4">
+      <div className="bg-slate-900 rounded-[2rem] border border-emerald-500/30 w-full max-w-5xl h-[90vh] flex flex-col shadow-2xl animate-in zoom-in-95 duration-300">
+        {/* Header */}
+        <div className="p-6 border-b border-white/10 flex justify-between items-center bg-white/5 rounded-t-[2rem]">
+          <div className="flex items-center gap-3">
+            <div className="bg-emerald-500/20 p-2 rounded-xl text-emerald-400">
+              <PenTool className="w-6 h-6" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-white">Level Editor</h2>
+              <p className="text-slate-400 text-xs">Paint the board, set the rules, then test it</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="p-2 bg-white/5 rounded-full hover:bg-white/10 cursor-pointer" title="Open level file">
+              <Upload className="w-6 h-6 text-slate-400" />
+              <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            </label>
+            <button onClick={handleExport} className="p-2 bg-white/5 rounded-full hover:bg-white/10" title="Download level file"><Download className="w-6 h-6 text-slate-400" /></button>
+            <button onClick={onClose} className="p-2 bg-white/5 rounded-full hover:bg-white/10"><XCircle className="w-6 h-6 text-slate-400" /></button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 flex flex-col lg:flex-row overflow-y-auto">
+          {/* Board */}
+          <div className="flex-1 p-5 space-y-4">
+            <div className="flex items-center gap-2 flex-wrap">
+              {COLOR_KEYS.map(color => (
+                <button key={color} onClick={() => setTool(color)} title={COLOR_CONFIG[color].label}
+                  className={`w-9 h-9 rounded-full transition-all ${tool === color ? 'ring-2 ring-white scale-110' : 'ring-1 ring-white/10 opacity-70 hover:opacity-100'}`}
+                  style={{ background: COLOR_CONFIG[color].hex }} />
+              ))}
+              <button onClick={() => setTool('erase')} title="Eraser (or right-click)"
+                className={`w-9 h-9 rounded-full flex items-center justify-center bg-white/5 transition-all ${tool === 'erase' ? 'ring-2 ring-white scale-110' : 'ring-1 ring-white/10'}`}>
+                <Eraser className="w-4 h-4 text-slate-300" />
+              </button>
+              <span className="w-px h-6 bg-white/10 mx-1" />
+              {SPECIAL_TOOLS.map(({ kind, label, Icon }) => (
+                <button key={kind} onClick={() => setTool(kind)} title={label}
+                  className={`w-9 h-9 rounded-full flex items-center justify-center bg-white/5 transition-all ${tool === kind ? 'ring-2 ring-white scale-110' : 'ring-1 ring-white/10'}`}>
+                  <Icon className="w-4 h-4 text-slate-300" />
+                </button>
+              ))}
+              <button onClick={() => setIce(!ice)} title="Ice: colors painted now take two hits to pop"
+                className={`h-9 px-3 rounded-full flex items-center gap-1 text-xs font-bold transition-all ${ice ? 'bg-sky-500/30 text-sky-200 ring-2 ring-sky-300' : 'bg-white/5 text-slate-400 ring-1 ring-white/10'}`}>
+                <Snowflake className="w-4 h-4" /> Ice
+              </button>
+              <button onClick={() => setCells({})} className="ml-auto text-xs flex items-center gap-1 text-slate-400 hover:text-red-400 px-3 py-2 rounded-full bg-white/5">
+                <Trash2 className="w-3 h-3" /> Clear board
+              </button>
+            </div>
+            <canvas
+              ref={canvasRef}
+              width={CANVAS_WIDTH}
+              height={CANVAS_HEIGHT}
+              className="w-full rounded-2xl bg-black/40 border border-white/5 cursor-crosshair touch-none"
+              onPointerDown={handlePointerDown}
+              onPointerMove={paint}
+              onPointerUp={() => { painting.current = null; }}
+              onPointerCancel={() => { painting.current = null; }}
+              onContextMenu={(e) => e.preventDefault()}
+            />
+            <p className="text-[11px] text-slate-500">{Object.keys(cells).length} bubbles · Row 0 hangs from the ceiling · Board is shown as players see it</p>
+          </div>
+
+          {/* Settings */}
+          <div className="w-full lg:w-80 p-5 space-y-4 border-t lg:border-t-0 lg:border-l border-white/10 bg-black/20">
+            <div>
+              <label className={labelClass}>Name</label>
+              <input type="text" className={inputClass} value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+            </div>
+            <div>
+              <label className={labelClass}>Description</label>
+              <input type="text" className={inputClass} value={draft.description || ''} onChange={(e) => update({ description: e.target.value })} placeholder="Shown in the level list" />
+            </div>
+            <div className="flex gap-3">
+              <div className="flex-1">
+                <label className={labelClass}>Difficulty</label>
+                <select className={inputClass} value={draft.difficulty || 'Easy'} onChange={(e) => update({ difficulty: e.target.value as Difficulty })}>
+                  {(['Easy', 'Medium', 'Hard', 'Infinity'] as Difficulty[]).map(d => <option key={d} value={d} className="bg-slate-800">{d}</option>)}
+                </select>
+              </div>
+              <div className="w-24">
+                <label className={labelClass}>Columns</label>
+                <input type="number" min={5} max={MAX_GRID_COLS} className={inputClass} value={draft.cols}
+                  onChange={(e) => update({ cols: Math.max(5, Math.min(MAX_GRID_COLS, Number(e.target.value) || 5)) })} />
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>Goal</label>
+              <select className={inputClass} value={draft.goal.type} onChange={(e) => setGoalType(e.target.value as LevelGoal['type'])}>
+                <option value="clear" className="bg-slate-800">Clear the board</option>
+                <option value="score" className="bg-slate-800">Reach a score</option>
+                <option value="shots" className="bg-slate-800">Score within a shot limit</option>
+              </select>
+              {draft.goal.type !== 'clear' && (
+                <div className="flex gap-3 mt-2">
+                  <input type="number" min={1} className={inputClass} value={draft.goal.score} title="Target score"
+                    onChange={(e) => update({ goal: { ...draft.goal, score: Number(e.target.value) } as LevelGoal })} />
+                  {draft.goal.type === 'shots' && (
+                    <input type="number" min={1} className={inputClass} value={draft.goal.shots} title="Shots"
+                      onChange={(e) => update({ goal: { ...draft.goal, shots: Number(e.target.value) } as LevelGoal })} />
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="flex gap-3">
+              <div className="flex-1">
+                <label className={labelClass}>2 Stars</label>
+                <input type="number" min={0} className={inputClass} value={draft.stars?.[0] ?? 0} onChange={(e) => update({ stars: [Number(e.target.value), draft.stars?.[1] ?? 0] })} />
+              </div>
+              <div className="flex-1">
+                <label className={labelClass}>3 Stars</label>
+                <input type="number" min={0} className={inputClass} value={draft.stars?.[1] ?? 0} onChange={(e) => update({ stars: [draft.stars?.[0] ?? 0, Number(e.target.value)] })} />
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>Ceiling drops every (seconds, 0 = never)</label>
+              <input type="number" min={0} className={inputClass} value={Math.round(draft.dropInterval / 1000)} onChange={(e) => update({ dropInterval: Math.max(0, Number(e.target.value)) * 1000 })} />
+            </div>
+
+            <div>
+              <label className={labelClass}>Ammo colors</label>
+              <div className="flex gap-2">
+                {COLOR_KEYS.map(color => (
+                  <button key={color} onClick={() => toggleAmmoColor(color)} title={COLOR_CONFIG[color].label}
+                    className={`w-7 h-7 rounded-full transition-all ${draft.ammo.colors.includes(color) ? 'ring-2 ring-white' : 'opacity-25'}`}
+                    style={{ background: COLOR_CONFIG[color].hex }} />
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <div className="flex justify-between items-center mb-1">
+                <label className={labelClass + ' mb-0'}>Ammo queue (fired first)</label>
+                {sequence.length > 0 && <button onClick={() => setSequence([])} className="text-[10px] text-slate-500 hover:text-red-400">Clear</button>}
+              </div>
+              <div className="flex flex-wrap gap-1 min-h-[28px] p-1 rounded-xl bg-black/30">
+                {sequence.map((color, i) => (
+                  <button key={i} onClick={() => setSequence(sequence.filter((_, j) => j !== i))} title="Remove"
+                    className="w-5 h-5 rounded-full ring-1 ring-white/20 hover:opacity-50" style={{ background: COLOR_CONFIG[color].hex }} />
+                ))}
+              </div>
+              <div className="flex gap-1 mt-2">
+                {draft.ammo.colors.map(color => (
+                  <button key={color} onClick={() => setSequence([...sequence, color])} title={`Queue ${COLOR_CONFIG[color].label}`}
+                    className="flex items-center gap-0.5 px-1.5 py-1 rounded-full bg-white/5 hover:bg-white/10">
+                    <Plus className="w-3 h-3 text-slate-400" /><span className="w-3 h-3 rounded-full" style={{ background: COLOR_CONFIG[color].hex }} />
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>Ammo preview</label>
+              <select className={inputClass} value={draft.ammo.preview || 0} onChange={(e) => setPreview(Number(e.target.value))}>
+                <option value={0}>Difficulty default ({DIFFICULTY_CONFIG[draft.difficulty || 'Easy'].ammoPreview})</option>
+                {Array.from({ length: MAX_AMMO_PREVIEW }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n} upcoming</option>)}
+              </select>
+            </div>
+
+            <div>
+              <label className={labelClass}>Quiz topic (optional)</label>
+              <input type="text" className={inputClass} value={draft.topic || ''} onChange={(e) => update({ topic: e.target.value })} placeholder="Uses the player's topic if empty" />
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-5 border-t border-white/10 bg-black/20 rounded-b-[2rem] flex items-center gap-4">
+          <p className="flex-1 text-xs text-red-400">{error}</p>
+          <button onClick={handleTest} className="bg-emerald-600 hover:bg-emerald-500 text-white font-bold px-8 py-3 rounded-xl flex items-center gap-2 transition-all hover:scale-[1.02]">
+            <Play className="w-5 h-5" /> Test Play
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LevelEditor;
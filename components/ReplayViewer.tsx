@@ -0,0 +1,228 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { SessionReplay, Bubble } from '../types';
+import { startReplay, advanceReplay, isReplayFinished, verifyReplay, ReplayCursor } from '../engine/replay';
+import { getAnchor, getDangerY } from '../engine/gameEngine';
+import { BUBBLE_RADIUS, MODE_CONFIG } from '../engine/config';
+import { drawBubble } from './bubbleRenderer';
+import { Play, Pause, SkipForward, RotateCcw, Download, XCircle, ShieldCheck, ShieldAlert, Loader2, Film } from 'lucide-react';
+
+const SPEEDS = [0.5, 1, 2, 4, 8];
+const POP_DURATION = 350;
+const MAX_TICKS_PER_FRAME = 400;
+
+interface ReplayViewerProps {
+  replay: SessionReplay;
+  title: string;
+  onClose: () => void;
+}
+
+interface PoppingBubble {
+  bubble: Bubble;
+  popTime: number;
+}
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, title, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [initialCursor] = useState(() => startReplay(replay));
+  const cursorRef = useRef<ReplayCursor>(initialCursor);
+  const popping = useRef<PoppingBubble[]>([]);
+  const playingRef = useRef<boolean>(true);
+  const speedRef = useRef<number>(1);
+
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [tick, setTick] = useState(0);
+  const [score, setScore] = useState(0);
+  const [verified, setVerified] = useState<boolean | null>(null);
+
+  useEffect(() => { playingRef.current = playing; }, [playing]);
+  useEffect(() => { speedRef.current = speed; }, [speed]);
+
+  // Re-run the whole session off the render path to check the recorded score
+  useEffect(() => {
+    const timer = setTimeout(() => setVerified(verifyReplay(replay)), 50);
+    return () => clearTimeout(timer);
+  }, [replay]);
+
+  const advance = () => {
+    const { cursor, events } = advanceReplay(replay, cursorRef.current);
+    cursorRef.current = cursor;
+    const now = performance.now();
+    events.forEach(ev => {
+        if (ev.type === 'matched') ev.bubbles.forEach(b => popping.current.push({ bubble: b, popTime: now }));
+        if (ev.type === 'bombBlast') [ev.origin, ...ev.bubbles].forEach(b => popping.current.push({ bubble: b, popTime: now }));
+        if (ev.type === 'avalanche') ev.bubbles.forEach(b => popping.current.push({ bubble: b, popTime: now }));
+    });
+    return events;
+  };
+
+  const syncHud = () => {
+      setTick(cursorRef.current.tick);
+      setScore(cursorRef.current.state.score);
+  };
+
+  const restart = () => {
+      cursorRef.current = startReplay(replay);
+      popping.current = [];
+      syncHud();
+  };
+
+  // Step: run until the next shot lands (or the next row drops)
+  const stepShot = () => {
+      setPlaying(false);
+      let guard = 0;
+      while (!isReplayFinished(replay, cursorRef.current) && guard++ < replay.totalTicks + 1) {
+          const events = advance();
+          if (events.some(e => e.type === 'landed' || e.type === 'missed' || e.type === 'rowDropped')) break;
+      }
+      syncHud();
+  };
+
+  const downloadReplay = () => {
+      const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `slingshot-replay-${title.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-${replay.finalScore}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    canvas.width = replay.width;
+    canvas.height = replay.height;
+
+    const tickMs = replay.totalTicks > 0 ? replay.duration / replay.totalTicks : 1000 / 30;
+    let accumulator = 0;
+    let last = performance.now();
+    let frame = 0;
+
+    const render = () => {
+      const now = performance.now();
+      if (playingRef.current) {
+          accumulator += (now - last) * speedRef.current;
+          let ticks = 0;
+          while (accumulator >= tickMs && ticks < MAX_TICKS_PER_FRAME && !isReplayFinished(replay, cursorRef.current)) {
+              advance();
+              accumulator -= tickMs;
+              ticks++;
+          }
+          if (ticks > 0) syncHud();
+          if (isReplayFinished(replay, cursorRef.current)) { accumulator = 0; setPlaying(false); }
+      }
+      last = now;
+
+      const { state } = cursorRef.current;
+      ctx.fillStyle = '#0f172a';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+      popping.current = popping.current.filter(p => now - p.popTime < POP_DURATION);
+      popping.current.forEach(p => {
+          const progress = (now - p.popTime) / POP_DURATION;
+          ctx.save();
+          ctx.globalAlpha = 1 - progress;
+          ctx.translate(p.bubble.x, p.bubble.y);
+          ctx.scale(1 + progress * 0.5, 1 + progress * 0.5);
+          drawBubble(ctx, 0, 0, BUBBLE_RADIUS, p.bubble.color, false, false, p.bubble.kind, false, p.bubble.letter);
+          ctx.restore();
+      });
+
+      const pending = new Set(state.pendingMatch);
+      state.bubbles.forEach(b => drawBubble(ctx, b.x, b.y, BUBBLE_RADIUS - 1, b.color, pending.has(b.id), pending.has(b.id), b.kind, b.cracked, b.letter));
+
+      // Danger Line
+      const dangerY = getDangerY(state.height);
+      ctx.beginPath(); ctx.moveTo(0, dangerY); ctx.lineTo(canvas.width, dangerY);
+      ctx.strokeStyle = 'rgba(239, 68, 68, 0.4)'; ctx.setLineDash([8, 8]); ctx.lineWidth = 2; ctx.stroke(); ctx.setLineDash([]);
+
+      // Slingshot & Ball
+      const anchor = getAnchor(state.width, state.height);
+      ctx.beginPath();
+      ctx.ellipse(anchor.x, anchor.y, 20, 24, 0, 0, Math.PI * 2);
+      ctx.fillStyle = '#573625';
+      ctx.fill();
+      const ball = state.projectile || anchor;
+      if (!state.gameOver) drawBubble(ctx, ball.x, ball.y, BUBBLE_RADIUS, state.currentAmmo);
+
+      frame = requestAnimationFrame(render);
+    };
+    frame = requestAnimationFrame(render);
+    return () => cancelAnimationFrame(frame);
+  }, [replay]);
+
+  const progress = replay.totalTicks > 0 ? Math.min(100, (tick / replay.totalTicks) * 100) : 100;
+  const shots = replay.entries.filter(e => e.input.type === 'shot').length;
+
+  return (
+    <div className="absolute inset-0 z-[95] bg-black/80 backdrop-blur-lg flex items-center justify-center p-4">
+      <div className="bg-slate-900/95 w-full max-w-4xl h-[90vh] rounded-[2.5rem] border border-white/10 shadow-2xl flex flex-col overflow-hidden animate-in zoom-in-95 duration-300">
+        {/* Header */}
+        <div className="p-6 border-b border-white/5 flex justify-between items-center bg-black/20">
+          <div className="flex items-center gap-3">
+            <div className="bg-sky-500/20 p-2 rounded-xl text-sky-400">
+              <Film className="w-6 h-6" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-white">{title}</h2>
+              <p className="text-slate-400 text-xs">{replay.difficulty}{replay.mode && ` · ${MODE_CONFIG[replay.mode].label}`} · {shots} shots · {new Date(replay.recordedAt).toLocaleString()}</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            {verified === null ? (
+              <span className="text-xs text-slate-400 flex items-center gap-1"><Loader2 className="w-4 h-4 animate-spin" /> Verifying</span>
+            ) : verified ? (
+              <span className="text-xs text-green-300 bg-green-900/30 border border-green-500/30 px-2 py-1 rounded-full flex items-center gap-1"><ShieldCheck className="w-4 h-4" /> Score verified</span>
+            ) : (
+              <span className="text-xs text-red-300 bg-red-900/30 border border-red-500/30 px-2 py-1 rounded-full flex items-center gap-1"><ShieldAlert className="w-4 h-4" /> Score mismatch</span>
+            )}
+            <button onClick={onClose} className="p-2 bg-white/5 rounded-full hover:bg-white/10"><XCircle className="w-6 h-6 text-slate-400" /></button>
+          </div>
+        </div>
+
+        {/* Board */}
+        <div className="flex-1 min-h-0 flex items-center justify-center p-4 bg-black/30">
+          <canvas ref={canvasRef} className="max-w-full max-h-full rounded-2xl border border-white/5" />
+        </div>
+
+        {/* Controls */}
+        <div className="p-5 border-t border-white/5 bg-black/20 space-y-4">
+          <div className="flex items-center gap-4">
+            <span className="font-mono text-sky-400 font-bold w-28">{score.toLocaleString()}</span>
+            <div className="flex-1 h-1.5 bg-white/10 rounded-full overflow-hidden">
+              <div className="h-full bg-gradient-to-r from-sky-400 to-purple-500" style={{ width: `${progress}%` }} />
+            </div>
+            <span className="font-mono text-slate-400 text-xs w-28 text-right">{replay.finalScore.toLocaleString()}</span>
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <button onClick={restart} className="p-3 bg-white/5 rounded-full hover:bg-white/10" title="Restart"><RotateCcw className="w-5 h-5 text-slate-300" /></button>
+              <button onClick={() => { if (isReplayFinished(replay, cursorRef.current)) restart(); setPlaying(!playing); }} className="p-3 bg-sky-600 rounded-full hover:bg-sky-500" title={playing ? 'Pause' : 'Play'}>
+                {playing ? <Pause className="w-5 h-5 text-white" /> : <Play className="w-5 h-5 text-white" />}
+              </button>
+              <button onClick={stepShot} className="p-3 bg-white/5 rounded-full hover:bg-white/10" title="Step to next shot"><SkipForward className="w-5 h-5 text-slate-300" /></button>
+            </div>
+            <div className="flex items-center gap-1 bg-black/30 p-1 rounded-full">
+              {SPEEDS.map(s => (
+                <button key={s} onClick={() => setSpeed(s)} className={`px-3 py-1.5 rounded-full text-xs font-bold transition-colors ${speed === s ? 'bg-white text-black' : 'text-slate-400 hover:text-white'}`}>{s}x</button>
+              ))}
+            </div>
+            <button onClick={downloadReplay} className="flex items-center gap-2 bg-white/5 border border-white/10 text-slate-300 font-bold px-4 py-2.5 rounded-xl hover:bg-white/10 text-sm">
+              <Download className="w-4 h-4" /> Download
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -0,0 +1,460 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Bubble, BubbleColor, EngineEvent, EngineInput, Point, PrivacyMode, QuizQuestion, UserProfile, VersusState } from '../types';
+import { createVersus, stepVersus } from '../engine/versus';
+import { getAnchor, getDangerY } from '../engine/gameEngine';
+import { randomSeed } from '../engine/rng';
+import { BUBBLE_RADIUS, COLOR_CONFIG } from '../engine/config';
+import { generateQuizQuestion } from '../services/geminiService';
+import { drawBubble } from './bubbleRenderer';
+import { drawCameraFeed } from './cameraFeed';
+import { DEFAULT_CALIBRATION, getPinchDist } from './handCalibration';
+import { PinchDetector, PointFilter, createOneEuroFilter, createPinchDetector } from './handFilter';
+import { SlingshotController, createSlingshotController } from './slingshotInput';
+import { Swords, XCircle, Loader2, RotateCcw, Crown, BrainCircuit, Hand } from 'lucide-react';
+
+const POP_DURATION = 350;
+const PHYSICS_STEP_MS = 1000 / 30;
+const MAX_STEPS_PER_FRAME = 5;
+
+const PLAYERS = [
+  { name: 'Player 1', color: '#38bdf8' },
+  { name: 'Player 2', color: '#f472b6' }
+];
+
+type Player = 0 | 1;
+type HandAssignment = 'side' | 'handedness';
+
+interface VersusArenaProps {
+  profile: UserProfile; // Topic, difficulty and teacher questions shared by both players
+  handFeed: React.MutableRefObject<((results: any) => void) | null>; // Set while open; receives every MediaPipe result
+  privacy: PrivacyMode;
+  playSound: (type: 'shoot' | 'pop' | 'hit' | 'correct' | 'incorrect' | 'win') => void;
+  onClose: () => void;
+}
+
+// One player's slingshot, in board coordinates
+interface PlayerInput {
+  hand: { landmarks: any; pos: Point; pinchDist: number; pinching: boolean } | null;
+  ball: { current: Point };
+  anchor: { current: Point };
+  slingshot: SlingshotController; // Grabbed by this player's hand only
+  filter: PointFilter;
+  pinch: PinchDetector; // Shared default thresholds; players aren't calibrated individually here
+}
+
+interface PlayerQuiz {
+  question: QuizQuestion | null; // null while loading
+  answer: string;
+  result: 'correct' | 'incorrect' | null;
+}
+
+interface PoppingBubble {
+  bubble: Bubble;
+  popTime: number;
+}
+
+/*
+ * Every canvas is mirrored by CSS, so the board drawn on the right half of
+ * the canvas shows up on the left of the screen: that one belongs to
+ * Player 1, together with the hand seen on that side.
+ */
+const boardOffset = (player: Player, boardWidth: number) => player === 0 ? boardWidth : 0;
+
+// MediaPipe labels handedness for a mirrored image; the raw webcam frame swaps them, so "Right" is the player's left hand
+const playerForHand = (assignment: HandAssignment, canvasX: number, boardWidth: number, label?: string): Player =>
+  assignment === 'handedness' && label ? (label === 'Right' ? 0 : 1) : (canvasX >= boardWidth ? 0 : 1);
+
+const VersusArena: React.FC<VersusArenaProps> = ({ profile, handFeed, privacy, playSound, onClose }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const versusRef = useRef<VersusState | null>(null);
+  const inputs = useRef<PlayerInput[]>([]);
+  const popping = useRef<PoppingBubble[][]>([[], []]);
+  const latestResults = useRef<any>(null);
+  const assignmentRef = useRef<HandAssignment>('side');
+  const privacyRef = useRef(privacy); // Read by the render loop
+  const resolveTimers = useRef<number[]>([]); // Correct answers waiting to pop, cleared on rematch and close
+  const boardSize = useRef({ width: 0, height: 0 });
+
+  const [scores, setScores] = useState([0, 0]);
+  const [ammo, setAmmo] = useState<BubbleColor[]>(['red', 'red']);
+  const [quizzes, setQuizzes] = useState<(PlayerQuiz | null)[]>([null, null]);
+  const [incoming, setIncoming] = useState([0, 0]); // Garbage rows just received, shown briefly
+  const [winner, setWinner] = useState<Player | null>(null);
+  const [assignment, setAssignment] = useState<HandAssignment>('side');
+  const [handsSeen, setHandsSeen] = useState(0);
+
+  useEffect(() => { assignmentRef.current = assignment; }, [assignment]);
+  useEffect(() => { privacyRef.current = privacy; }, [privacy]);
+
+  const startMatch = () => {
+      const { width, height } = boardSize.current;
+      versusRef.current = createVersus({ width, height, difficulty: profile.difficulty, seed: randomSeed() });
+      const anchor = getAnchor(width, height);
+      inputs.current = ([0, 1] as Player[]).map(player => {
+          const ball = { current: { ...anchor } };
+          const anchorRef = { current: anchor };
+          return { hand: null, ball, anchor: anchorRef, slingshot: createSlingshotController(ball, anchorRef, () => canAim(player)), filter: createOneEuroFilter(), pinch: createPinchDetector() };
+      });
+      popping.current = [[], []];
+      resolveTimers.current.forEach(clearTimeout);
+      resolveTimers.current = [];
+      setQuizzes([null, null]);
+      setIncoming([0, 0]);
+      setWinner(null);
+      syncHud();
+  };
+
+  const canAim = (player: Player) => {
+      const versus = versusRef.current;
+      const board = versus?.boards[player];
+      return !!board && versus.winner === null && !board.projectile && board.pendingMatch.length === 0 && !board.gameOver;
+  };
+
+  const syncHud = () => {
+      const versus = versusRef.current;
+      if (!versus) return;
+      setScores(versus.boards.map(b => b.score));
+      setAmmo(versus.boards.map(b => b.currentAmmo));
+  };
+
+  const askQuestion = async (player: Player) => {
+      setQuizzes(prev => prev.map((q, i) => i === player ? { question: null, answer: '', result: null } : q));
+      let question: QuizQuestion;
+      if (profile.customQuestions && profile.customQuestions.length > 0) {
+          question = profile.customQuestions[Math.floor(Math.random() * profile.customQuestions.length)];
+      } else {
+          question = (await generateQuizQuestion(profile.topic, profile.className, profile.difficulty)).quiz;
+      }
+      setQuizzes(prev => prev.map((q, i) => i === player && q ? { ...q, question } : q));
+  };
+
+  const handleEvents = (player: Player, events: EngineEvent[]) => {
+      const now = performance.now();
+      events.forEach(ev => {
+          switch (ev.type) {
+              case 'launched':
+                  playSound('shoot');
+                  break;
+              case 'landed':
+                  playSound('hit');
+                  break;
+              case 'matchPending':
+                  askQuestion(player);
+                  break;
+              case 'matched':
+              case 'avalanche':
+                  ev.bubbles.forEach(b => popping.current[player].push({ bubble: b, popTime: now }));
+                  playSound('pop');
+                  break;
+              case 'bombBlast':
+                  [ev.origin, ...ev.bubbles].forEach(b => popping.current[player].push({ bubble: b, popTime: now }));
+                  playSound('pop');
+                  break;
+              case 'garbageReceived':
+                  setIncoming(prev => prev.map((n, i) => i === player ? ev.rows : n));
+                  setTimeout(() => setIncoming(prev => prev.map((n, i) => i === player ? 0 : n)), 1500);
+                  break;
+          }
+      });
+  };
+
+  const applyInput = (player: Player, input: EngineInput) => {
+      const versus = versusRef.current;
+      if (!versus || versus.winner !== null) return [];
+      const { state, events } = stepVersus(versus, player, input);
+      versusRef.current = state;
+      handleEvents(0, events[0]);
+      handleEvents(1, events[1]);
+      if (events[0].length > 0 || events[1].length > 0) syncHud();
+      if (state.winner !== null) {
+          setWinner(state.winner);
+          setQuizzes([null, null]);
+          playSound('win');
+      }
+      return events[player];
+  };
+
+  const resolveQuiz = (player: Player, awarded: boolean) => {
+      applyInput(player, { type: 'resolveMatch', awarded, correct: awarded });
+      setQuizzes(prev => prev.map((q, i) => i === player ? null : q));
+  };
+
+  const submitAnswer = (player: Player, e: React.FormEvent) => {
+      e.preventDefault();
+      const quiz = quizzes[player];
+      if (!quiz?.question || quiz.result) return;
+      const normalize = (s: string) => s.trim().toLowerCase().replace(/[.,!]/g, '');
+      const correct = normalize(quiz.answer) === normalize(quiz.question.answer);
+      setQuizzes(prev => prev.map((q, i) => i === player && q ? { ...q, result: correct ? 'correct' : 'incorrect' } : q));
+      playSound(correct ? 'correct' : 'incorrect');
+      if (correct) resolveTimers.current.push(window.setTimeout(() => resolveQuiz(player, true), 1000));
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    if (!canvas || !container) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    canvas.width = container.clientWidth;
+    canvas.height = container.clientHeight;
+    boardSize.current = { width: Math.floor(canvas.width / 2), height: canvas.height };
+    startMatch();
+
+    let frameId = 0;
+    let accumulator = 0;
+    let lastFrame = performance.now();
+    let processedResults: any = null;
+
+    handFeed.current = (results: any) => { latestResults.current = results; };
+
+    // Assigns each detected hand to a player (first hand wins a side), then runs grab / drag / release
+    const processHands = (results: any) => {
+      const versus = versusRef.current;
+      if (!versus) return;
+      const { width } = boardSize.current;
+      const landmarksList: any[] = results.multiHandLandmarks || [];
+      const seen: ({ landmarks: any; pos: Point; pinchDist: number } | null)[] = [null, null];
+      landmarksList.forEach((landmarks, i) => {
+          const x = (landmarks[8].x + landmarks[4].x) / 2 * canvas.width;
+          const y = (landmarks[8].y + landmarks[4].y) / 2 * canvas.height;
+          const player = playerForHand(assignmentRef.current, x, width, results.multiHandedness?.[i]?.label);
+          if (seen[player]) return;
+          seen[player] = { landmarks, pos: { x: x - boardOffset(player, width), y }, pinchDist: getPinchDist(landmarks) };
+      });
+      setHandsSeen(landmarksList.length);
+      const now = performance.now();
+
+      ([0, 1] as Player[]).forEach(player => {
+          const input = inputs.current[player];
+          const raw = seen[player];
+          // Filter per player; a lost hand counts as opening, so the release debounce covers tracker dropouts
+          const pinching = input.pinch.update(DEFAULT_CALIBRATION, raw ? raw.pinchDist : Infinity, now);
+          if (raw) {
+              input.hand = { ...raw, pos: input.filter.filter(raw.pos, now), pinching };
+          } else {
+              input.hand = null;
+              if (!pinching) input.filter.reset();
+          }
+
+          const { slingshot, ball, anchor } = input;
+          if (pinching) {
+              if (input.hand && slingshot.getSource() === 'hand') slingshot.drag('hand', input.hand.pos);
+              else if (input.hand) slingshot.grab('hand', input.hand.pos);
+          } else if (slingshot.release('hand')) {
+              const events = applyInput(player, { type: 'shot', dx: anchor.current.x - ball.current.x, dy: anchor.current.y - ball.current.y });
+              if (!events.some(e => e.type === 'launched')) ball.current = { ...anchor.current };
+          }
+      });
+    };
+
+    const fixedUpdate = () => {
+      ([0, 1] as Player[]).forEach(player => {
+          const { slingshot, ball, anchor } = inputs.current[player];
+          applyInput(player, { type: 'tick', dt: PHYSICS_STEP_MS, holdDrop: slingshot.getSource() !== null });
+          const projectile = versusRef.current?.boards[player].projectile;
+          if (projectile) ball.current = { x: projectile.x, y: projectile.y };
+          else if (slingshot.getSource() === null) ball.current = { x: ball.current.x + (anchor.current.x - ball.current.x) * 0.15, y: ball.current.y + (anchor.current.y - ball.current.y) * 0.15 };
+      });
+    };
+
+    const drawBoard = (player: Player, now: number) => {
+      const versus = versusRef.current!;
+      const board = versus.boards[player];
+      const input = inputs.current[player];
+      const ball = input.ball.current;
+      const { width, height } = boardSize.current;
+      ctx.save();
+      ctx.translate(boardOffset(player, width), 0);
+      ctx.beginPath(); ctx.rect(0, 0, width, height); ctx.clip();
+
+      popping.current[player] = popping.current[player].filter(p => now - p.popTime < POP_DURATION);
+      popping.current[player].forEach(p => {
+          const progress = (now - p.popTime) / POP_DURATION;
+          ctx.save();
+          ctx.globalAlpha = 1 - progress;
+          ctx.translate(p.bubble.x, p.bubble.y);
+          ctx.scale(1 + progress * 0.5, 1 + progress * 0.5);
+          drawBubble(ctx, 0, 0, BUBBLE_RADIUS, p.bubble.color, false, false, p.bubble.kind, false, p.bubble.letter);
+          ctx.restore();
+      });
+      const pending = new Set(board.pendingMatch);
+      board.bubbles.forEach(b => drawBubble(ctx, b.x, b.y, BUBBLE_RADIUS - 1, b.color, pending.has(b.id), false, b.kind, b.cracked, b.letter));
+
+      // Danger Line
+      const dangerY = getDangerY(height);
+      ctx.beginPath(); ctx.moveTo(0, dangerY); ctx.lineTo(width, dangerY);
+      ctx.strokeStyle = 'rgba(239, 68, 68, 0.4)'; ctx.setLineDash([8, 8]); ctx.lineWidth = 2; ctx.stroke(); ctx.setLineDash([]);
+
+      // Slingshot & Ball
+      const anchor = getAnchor(width, height);
+      ctx.beginPath();
+      ctx.moveTo(anchor.x, height); ctx.lineTo(anchor.x, anchor.y + 50);
+      ctx.moveTo(anchor.x - 35, anchor.y); ctx.quadraticCurveTo(anchor.x, anchor.y + 50, anchor.x + 35, anchor.y);
+      ctx.strokeStyle = '#92400e'; ctx.lineWidth = 10; ctx.lineCap = 'round'; ctx.stroke();
+      if (!board.projectile) {
+          ctx.beginPath();
+          ctx.moveTo(anchor.x - 35, anchor.y); ctx.lineTo(ball.x, ball.y); ctx.lineTo(anchor.x + 35, anchor.y);
+          ctx.strokeStyle = input.slingshot.getSource() !== null ? '#fcd34d' : 'rgba(252, 211, 77, 0.4)'; ctx.lineWidth = 5; ctx.stroke();
+      }
+      if (!board.gameOver) drawBubble(ctx, ball.x, ball.y, BUBBLE_RADIUS, board.currentAmmo);
+      drawBubble(ctx, anchor.x + 70, anchor.y + 30, BUBBLE_RADIUS * 0.6, board.nextAmmo);
+
+      // Cursor
+      if (input.hand) {
+          ctx.beginPath();
+          ctx.arc(input.hand.pos.x, input.hand.pos.y, 30, 0, Math.PI * 2);
+          ctx.strokeStyle = input.hand.pinching ? '#4ade80' : PLAYERS[player].color;
+          ctx.lineWidth = 3;
+          ctx.setLineDash(input.hand.pinching ? [] : [4, 4]);
+          ctx.stroke();
+          ctx.setLineDash([]);
+      }
+      ctx.restore();
+    };
+
+    const loop = () => {
+      frameId = requestAnimationFrame(loop);
+      const now = performance.now();
+      const results = latestResults.current;
+      if (results && results !== processedResults) {
+          processedResults = results;
+          processHands(results);
+      }
+
+      accumulator += now - lastFrame;
+      lastFrame = now;
+      let steps = 0;
+      while (accumulator >= PHYSICS_STEP_MS && steps < MAX_STEPS_PER_FRAME) {
+          fixedUpdate();
+          accumulator -= PHYSICS_STEP_MS;
+          steps++;
+      }
+      if (steps === MAX_STEPS_PER_FRAME) accumulator = 0;
+
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      drawCameraFeed(ctx, results, privacyRef.current);
+      ctx.fillStyle = 'rgba(15, 23, 42, 0.75)';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      if (versusRef.current) {
+          drawBoard(0, now);
+          drawBoard(1, now);
+      }
+      ctx.beginPath(); ctx.moveTo(boardSize.current.width, 0); ctx.lineTo(boardSize.current.width, canvas.height);
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)'; ctx.lineWidth = 2; ctx.stroke();
+    };
+    frameId = requestAnimationFrame(loop);
+
+    return () => { cancelAnimationFrame(frameId); handFeed.current = null; resolveTimers.current.forEach(clearTimeout); };
+  }, []);
+
+  return (
+    <div ref={containerRef} className="absolute inset-0 z-[85] bg-slate-950">
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+
+      {/* Header */}
+      <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 bg-slate-900/80 backdrop-blur-md pl-4 pr-2 py-2 rounded-full border border-white/10 shadow-lg flex items-center gap-3">
+          <Swords className="w-5 h-5 text-amber-400" />
+          <span className="font-bold text-white text-sm">Versus</span>
+          <select
+              value={assignment}
+              onChange={(e) => setAssignment(e.target.value as HandAssignment)}
+              className="bg-black/30 text-xs text-slate-300 rounded-full px-3 py-1.5 ring-1 ring-white/10 outline-none cursor-pointer"
+              title="How hands are matched to players"
+          >
+              <option value="side" className="bg-slate-800">Hands by screen side</option>
+              <option value="handedness" className="bg-slate-800">Left hand P1, right hand P2</option>
+          </select>
+          <button onClick={onClose} className="p-1.5 bg-white/5 rounded-full hover:bg-white/10"><XCircle className="w-5 h-5 text-slate-400" /></button>
+      </div>
+
+      {handsSeen < 2 && winner === null && (
+          <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-10 text-xs text-slate-400 bg-slate-900/70 px-4 py-2 rounded-full flex items-center gap-2">
+              <Hand className="w-4 h-4" /> {handsSeen === 0 ? 'Show two hands to the camera' : 'Waiting for the second hand'}
+          </div>
+      )}
+
+      {([0, 1] as Player[]).map(player => {
+          const quiz = quizzes[player];
+          return (
+              <div key={player} className={`absolute top-0 bottom-0 w-1/2 pointer-events-none ${player === 0 ? 'left-0' : 'right-0'}`}>
+                  {/* Player HUD */}
+                  <div className={`absolute top-4 ${player === 0 ? 'left-4' : 'right-4'} bg-slate-900/70 backdrop-blur-md px-4 py-2 rounded-2xl border shadow-lg flex items-center gap-3`} style={{ borderColor: PLAYERS[player].color }}>
+                      <div className="w-6 h-6 rounded-full ring-2 ring-white/30" style={{ background: COLOR_CONFIG[ammo[player]].hex }} />
+                      <div>
+                          <p className="text-[10px] font-bold uppercase tracking-widest" style={{ color: PLAYERS[player].color }}>{PLAYERS[player].name}</p>
+                          <p className="text-xl font-bold text-white leading-none">{scores[player].toLocaleString()}</p>
+                      </div>
+                      {incoming[player] > 0 && <span className="text-xs font-bold text-red-300 bg-red-500/20 px-2 py-1 rounded-full animate-pulse">+{incoming[player]} rows!</span>}
+                  </div>
+
+                  {/* Player Quiz */}
+                  {quiz && (
+                      <div className="absolute inset-x-6 top-24 pointer-events-auto bg-slate-900/90 backdrop-blur-xl rounded-3xl border border-white/10 shadow-2xl p-6 animate-in zoom-in duration-300">
+                          <p className="text-xs font-bold uppercase tracking-widest mb-3 flex items-center gap-2" style={{ color: PLAYERS[player].color }}><BrainCircuit className="w-4 h-4" /> {PLAYERS[player].name}: solve to pop!</p>
+                          {!quiz.question ? (
+                              <div className="py-6 flex justify-center"><Loader2 className="w-8 h-8 text-sky-400 animate-spin" /></div>
+                          ) : (
+                              <>
+                                  <p className="text-lg font-bold text-white mb-4">{quiz.question.question}</p>
+                                  {quiz.question.options && quiz.question.options.length > 0 && (
+                                      <div className="flex flex-wrap gap-2 mb-4">
+                                          {quiz.question.options.map((opt, i) => <span key={i} className="px-3 py-1 bg-white/5 rounded-lg text-sm text-slate-300">{opt}</span>)}
+                                      </div>
+                                  )}
+                                  {!quiz.result ? (
+                                      <form onSubmit={(e) => submitAnswer(player, e)} className="flex gap-2">
+                                          <input
+                                              type="text"
+                                              value={quiz.answer}
+                                              onChange={(e) => { const answer = e.target.value; setQuizzes(prev => prev.map((q, i) => i === player && q ? { ...q, answer } : q)); }}
+                                              className="flex-1 bg-black/30 rounded-xl py-2 px-4 text-white ring-1 ring-white/20 focus:ring-2 focus:ring-sky-500 outline-none"
+                                              placeholder="Type answer..."
+                                          />
+                                          <button type="submit" className="bg-sky-600 hover:bg-sky-500 text-white font-bold px-4 rounded-xl">OK</button>
+                                      </form>
+                                  ) : (
+                                      <p className={`text-sm font-bold ${quiz.result === 'correct' ? 'text-green-300' : 'text-red-300'}`}>
+                                          {quiz.result === 'correct' ? 'Brilliant!' : <>Not quite. Answer: <b>{quiz.question.answer}</b></>}
+                                      </p>
+                                  )}
+                              </>
+                          )}
+                          {quiz.result !== 'correct' && (
+                              <button onClick={() => resolveQuiz(player, false)} className="mt-4 text-slate-500 hover:text-slate-300 text-xs font-bold uppercase tracking-widest">
+                                  {quiz.result === 'incorrect' ? 'Continue' : 'Skip'}
+                              </button>
+                          )}
+                      </div>
+                  )}
+              </div>
+          );
+      })}
+
+      {/* Result */}
+      {winner !== null && (
+          <div className="absolute inset-0 z-20 bg-black/60 backdrop-blur-lg flex items-center justify-center">
+              <div className="bg-slate-900/90 backdrop-blur-xl p-10 rounded-[3rem] border border-amber-500/30 shadow-2xl flex flex-col items-center text-center max-w-sm animate-in zoom-in duration-500">
+                  <div className="bg-amber-900/30 p-6 rounded-full mb-6 ring-1 ring-amber-500/50">
+                      <Crown className="w-12 h-12 text-amber-400" />
+                  </div>
+                  <h2 className="text-4xl font-bold mb-2" style={{ color: PLAYERS[winner].color }}>{PLAYERS[winner].name} Wins!</h2>
+                  <p className="text-slate-400 mb-8">{scores[0].toLocaleString()} - {scores[1].toLocaleString()}</p>
+                  <div className="flex gap-3 w-full">
+                      <button onClick={startMatch} className="flex-1 bg-amber-500 hover:bg-amber-400 text-black font-bold py-3 rounded-xl flex items-center justify-center gap-2"><RotateCcw className="w-4 h-4" /> Rematch</button>
+                      <button onClick={onClose} className="flex-1 bg-white/5 border border-white/10 text-slate-300 font-bold py-3 rounded-xl hover:bg-white/10">Leave</button>
+                  </div>
+              </div>
+          </div>
+      )}
+    </div>
+  );
+};
+
+export default VersusArena;
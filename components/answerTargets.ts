@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Point, QuizQuestion } from '../types';
+import { advanceFlight } from '../engine/gameEngine';
+import { createRng, randomSeed, shuffle } from '../engine/rng';
+import { BUBBLE_RADIUS, MAX_FLIGHT_TICKS } from '../engine/config';
+
+// Hands-free quiz answers, drawn on the canvas over the board. Choices are round targets to shoot or
+// pinch; a rearrange question becomes word tiles dragged (or shot, one by one) into the answer row.
+// Positions are canvas pixels; the canvas is mirrored by CSS, so screen left-to-right is canvas right-to-left.
+
+export interface AnswerTarget {
+  text: string;
+  x: number;
+  y: number;
+  radius: number;
+}
+
+export interface WordTile {
+  text: string;
+  x: number; // Center
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type AnswerBoard =
+  | { kind: 'choice'; targets: AnswerTarget[] }
+  | { kind: 'arrange'; tiles: WordTile[]; placed: number[] }; // placed: tile indices in answer order; the rest wait in the pool
+
+const MAX_CHOICES = 6;
+const CHOICE_ROW = 0.5; // Fractions of the canvas height, below the question card
+export const ANSWER_ROW = 0.42;
+const POOL_ROW = 0.58;
+const TILE_HEIGHT = 48;
+const TILE_GAP = 12;
+
+const normalize = (s: string) => s.trim().toLowerCase().replace(/[.,!?]/g, '');
+
+/** How the question can be answered without typing, or null when its options don't fit the answer. */
+export const getAnswerMode = (question: QuizQuestion): AnswerBoard['kind'] | null => {
+  const options = (question.options || []).filter(o => o.trim());
+  if (options.length < 2) return null;
+  if (question.type === 'rearrange') {
+    const sortWords = (words: string[]) => words.map(normalize).sort().join(' ');
+    return sortWords(options) === sortWords(question.answer.split(/\s+/)) ? 'arrange' : null;
+  }
+  return options.length <= MAX_CHOICES && options.some(o => normalize(o) === normalize(question.answer)) ? 'choice' : null;
+};
+
+// Centers for items of the given widths in one row, in reading order on screen
+const layoutRow = (widths: number[], canvasWidth: number): number[] => {
+  const total = widths.reduce((sum, w) => sum + w, 0) + TILE_GAP * Math.max(0, widths.length - 1);
+  let screenX = (canvasWidth - total) / 2;
+  return widths.map(w => {
+    const center = screenX + w / 2;
+    screenX += w + TILE_GAP;
+    return canvasWidth - center;
+  });
+};
+
+/** Recomputes every position for this canvas size, e.g. after a resize or a tile move. */
+export const layoutAnswerBoard = (board: AnswerBoard, width: number, height: number): AnswerBoard => {
+  if (board.kind === 'choice') {
+    const n = board.targets.length;
+    const radius = Math.min(70, width / (n + 1) / 2 - 8);
+    return {
+      ...board,
+      targets: board.targets.map((t, i) => ({ ...t, x: width - width * (i + 1) / (n + 1), y: height * CHOICE_ROW, radius }))
+    };
+  }
+  // Long sentences shrink to fit the widest row
+  const natural = board.tiles.map(t => 28 + t.text.length * 14);
+  const scale = Math.min(1, (width * 0.9) / (natural.reduce((sum, w) => sum + w, 0) + TILE_GAP * natural.length));
+  const tiles = board.tiles.map((t, i) => ({ ...t, width: natural[i] * scale, height: TILE_HEIGHT * Math.max(0.7, scale) }));
+  const pool = tiles.map((_, i) => i).filter(i => !board.placed.includes(i));
+  const place = (row: number[], y: number) => layoutRow(row.map(i => tiles[i].width), width).forEach((x, k) => { tiles[row[k]].x = x; tiles[row[k]].y = y; });
+  place(board.placed, height * ANSWER_ROW);
+  place(pool, height * POOL_ROW);
+  return { ...board, tiles };
+};
+
+export const createAnswerBoard = (question: QuizQuestion, width: number, height: number): AnswerBoard | null => {
+  const mode = getAnswerMode(question);
+  if (!mode) return null;
+  const options = question.options!.filter(o => o.trim());
+  // Choices are shuffled so the answer doesn't sit in the slot it was listed in; arrange options already come scrambled
+  const board: AnswerBoard = mode === 'choice'
+    ? { kind: 'choice', targets: shuffle(createRng(randomSeed()), options).map(text => ({ text, x: 0, y: 0, radius: 0 })) }
+    : { kind: 'arrange', tiles: options.map(text => ({ text, x: 0, y: 0, width: 0, height: 0 })), placed: [] };
+  return layoutAnswerBoard(board, width, height);
+};
+
+/** Index of the target or tile under the point, with some slack around it. */
+export const findAnswerTarget = (board: AnswerBoard, point: Point, slack = 0): number | null => {
+  const index = board.kind === 'choice'
+    ? board.targets.findIndex(t => Math.sqrt(Math.pow(point.x - t.x, 2) + Math.pow(point.y - t.y, 2)) < t.radius + slack)
+    : board.tiles.findIndex(t => Math.abs(point.x - t.x) < t.width / 2 + slack && Math.abs(point.y - t.y) < t.height / 2 + slack);
+  return index >= 0 ? index : null;
+};
+
+/** Drops a dragged tile: above the middle of the two rows it joins the answer where it lands, below it goes back to the pool. */
+export const dropTile = (board: Extract<AnswerBoard, { kind: 'arrange' }>, index: number, point: Point, width: number, height: number): AnswerBoard => {
+  const placed = board.placed.filter(i => i !== index);
+  if (point.y < height * (ANSWER_ROW + POOL_ROW) / 2) {
+    // Screen order runs right to left on the canvas
+    const before = placed.filter(i => board.tiles[i].x > point.x).length;
+    placed.splice(before, 0, index);
+  }
+  return layoutAnswerBoard({ ...board, placed }, width, height);
+};
+
+/** A shot tile joins the end of the answer, or leaves it if it was already placed. */
+export const toggleTile = (board: Extract<AnswerBoard, { kind: 'arrange' }>, index: number, width: number, height: number): AnswerBoard => {
+  const placed = board.placed.includes(index) ? board.placed.filter(i => i !== index) : [...board.placed, index];
+  return layoutAnswerBoard({ ...board, placed }, width, height);
+};
+
+export const getArrangedAnswer = (board: Extract<AnswerBoard, { kind: 'arrange' }>) => board.placed.map(i => board.tiles[i].text).join(' ');
+
+/** Flight of a slingshot shot over the answers, one point per physics step, and what it hits first. */
+export const traceAnswerShot = (from: Point, velocity: { vx: number, vy: number }, width: number, height: number, board: AnswerBoard) => {
+  const p = { x: from.x, y: from.y, vx: velocity.vx, vy: velocity.vy };
+  const path: Point[] = [];
+  for (let tick = 0; tick < MAX_FLIGHT_TICKS; tick++) {
+    const stopped = advanceFlight(p, width, pos => findAnswerTarget(board, pos, BUBBLE_RADIUS * 0.5) !== null);
+    path.push({ x: p.x, y: p.y });
+    // Stopped at the ceiling unless an answer was reached
+    if (stopped) return { path, hit: findAnswerTarget(board, p, BUBBLE_RADIUS * 0.5) };
+    if (p.y > height) return { path, hit: null };
+  }
+  return { path, hit: null };
+};
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BubbleColor, BubbleKind } from '../types';
+import { COLOR_CONFIG, COLOR_KEYS } from '../engine/config';
+
+// Canvas drawing shared by the game and the replay viewer
+
+export const adjustColor = (color: string, amount: number) => {
+    const hex = color.replace('#', '');
+    const r = Math.max(0, Math.min(255, parseInt(hex.substring(0, 2), 16) + amount));
+    const g = Math.max(0, Math.min(255, parseInt(hex.substring(2, 4), 16) + amount));
+    const b = Math.max(0, Math.min(255, parseInt(hex.substring(4, 6), 16) + amount));
+    
+    const componentToHex = (c: number) => {
+        const hex = c.toString(16);
+        return hex.length === 1 ? "0" + hex : hex;
+    };
+    
+    return "#" + componentToHex(r) + componentToHex(g) + componentToHex(b);
+};
+
+const STONE_COLOR = '#78716c';
+const BOMB_COLOR = '#1e293b';
+
+// Colorless kinds ignore the bubble's color entirely
+const getBodyColor = (colorKey: BubbleColor, kind: BubbleKind) => {
+    if (kind === 'stone') return STONE_COLOR;
+    if (kind === 'bomb') return BOMB_COLOR;
+    return COLOR_CONFIG[colorKey].hex;
+};
+
+const drawCracks = (ctx: CanvasRenderingContext2D, x: number, y: number, radius: number, color: string) => {
+    ctx.save();
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    ctx.moveTo(x - radius * 0.6, y - radius * 0.2); ctx.lineTo(x - radius * 0.1, y + radius * 0.05); ctx.lineTo(x + radius * 0.15, y - radius * 0.45);
+    ctx.moveTo(x - radius * 0.1, y + radius * 0.05); ctx.lineTo(x + radius * 0.25, y + radius * 0.55);
+    ctx.moveTo(x + radius * 0.15, y + radius * 0.2); ctx.lineTo(x + radius * 0.6, y + radius * 0.1);
+    ctx.stroke();
+    ctx.restore();
+};
+
+export const drawBubble = (ctx: CanvasRenderingContext2D, x: number, y: number, radius: number, colorKey: BubbleColor, isHighlighted: boolean = false, isHint: boolean = false, kind: BubbleKind = 'normal', cracked: boolean = false, letter?: string) => {
+    const baseColor = getBodyColor(colorKey, kind);
+  
+    // Hint Glow
+    if (isHint) {
+        const pulse = (Math.sin(performance.now() / 150) + 1) / 2;
+        ctx.save();
+        ctx.beginPath();
+        ctx.arc(x, y, radius + 4, 0, Math.PI * 2);
+        ctx.strokeStyle = `rgba(255, 255, 255, ${0.7 + pulse * 0.3})`;
+        ctx.lineWidth = 4;
+        ctx.shadowBlur = 15;
+        ctx.shadowColor = baseColor; // Colored glow for vibrancy
+        ctx.stroke();
+        ctx.restore();
+    }
+
+    // Main Body - Vibrant Gradient (Rainbow: color wheel)
+    let grad: CanvasGradient;
+    if (kind === 'rainbow') {
+        grad = ctx.createConicGradient(performance.now() / 800, x, y);
+        COLOR_KEYS.forEach((c, i) => grad.addColorStop(i / COLOR_KEYS.length, COLOR_CONFIG[c].hex));
+        grad.addColorStop(1, COLOR_CONFIG[COLOR_KEYS[0]].hex);
+    } else {
+        grad = ctx.createRadialGradient(x - radius * 0.3, y - radius * 0.3, radius * 0.1, x, y, radius);
+        grad.addColorStop(0, kind === 'stone' ? '#d6d3d1' : '#ffffff'); // Highlight point            
+        grad.addColorStop(0.2, baseColor); // Main color start earlier for vibrancy           
+        grad.addColorStop(1, adjustColor(baseColor, -40)); // Deep shadow for volume
+    }
+
+    ctx.save();
+    // Strong shadow for pop against dark background
+    ctx.shadowColor = 'rgba(0,0,0,0.5)';
+    ctx.shadowBlur = 6;
+    ctx.shadowOffsetY = 3;
+  
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fillStyle = grad;
+    ctx.fill();
+    ctx.restore();
+
+    if (kind === 'stone') {
+        drawCracks(ctx, x, y, radius, 'rgba(41, 37, 36, 0.7)');
+        return; // Matte: no gloss
+    }
+
+    if (kind === 'bomb') {
+        // Fuse & Spark
+        const flicker = (Math.sin(performance.now() / 60) + 1) / 2;
+        ctx.beginPath();
+        ctx.moveTo(x + radius * 0.45, y - radius * 0.75);
+        ctx.quadraticCurveTo(x + radius * 0.7, y - radius * 1.1, x + radius * 0.95, y - radius * 0.95);
+        ctx.strokeStyle = '#a8a29e';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.arc(x + radius * 0.95, y - radius * 0.95, radius * (0.15 + flicker * 0.12), 0, Math.PI * 2);
+        ctx.fillStyle = flicker > 0.5 ? '#fde047' : '#fb923c';
+        ctx.fill();
+    }
+
+    if (kind === 'ice') {
+        // Frosted shell over the color; cracks once it has been hit
+        ctx.beginPath();
+        ctx.arc(x, y, radius, 0, Math.PI * 2);
+        ctx.fillStyle = 'rgba(224, 242, 254, 0.45)';
+        ctx.fill();
+        ctx.strokeStyle = 'rgba(186, 230, 253, 0.9)';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+        if (cracked) drawCracks(ctx, x, y, radius, 'rgba(255, 255, 255, 0.9)');
+    }
+
+    // Sharp Highlight (Glossy Gem Look)
+    ctx.beginPath();
+    ctx.ellipse(x - radius * 0.3, y - radius * 0.35, radius * 0.25, radius * 0.12, Math.PI / 4, 0, Math.PI * 2);
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+    ctx.fill();
+
+    // Letter Bubbles: canvases are mirrored by CSS, so flip the glyph back to read normally
+    if (letter) {
+        ctx.save();
+        ctx.translate(x, y);
+        ctx.scale(-1, 1);
+        ctx.font = `bold ${Math.round(radius * 1.1)}px sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.lineWidth = 3;
+        ctx.strokeStyle = 'rgba(15, 23, 42, 0.85)';
+        ctx.strokeText(letter, 0, 1);
+        ctx.fillStyle = '#ffffff';
+        ctx.fillText(letter, 0, 1);
+        ctx.restore();
+    }
+};
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { HandResults, PrivacyMode } from '../types';
+
+// Camera picture behind the game, Versus and the calibration wizard. Only 'off' ever draws the picture at full
+// size: blur shrinks it to a few dozen pixels first (no ctx.filter, which not every browser applies), and
+// silhouette draws nothing but the tracked hands.
+
+const BLUR_WIDTH = 48;
+const SILHOUETTE_COLOR = 'rgba(148, 163, 184, 0.45)';
+
+// Finger bones between the 21 landmarks, and the palm outline
+const HAND_BONES = [[1, 2], [2, 3], [3, 4], [5, 6], [6, 7], [7, 8], [9, 10], [10, 11], [11, 12], [13, 14], [14, 15], [15, 16], [17, 18], [18, 19], [19, 20]];
+const PALM = [0, 1, 5, 9, 13, 17];
+
+let blurCanvas: HTMLCanvasElement | null = null;
+
+const drawSilhouette = (ctx: CanvasRenderingContext2D, hand: HandResults['multiHandLandmarks'][number], width: number, height: number) => {
+  const pt = (i: number) => ({ x: hand[i].x * width, y: hand[i].y * height });
+  const handLength = Math.hypot(pt(9).x - pt(0).x, pt(9).y - pt(0).y);
+  ctx.fillStyle = SILHOUETTE_COLOR;
+  ctx.strokeStyle = SILHOUETTE_COLOR;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.lineWidth = handLength * 0.25;
+  ctx.beginPath();
+  PALM.forEach((i, k) => k === 0 ? ctx.moveTo(pt(i).x, pt(i).y) : ctx.lineTo(pt(i).x, pt(i).y));
+  ctx.closePath();
+  ctx.fill();
+  ctx.stroke();
+  ctx.beginPath();
+  HAND_BONES.forEach(([a, b]) => { ctx.moveTo(pt(a).x, pt(a).y); ctx.lineTo(pt(b).x, pt(b).y); });
+  ctx.stroke();
+};
+
+/** Fills the canvas with the camera picture in the given privacy mode; flip mirrors it back for unmirrored calibrations. */
+export const drawCameraFeed = (ctx: CanvasRenderingContext2D, results: HandResults | null, privacy: PrivacyMode, flip = false) => {
+  if (!results || privacy === 'hidden') return;
+  const { width, height } = ctx.canvas;
+  ctx.save();
+  if (flip) { ctx.translate(width, 0); ctx.scale(-1, 1); }
+  if (privacy === 'silhouette') {
+    results.multiHandLandmarks?.forEach(hand => drawSilhouette(ctx, hand, width, height));
+  } else if (results.image && privacy === 'blur') {
+    blurCanvas = blurCanvas || document.createElement('canvas');
+    blurCanvas.width = BLUR_WIDTH;
+    blurCanvas.height = Math.max(1, Math.round(BLUR_WIDTH * height / width));
+    const small = blurCanvas.getContext('2d');
+    if (small) {
+      small.drawImage(results.image, 0, 0, blurCanvas.width, blurCanvas.height);
+      ctx.imageSmoothingEnabled = true;
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(blurCanvas, 0, 0, width, height);
+    }
+  } else if (results.image) {
+    ctx.drawImage(results.image, 0, 0, width, height);
+  }
+  ctx.restore();
+};
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GestureSettings, HandGesture, Point } from '../types';
+
+// Hand poses and motions beyond the pinch, read from the 21 MediaPipe landmarks (0 wrist, 4 thumb tip, 8/12/16/20 finger tips).
+// Poses fire after being held still; a swipe fires once the hand has travelled far enough. Either way the
+// progress is reported first, so the player sees a gesture building up and can drop it before it fires.
+
+// How long each pose must be held
+export const GESTURE_HOLD_MS: Record<Exclude<HandGesture, 'swipe'>, number> = { openPalm: 1000, fist: 600, thumbsUp: 800 };
+
+const HOLD_DRIFT = 0.08; // A pose only counts while the hand stays within this much of the frame
+const SWIPE_DISTANCE = 0.35; // Fraction of the frame width the hand has to travel
+const SWIPE_WINDOW_MS = 400; // ...within this time
+const SWIPE_MAX_RISE = 0.15; // A swipe is sideways, not diagonal
+const SWIPE_SHOWN_FROM = 0.3; // Smaller movements are just moving about; no progress shown
+const SWIPE_COOLDOWN_MS = 800;
+
+// [tip, middle joint] of index, middle, ring and little finger
+const FINGERS = [[8, 6], [12, 10], [16, 14], [20, 18]];
+
+export interface GestureProgress {
+  gesture: HandGesture;
+  progress: number; // 0..1, fires at 1
+}
+
+export interface GestureRecognizer {
+  /** One camera frame; landmarks null when no free hand is in view. Returns what is building up and what just fired. */
+  update: (landmarks: any[] | null, enabled: Partial<GestureSettings>, time: number) => { active: GestureProgress | null, fired: HandGesture | null };
+  reset: () => void;
+}
+
+const dist = (a: any, b: any) => Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2));
+
+/** The pose the hand is making right now, if it is one of the held ones. */
+export const classifyPose = (landmarks: any[]): Exclude<HandGesture, 'swipe'> | null => {
+  const wrist = landmarks[0];
+  const handSize = dist(wrist, landmarks[9]);
+  // A finger is straight when its tip is clearly farther from the wrist than its middle joint
+  const straight = FINGERS.map(([tip, joint]) => dist(wrist, landmarks[tip]) > dist(wrist, landmarks[joint]) * 1.1);
+  const thumbOut = dist(landmarks[4], landmarks[5]) > handSize * 0.6;
+  if (straight.every(Boolean) && thumbOut) return 'openPalm';
+  if (straight.some(Boolean)) return null;
+  if (!thumbOut) return 'fist';
+  // Thumb sticking up from a closed hand
+  return landmarks[4].y < landmarks[3].y && landmarks[4].y < landmarks[5].y - handSize * 0.3 ? 'thumbsUp' : null;
+};
+
+export const createGestureRecognizer = (): GestureRecognizer => {
+  let held: { pose: Exclude<HandGesture, 'swipe'>, since: number, at: Point, fired: boolean } | null = null;
+  let trail: { x: number, y: number, time: number }[] = [];
+  let swipeBlockedUntil = 0;
+
+  return {
+    update: (landmarks, enabled, time) => {
+      if (!landmarks) {
+        held = null;
+        trail = [];
+        return { active: null, fired: null };
+      }
+      const palm: Point = { x: landmarks[9].x, y: landmarks[9].y };
+
+      // Held poses; after firing, the hand has to change pose before the same one can fire again
+      const pose = classifyPose(landmarks);
+      if (!pose || !enabled[pose]) {
+        held = null;
+      } else if (!held || held.pose !== pose || (!held.fired && dist(palm, held.at) > HOLD_DRIFT)) {
+        held = { pose, since: time, at: palm, fired: false };
+      }
+      let active: GestureProgress | null = null;
+      let fired: HandGesture | null = null;
+      if (held && !held.fired) {
+        const progress = Math.min(1, (time - held.since) / GESTURE_HOLD_MS[held.pose]);
+        if (progress >= 1) {
+          held.fired = true;
+          fired = held.pose;
+        } else {
+          active = { gesture: held.pose, progress };
+        }
+      }
+
+      // Swipe: sideways travel within the time window
+      trail = [...trail.filter(p => time - p.time <= SWIPE_WINDOW_MS), { ...palm, time }];
+      if (enabled.swipe && !fired && time >= swipeBlockedUntil) {
+        const first = trail[0];
+        const progress = Math.abs(palm.x - first.x) / SWIPE_DISTANCE;
+        if (Math.abs(palm.y - first.y) <= SWIPE_MAX_RISE && progress >= SWIPE_SHOWN_FROM) {
+          if (progress >= 1) {
+            fired = 'swipe';
+            active = null;
+            trail = [];
+            swipeBlockedUntil = time + SWIPE_COOLDOWN_MS;
+            // Whatever pose the hand swiped in doesn't also fire once it stops
+            if (held) held.fired = true;
+          } else if (!active || progress > active.progress) {
+            active = { gesture: 'swipe', progress };
+          }
+        }
+      }
+      return { active, fired };
+    },
+    reset: () => {
+      held = null;
+      trail = [];
+    }
+  };
+};
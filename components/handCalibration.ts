@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ActiveArea, HandCalibration, Handedness, Point } from '../types';
+
+// Per-player hand tracking: which hand aims, how far apart thumb and index are when pinched,
+// and which part of the camera frame the player can reach. The wizard derives these, the game applies them.
+
+// Suits most players; the wizard replaces it with measured values
+export const DEFAULT_CALIBRATION: HandCalibration = {
+  version: 1,
+  pinchGrab: 0.35,
+  pinchRelease: 0.5,
+  area: { minX: 0, minY: 0, maxX: 1, maxY: 1 },
+  mirror: true,
+  handedness: 'any',
+  calibratedAt: ''
+};
+
+export const PINCH_CYCLES = 3; // Pinches the wizard asks for
+const MIN_PINCH_RANGE = 0.2; // Open minus closed; less than this is noise, not a pinch yet
+const PINCH_GRAB_AT = 0.3; // Fractions of the way from closed to open
+const PINCH_RELEASE_AT = 0.5;
+const AREA_INSET = 0.05; // Reached corners land just outside the play area, so the edges need no full stretch
+const MIN_AREA_SPAN = 0.2; // Stops a bad corner from making the cursor uncontrollably fast
+
+const landmarkDist = (a: any, b: any) => Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2));
+
+/** Thumb tip to index tip in hand lengths (wrist to middle knuckle), so it reads the same near or far from the camera. */
+export const getPinchDist = (landmarks: any[]) => landmarkDist(landmarks[8], landmarks[4]) / Math.max(landmarkDist(landmarks[0], landmarks[9]), 0.001);
+
+// Midpoint of thumb tip and index tip, in normalized camera coordinates
+export const getPinchPoint = (landmarks: any[]): Point => ({
+  x: (landmarks[8].x + landmarks[4].x) / 2,
+  y: (landmarks[8].y + landmarks[4].y) / 2
+});
+
+// MediaPipe labels handedness for a mirrored image; the raw webcam frame swaps them, so "Right" is the player's left hand
+export const getHandedness = (label?: string): Handedness => label === 'Right' ? 'left' : label === 'Left' ? 'right' : 'any';
+
+/** Landmarks of the hand that aims, or null when it isn't in view. */
+export const pickHand = (results: any, handedness: Handedness): any[] | null => {
+  const hands: any[] = results?.multiHandLandmarks || [];
+  if (handedness === 'any') return hands[0] || null;
+  const index = hands.findIndex((_, i) => getHandedness(results.multiHandedness?.[i]?.label) === handedness);
+  return index >= 0 ? hands[index] : null;
+};
+
+/** Normalized camera point to normalized play-area point; may fall outside 0..1. */
+export const mapToArea = (calibration: HandCalibration, point: Point): Point => {
+  const { area, mirror } = calibration;
+  const x = (point.x - area.minX) / (area.maxX - area.minX);
+  return { x: mirror ? x : 1 - x, y: (point.y - area.minY) / (area.maxY - area.minY) };
+};
+
+/** Pinch point in canvas pixels, kept on the canvas. */
+export const toPlayPoint = (calibration: HandCalibration, landmarks: any[], width: number, height: number): Point => {
+  const p = mapToArea(calibration, getPinchPoint(landmarks));
+  return { x: Math.max(0, Math.min(1, p.x)) * width, y: Math.max(0, Math.min(1, p.y)) * height };
+};
+
+// Same mapping for the drawn skeleton, so it lines up with the cursor
+export const mapLandmarks = (calibration: HandCalibration, landmarks: any[]): any[] =>
+  landmarks.map(l => ({ ...l, ...mapToArea(calibration, l) }));
+
+// --- Derivation ---
+
+const percentile = (sorted: number[], p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+/** Grab and release distances from pinch distances sampled while the player pinched and released; null until both were seen. */
+export const derivePinchThresholds = (samples: number[]): Pick<HandCalibration, 'pinchGrab' | 'pinchRelease'> | null => {
+  if (samples.length < 10) return null;
+  const sorted = [...samples].sort((a, b) => a - b);
+  const closed = percentile(sorted, 0.1);
+  const open = percentile(sorted, 0.9);
+  if (open - closed < MIN_PINCH_RANGE) return null;
+  return { pinchGrab: closed + (open - closed) * PINCH_GRAB_AT, pinchRelease: closed + (open - closed) * PINCH_RELEASE_AT };
+};
+
+// Hysteresis without the game's release debounce; samples carry no timing
+const isPinching = (calibration: HandCalibration, pinchDist: number, wasPinching: boolean) =>
+  pinchDist < (wasPinching ? calibration.pinchRelease : calibration.pinchGrab);
+
+/** Completed pinch-and-release cycles in the samples. */
+export const countPinches = (samples: number[], thresholds: Pick<HandCalibration, 'pinchGrab' | 'pinchRelease'>) => {
+  const calibration = { ...DEFAULT_CALIBRATION, ...thresholds };
+  let pinching = false;
+  let count = 0;
+  samples.forEach(dist => {
+    const now = isPinching(calibration, dist, pinching);
+    if (pinching && !now) count++;
+    pinching = now;
+  });
+  return count;
+};
+
+/** Play area from the pinch points the player reached toward each corner (normalized camera coordinates). */
+export const deriveActiveArea = (reached: Point[]): ActiveArea => {
+  const axis = (values: number[]) => {
+    let min = Math.min(...values);
+    let max = Math.max(...values);
+    const inset = (max - min) * AREA_INSET;
+    min += inset; max -= inset;
+    if (max - min < MIN_AREA_SPAN) {
+      const center = (min + max) / 2;
+      min = center - MIN_AREA_SPAN / 2; max = center + MIN_AREA_SPAN / 2;
+    }
+    const shift = Math.max(0, -min) - Math.max(0, max - 1); // Keep it inside the frame
+    return { min: min + shift, max: max + shift };
+  };
+  const x = axis(reached.map(p => p.x));
+  const y = axis(reached.map(p => p.y));
+  return { minX: x.min, minY: y.min, maxX: x.max, maxY: y.max };
+};
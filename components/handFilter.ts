@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { HandCalibration, Point } from '../types';
+
+// Turning noisy camera landmarks into a steady cursor and a pinch that doesn't let go by accident.
+
+// One Euro filter (Casiez et al. 2012): heavy smoothing while the hand is nearly still, little lag once it moves fast.
+// Tuned for canvas pixels
+const MIN_CUTOFF = 1.0; // Hz; lower is steadier at rest
+const BETA = 0.01; // How quickly the cutoff rises with speed (per px/s)
+const DERIVATIVE_CUTOFF = 1.0; // Hz; smoothing of the speed estimate itself
+
+// A pinch has to stay open this long before it counts as released; a blink of the tracker shouldn't fire the shot
+export const RELEASE_DEBOUNCE_MS = 100;
+
+export interface PointFilter {
+  filter: (point: Point, time: number) => Point; // time in ms
+  reset: () => void; // Next point is taken as is
+}
+
+const smoothingFactor = (dt: number, cutoff: number) => {
+  const r = 2 * Math.PI * cutoff * dt;
+  return r / (r + 1);
+};
+
+export const createOneEuroFilter = (minCutoff = MIN_CUTOFF, beta = BETA, derivativeCutoff = DERIVATIVE_CUTOFF): PointFilter => {
+  let last: Point | null = null;
+  let lastSpeed: Point = { x: 0, y: 0 };
+  let lastTime = 0;
+
+  return {
+    filter: (point, time) => {
+      if (!last) {
+        last = { ...point };
+        lastSpeed = { x: 0, y: 0 };
+        lastTime = time;
+        return { ...last };
+      }
+      const dt = Math.max(0.001, (time - lastTime) / 1000);
+      lastTime = time;
+      const d = smoothingFactor(dt, derivativeCutoff);
+      const speed = { x: d * (point.x - last.x) / dt + (1 - d) * lastSpeed.x, y: d * (point.y - last.y) / dt + (1 - d) * lastSpeed.y };
+      const a = smoothingFactor(dt, minCutoff + beta * Math.sqrt(speed.x * speed.x + speed.y * speed.y));
+      last = { x: a * point.x + (1 - a) * last.x, y: a * point.y + (1 - a) * last.y };
+      lastSpeed = speed;
+      return { ...last };
+    },
+    reset: () => { last = null; }
+  };
+};
+
+export interface PinchDetector {
+  update: (calibration: HandCalibration, pinchDist: number, time: number) => boolean; // Pass Infinity while the hand is out of view
+  isPinching: () => boolean;
+  reset: () => void;
+}
+
+/** Closes below the grab distance, opens once the fingers stay past the release distance for the debounce time. */
+export const createPinchDetector = (debounceMs = RELEASE_DEBOUNCE_MS): PinchDetector => {
+  let pinching = false;
+  let openSince: number | null = null;
+
+  return {
+    update: (calibration, pinchDist, time) => {
+      if (!pinching) {
+        pinching = pinchDist < calibration.pinchGrab;
+      } else if (pinchDist < calibration.pinchRelease) {
+        openSince = null;
+      } else {
+        if (openSince === null) openSince = time;
+        if (time - openSince >= debounceMs) pinching = false;
+      }
+      if (!pinching) openSince = null;
+      return pinching;
+    },
+    isPinching: () => pinching,
+    reset: () => { pinching = false; openSince = null; }
+  };
+};
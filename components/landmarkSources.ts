@@ -0,0 +1,326 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CameraDevice, CameraProblem, CameraQuality, CameraSettings, HandLandmark, HandResults, HandScriptStep, LandmarkFrame, LandmarkRecording, Point } from '../types';
+
+// Where hand landmarks come from. The game only sees onResults; behind it is either the live webcam through
+// MediaPipe, a recording played back, or a scripted synthetic hand, so the pinch and aim code runs without a camera.
+//   ?landmarks=<url of a recording>   plays a recording saved from the pause menu
+//   ?handScript=move 0.5 0.9; pinch; move 0.6 1 400; release   drives a synthetic hand
+
+export interface LandmarkSource {
+  start: (onResults: (results: HandResults) => void, onProblem: (problem: CameraProblem) => void) => void; // onProblem: it stopped for good
+  stop: () => void;
+  setMaxHands: (count: number) => void; // Only the live tracker cares about these two
+  setCamera: (camera: Pick<CameraSettings, 'deviceId' | 'quality'>) => void;
+}
+
+const FRAME_MS = 33; // Synthetic hands move at camera rate
+const MAX_RECORDING_FRAMES = 18000; // About ten minutes
+const MEDIAPIPE_CDN = 'https://cdn.jsdelivr.net/npm/@mediapipe/hands';
+const TRACKING_TIMEOUT_MS = 20000; // From the camera running to the first hand result; the model downloads in between
+
+export const CAMERA_PROBLEMS: Record<CameraProblem, string> = {
+  scripts: "The hand tracking scripts didn't load. Check the internet connection and reload.",
+  denied: 'Camera access was blocked. Allow it in the site settings and reload.',
+  noCamera: 'No camera was found.',
+  unsupported: 'This browser only allows the camera on https or localhost.',
+  failed: 'The camera or hand tracking could not start. Close other apps using the camera and reload.'
+};
+
+// getUserMedia errors by name
+const toCameraProblem = (err: any): CameraProblem => {
+  if (err?.name === 'NotAllowedError' || err?.name === 'SecurityError') return 'denied';
+  if (err?.name === 'NotFoundError' || err?.name === 'OverconstrainedError') return 'noCamera';
+  return 'failed';
+};
+
+const toResults = (hands: HandLandmark[][], labels: string[]): HandResults => ({
+  multiHandLandmarks: hands,
+  multiHandedness: labels.map(label => ({ label, score: 1 }))
+});
+
+// --- Live ---
+
+export const CAMERA_QUALITY: Record<CameraQuality, { label: string, width: number, height: number, modelComplexity: 0 | 1 }> = {
+  low: { label: 'Fast', width: 640, height: 360, modelComplexity: 0 },
+  medium: { label: 'Balanced', width: 960, height: 540, modelComplexity: 0 },
+  high: { label: 'Sharp', width: 1280, height: 720, modelComplexity: 1 }
+};
+
+/** Cameras the browser offers; unnamed until camera permission is granted. */
+export const listCameras = async (): Promise<CameraDevice[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'videoinput' && d.deviceId).map((d, i) => ({ deviceId: d.deviceId, label: d.label || `Camera ${i + 1}` }));
+};
+
+export const createMediaPipeSource = (video: HTMLVideoElement, maxHands: number, camera: Pick<CameraSettings, 'deviceId' | 'quality'>): LandmarkSource => {
+  let hands: any = null;
+  let stream: MediaStream | null = null;
+  let opening = 0; // Bumped per camera (re)open, so a slow getUserMedia for an old choice is dropped
+  let frameId = 0;
+  let watchdog = 0;
+  let fail: (problem: CameraProblem) => void = () => {};
+
+  const closeCamera = () => {
+    opening++;
+    cancelAnimationFrame(frameId);
+    stream?.getTracks().forEach(t => t.stop());
+    stream = null;
+    video.srcObject = null;
+  };
+  const stop = () => {
+    window.clearTimeout(watchdog);
+    closeCamera();
+    if (hands) hands.close();
+    hands = null;
+  };
+
+  const openCamera = () => {
+    const id = ++opening;
+    const { width, height } = CAMERA_QUALITY[camera.quality];
+    const constraints: MediaTrackConstraints = { width: { ideal: width }, height: { ideal: height }, ...(camera.deviceId ? { deviceId: { exact: camera.deviceId } } : {}) };
+    navigator.mediaDevices.getUserMedia({ video: constraints, audio: false })
+      .then(async opened => {
+        if (id !== opening || !hands) { opened.getTracks().forEach(t => t.stop()); return; }
+        stream = opened;
+        video.srcObject = opened;
+        video.muted = true;
+        await video.play();
+        window.clearTimeout(watchdog);
+        watchdog = window.setTimeout(() => fail('failed'), TRACKING_TIMEOUT_MS);
+        // One frame at a time: the next is only sent once MediaPipe is done with this one
+        const pump = async () => {
+          if (id !== opening || !hands) return;
+          if (video.readyState >= 2) {
+            try {
+              await hands.send({ image: video });
+            } catch (err) {
+              console.error("Hand tracking failed", err);
+              fail('failed');
+              return;
+            }
+          }
+          frameId = requestAnimationFrame(pump);
+        };
+        pump();
+      })
+      .catch(err => {
+        if (id !== opening) return;
+        // A saved camera that was unplugged: fall back to the default one
+        if (camera.deviceId && (err?.name === 'OverconstrainedError' || err?.name === 'NotFoundError')) {
+          camera = { ...camera, deviceId: '' };
+          openCamera();
+          return;
+        }
+        console.error("Camera failed to start", err);
+        fail(toCameraProblem(err));
+      });
+  };
+
+  return {
+    start: (onResults, onProblem) => {
+      if (!window.Hands) { onProblem('scripts'); return; }
+      if (!navigator.mediaDevices?.getUserMedia) { onProblem('unsupported'); return; }
+      fail = (problem) => {
+        if (!hands) return; // Already stopped
+        stop();
+        onProblem(problem);
+      };
+      hands = new window.Hands({ locateFile: (file: string) => `${MEDIAPIPE_CDN}/${file}` });
+      hands.setOptions({ maxNumHands: maxHands, modelComplexity: CAMERA_QUALITY[camera.quality].modelComplexity, minDetectionConfidence: 0.5, minTrackingConfidence: 0.5 });
+      hands.onResults((results: HandResults) => {
+        window.clearTimeout(watchdog);
+        onResults(results);
+      });
+      // Without any camera there is no point asking for permission
+      navigator.mediaDevices.enumerateDevices()
+        .then(devices => devices.some(d => d.kind === 'videoinput') ? openCamera() : fail('noCamera'))
+        .catch(openCamera);
+    },
+    stop,
+    setMaxHands: (count) => {
+      maxHands = count;
+      hands?.setOptions({ maxNumHands: count });
+    },
+    setCamera: (next) => {
+      if (next.deviceId === camera.deviceId && next.quality === camera.quality) return;
+      camera = { deviceId: next.deviceId, quality: next.quality };
+      if (!hands) return;
+      hands.setOptions({ modelComplexity: CAMERA_QUALITY[camera.quality].modelComplexity });
+      closeCamera();
+      openCamera();
+    }
+  };
+};
+
+// --- Recording and playback ---
+
+export interface LandmarkRecorder {
+  add: (results: HandResults) => void;
+  finish: () => LandmarkRecording;
+}
+
+const round = (v: number) => Math.round(v * 10000) / 10000;
+
+export const createLandmarkRecorder = (): LandmarkRecorder => {
+  const recordedAt = new Date().toISOString();
+  const frames: LandmarkFrame[] = [];
+  let startedAt = 0;
+  return {
+    add: (results) => {
+      if (frames.length >= MAX_RECORDING_FRAMES) return;
+      const now = performance.now();
+      if (frames.length === 0) startedAt = now;
+      frames.push({
+        time: Math.round(now - startedAt),
+        hands: (results.multiHandLandmarks || []).map(hand => hand.map(l => ({ x: round(l.x), y: round(l.y), z: round(l.z || 0) }))),
+        labels: (results.multiHandedness || []).map(h => h.label)
+      });
+    },
+    finish: () => ({ version: 1, recordedAt, frames: [...frames] })
+  };
+};
+
+export const parseLandmarkRecording = (json: string): LandmarkRecording => {
+  const data = JSON.parse(json);
+  if (data?.version !== 1 || !Array.isArray(data.frames) || data.frames.some((f: any) => typeof f?.time !== 'number' || !Array.isArray(f.hands))) {
+    throw new Error('Not a hand landmark recording');
+  }
+  return data as LandmarkRecording;
+};
+
+/** Replays recorded frames at their original pace; the hand leaves the view when the recording ends. */
+export const createPlaybackSource = (recording: LandmarkRecording | Promise<LandmarkRecording>): LandmarkSource => {
+  let timer = 0;
+  let stopped = false;
+  return {
+    start: (onResults) => {
+      stopped = false;
+      Promise.resolve(recording).then(({ frames }) => {
+        if (stopped) return;
+        const startedAt = performance.now();
+        const play = (index: number) => {
+          if (index >= frames.length) { onResults(toResults([], [])); return; }
+          const frame = frames[index];
+          onResults(toResults(frame.hands, frame.labels || []));
+          if (index + 1 < frames.length) timer = window.setTimeout(() => play(index + 1), Math.max(0, frames[index + 1].time - (performance.now() - startedAt)));
+          else timer = window.setTimeout(() => play(index + 1), FRAME_MS);
+        };
+        play(0);
+      }).catch(err => console.error("Failed to load landmark recording", err));
+    },
+    stop: () => {
+      stopped = true;
+      window.clearTimeout(timer);
+    },
+    setMaxHands: () => {},
+    setCamera: () => {}
+  };
+};
+
+// --- Scripted ---
+
+const DEFAULT_STEP_MS: Record<HandScriptStep['type'], number> = { move: 300, pinch: 150, release: 150, wait: 500, hide: 0 };
+
+/** "move 0.5 0.9; pinch; move 0.6 1 400; release; wait 300" - steps split by ";" or new lines, each with an optional duration in ms. */
+export const parseHandScript = (text: string): HandScriptStep[] =>
+  text.split(/[;\n]/).map(s => s.trim()).filter(Boolean).map(line => {
+    const [type, ...args] = line.split(/\s+/);
+    const nums = args.map(Number);
+    if (nums.some(n => !Number.isFinite(n))) throw new Error(`Hand script step has a bad number: "${line}"`);
+    if (type === 'move') {
+      if (nums.length < 2) throw new Error(`Hand script move needs x and y: "${line}"`);
+      return { type, to: { x: nums[0], y: nums[1] }, ms: nums[2] ?? DEFAULT_STEP_MS.move };
+    }
+    if (type === 'pinch' || type === 'release' || type === 'wait' || type === 'hide') return { type, ms: nums[0] ?? DEFAULT_STEP_MS[type] };
+    throw new Error(`Unknown hand script step: "${line}"`);
+  });
+
+// A right hand pointing up with the index finger out (so it never reads as a gesture), relative to the wrist
+// in normalized camera units; the thumb tip is filled in per frame. Hand length (wrist to middle knuckle) is 0.12.
+const HAND_SHAPE: Point[] = [
+  { x: 0, y: 0 },
+  { x: -0.03, y: -0.03 }, { x: -0.05, y: -0.06 }, { x: -0.06, y: -0.09 }, { x: 0, y: 0 },
+  { x: -0.025, y: -0.11 }, { x: -0.03, y: -0.15 }, { x: -0.032, y: -0.175 }, { x: -0.034, y: -0.2 },
+  { x: 0, y: -0.12 }, { x: 0, y: -0.15 }, { x: 0, y: -0.13 }, { x: 0, y: -0.11 },
+  { x: 0.02, y: -0.11 }, { x: 0.022, y: -0.14 }, { x: 0.02, y: -0.125 }, { x: 0.018, y: -0.105 },
+  { x: 0.04, y: -0.1 }, { x: 0.045, y: -0.125 }, { x: 0.042, y: -0.112 }, { x: 0.04, y: -0.095 }
+];
+const THUMB_PINCHED: Point = { x: -0.03, y: -0.195 }; // Against the index tip
+const THUMB_OPEN: Point = { x: -0.09, y: -0.1 }; // About one hand length away from it
+
+/** Landmarks of a synthetic hand whose pinch point (between thumb and index tips) is at the given screen point. */
+export const synthesizeHand = (screen: Point, pinched: boolean): HandLandmark[] => {
+  const shape = HAND_SHAPE.map((p, i) => i === 4 ? (pinched ? THUMB_PINCHED : THUMB_OPEN) : p);
+  // The camera image is mirrored on screen
+  const target = { x: 1 - screen.x, y: screen.y };
+  const offset = { x: target.x - (shape[4].x + shape[8].x) / 2, y: target.y - (shape[4].y + shape[8].y) / 2 };
+  return shape.map(p => ({ x: p.x + offset.x, y: p.y + offset.y, z: 0 }));
+};
+
+/** Where the scripted hand is at a time since the start; null once the script has run out. */
+export const sampleHandScript = (steps: HandScriptStep[], time: number): { pos: Point, pinched: boolean } | 'hidden' | null => {
+  let pos: Point | null = null;
+  let pinched = false;
+  let visible = false;
+  let start = 0;
+  for (const s of steps) {
+    if (s.type === 'move') {
+      const from = visible && pos ? pos : s.to;
+      visible = true;
+      if (time < start + s.ms) {
+        const t = (time - start) / s.ms;
+        return { pos: { x: from.x + (s.to.x - from.x) * t, y: from.y + (s.to.y - from.y) * t }, pinched };
+      }
+      pos = s.to;
+    } else {
+      if (s.type === 'pinch') pinched = true;
+      if (s.type === 'release') pinched = false;
+      if (s.type === 'hide') visible = false;
+      if (time < start + s.ms) return visible && pos ? { pos, pinched } : 'hidden';
+    }
+    start += s.ms;
+  }
+  return null;
+};
+
+/** A synthetic hand following the script, then leaving the view. */
+export const createScriptedSource = (steps: HandScriptStep[]): LandmarkSource => {
+  let timer = 0;
+  return {
+    start: (onResults) => {
+      const startedAt = performance.now();
+      const tick = () => {
+        const hand = sampleHandScript(steps, performance.now() - startedAt);
+        onResults(hand && hand !== 'hidden' ? toResults([synthesizeHand(hand.pos, hand.pinched)], ['Left']) : toResults([], []));
+        if (!hand) window.clearInterval(timer);
+      };
+      timer = window.setInterval(tick, FRAME_MS);
+      tick();
+    },
+    stop: () => window.clearInterval(timer),
+    setMaxHands: () => {},
+    setCamera: () => {}
+  };
+};
+
+// --- Choosing one ---
+
+/** Source picked from the page URL: a script, a recording, or the webcam when neither is given. */
+export const createLandmarkSource = (video: HTMLVideoElement, maxHands: number, camera: Pick<CameraSettings, 'deviceId' | 'quality'>, search = window.location.search): LandmarkSource => {
+  const params = new URLSearchParams(search);
+  const script = params.get('handScript');
+  if (script) return createScriptedSource(parseHandScript(script));
+  const url = params.get('landmarks');
+  if (url) {
+    return createPlaybackSource(fetch(url).then(res => {
+      if (!res.ok) throw new Error(`Recording not found: ${url}`);
+      return res.text();
+    }).then(parseLandmarkRecording));
+  }
+  return createMediaPipeSource(video, maxHands, camera);
+};
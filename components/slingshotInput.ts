@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Point } from '../types';
+import { clampPull } from '../engine/gameEngine';
+
+// One slingshot, many devices: hand tracking, pointer (mouse, pen, touch) and keyboard
+// all go through the same grab / drag / release cycle. Only one source holds the ball at a time.
+
+export type AimSource = 'hand' | 'pointer' | 'touch' | 'keyboard';
+
+// How close to the ball (or the empty pouch) a grab has to start; fingers get a larger hit area
+const GRAB_RADIUS: Record<AimSource, number> = { hand: 100, pointer: 100, touch: 120, keyboard: Infinity };
+
+export const KEYBOARD_PULL_STEP = 12; // px per arrow key press
+
+export interface SlingshotController {
+  getSource: () => AimSource | null; // Who is holding the ball, null when nobody is
+  grab: (source: AimSource, point: Point) => boolean;
+  drag: (source: AimSource, point: Point) => void;
+  nudge: (dx: number, dy: number) => void; // Keyboard: grabs if free, then moves the ball by this much
+  release: (source: AimSource) => boolean; // True when the pull should be fired
+  cancel: () => void; // Lets go without firing
+}
+
+/** Ball and anchor are the game's refs; canAim says whether a shot may be lined up right now. */
+export const createSlingshotController = (ball: { current: Point }, anchor: { current: Point }, canAim: () => boolean): SlingshotController => {
+  let source: AimSource | null = null;
+
+  const pullTo = (point: Point) => {
+    const pull = clampPull(point.x - anchor.current.x, point.y - anchor.current.y);
+    ball.current = { x: anchor.current.x + pull.dx, y: anchor.current.y + pull.dy };
+  };
+
+  const isNear = (a: Point, b: Point, radius: number) => Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2)) < radius;
+
+  return {
+    getSource: () => source,
+    grab: (from, point) => {
+      if (source !== null || !canAim()) return false;
+      if (!isNear(point, ball.current, GRAB_RADIUS[from]) && !isNear(point, anchor.current, GRAB_RADIUS[from])) return false;
+      source = from;
+      pullTo(point);
+      return true;
+    },
+    drag: (from, point) => {
+      if (source === from) pullTo(point);
+    },
+    nudge: (dx, dy) => {
+      if (source === null ? !canAim() : source !== 'keyboard') return;
+      source = 'keyboard';
+      pullTo({ x: ball.current.x + dx, y: ball.current.y + dy });
+    },
+    release: (from) => {
+      if (source !== from) return false;
+      source = null;
+      return canAim();
+    },
+    cancel: () => { source = null; }
+  };
+};
+
+/** Pointer position in canvas pixels. Canvases are mirrored with CSS (scaleX(-1)), so x is flipped back. */
+export const toCanvasPoint = (canvas: HTMLCanvasElement, clientX: number, clientY: number): Point => {
+  const rect = canvas.getBoundingClientRect();
+  return {
+    x: (rect.right - clientX) * (canvas.width / rect.width),
+    y: (clientY - rect.top) * (canvas.height / rect.height)
+  };
+};
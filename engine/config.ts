@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BubbleColor, BubbleKind, Difficulty, GameMode } from '../types';
+
+// --- Physics ---
+
+export const GRAVITY = 0.25;
+export const FRICTION = 0.99;
+export const MAX_FLIGHT_TICKS = 150; // Fixed 30 Hz ticks (5s) before a stuck projectile is discarded (counted in ticks so replays match)
+
+// --- Grid Layout ---
+
+// Reduced Bubble Size (Smaller for more density)
+export const BUBBLE_RADIUS = 20;
+export const ROW_HEIGHT = BUBBLE_RADIUS * Math.sqrt(3);
+
+// Dynamic Grid: Max columns increased for desktop since bubbles are smaller
+export const MAX_GRID_COLS = 16;
+export const GRID_ROWS = 10;
+export const SLINGSHOT_BOTTOM_OFFSET = 220;
+export const DANGER_MARGIN = 80; // Distance of the danger line above the slingshot anchor
+export const DANGER_WARNING_DIST = ROW_HEIGHT * 2; // The board starts shaking once the lowest bubble is this close to the danger line
+
+// --- Ceiling ---
+
+export const INFINITY_DROP_DECAY = 0.93; // Infinity: each drop brings the next one this much sooner
+export const MIN_DROP_INTERVAL = 8000;
+
+// --- Launch ---
+
+export const MAX_DRAG_DIST = 180;
+export const MIN_LAUNCH_DIST = 30; // Shorter pulls are treated as a cancelled shot
+export const MIN_FORCE_MULT = 0.15;
+export const MAX_FORCE_MULT = 0.45;
+
+// --- Scoring ---
+
+export const MATCH_BONUS = 500;
+export const SWAPPED_MATCH_BONUS = 200; // Swapping ammo gets you out of a jam, at the cost of part of the bonus
+export const WORD_LETTER_BONUS = 300; // Per letter of a completed Letter Bubbles word
+export const BANK_SHOT_BONUS = 250; // Per wall bounce on a shot that makes a match
+
+// Multipliers grow by one step per consecutive matching shot / correct quiz answer
+export const CHAIN_MULTIPLIER_STEP = 0.5;
+export const MAX_CHAIN_MULTIPLIER = 3;
+export const QUIZ_STREAK_STEP = 0.25;
+export const MAX_QUIZ_STREAK_MULTIPLIER = 2;
+
+// --- Ammo ---
+
+export const MAX_AMMO_PREVIEW = 5;
+
+// --- Game Modes ---
+
+export const TIME_ATTACK_MS = 3 * 60 * 1000;
+export const PUZZLE_SHOTS: Record<Difficulty, number> = { Easy: 40, Medium: 55, Hard: 70, Infinity: 60 }; // Shots to clear a board that never drops
+export const QUIZ_RUSH_GOAL = 10; // Correct answers to win
+export const QUIZ_RUSH_LIVES = 3; // Wrong or skipped answers before the run ends
+export const QUIZ_RUSH_ANSWER_POINTS = 300; // Correct answer on a shot that made no match
+
+// --- Versus ---
+
+export const GARBAGE_BUBBLES_PER_ROW = 5; // Bubbles cleared (avalanche bubbles count double) per garbage row sent
+export const MAX_GARBAGE_ROWS = 3; // Per match
+export const GARBAGE_STONE_CHANCE = 0.2;
+
+export const MODE_CONFIG: Record<GameMode, { label: string, description: string }> = {
+    classic:    { label: 'Classic',     description: 'Reach the target score before the bubbles reach you' },
+    timeAttack: { label: 'Time Attack', description: 'Score as much as you can in 3 minutes' },
+    puzzle:     { label: 'Puzzle',      description: 'Clear a still board with a limited number of shots' },
+    quizRush:   { label: 'Quiz Rush',   description: `Every shot asks a question: ${QUIZ_RUSH_GOAL} right answers win, ${QUIZ_RUSH_LIVES} misses lose` }
+};
+
+// --- Special Bubbles ---
+
+export const BOMB_RADIUS = BUBBLE_RADIUS * 2 * 2.1; // Blast reaches two rings of neighbors
+
+// Chance for each spawned bubble to be special. Stones never spawn in the ceiling row
+export type SpecialChances = Record<Exclude<BubbleKind, 'normal'>, number>;
+
+// Difficulty Settings (Increased initialRows for denser grid)
+// numColors: Easy 4, Medium 5, Hard/Infinity 6 (all)
+// shotHints: highlight the best match for the loaded ammo and show a suggested aim arc
+// ammoPreview: upcoming shots shown after the loaded one (at least the next)
+// specials: helpful bombs/rainbows get rarer and obstacles (stone, ice) more common as difficulty rises
+export const DIFFICULTY_CONFIG: Record<Difficulty, { dropInterval: number, initialRows: number, density: number, numColors: number, newColorChance: number, shotHints: boolean, ammoPreview: number, specials: SpecialChances, label: string, color: string, winScore: number }> = {
+    Easy:   { dropInterval: 60000, initialRows: 6, density: 0.85, numColors: 4, newColorChance: 0.05, shotHints: true, ammoPreview: 3, specials: { bomb: 0.03, rainbow: 0.04, stone: 0, ice: 0.02 }, label: 'Easy',   color: '#4ade80', winScore: 3000 },
+    Medium: { dropInterval: 40000, initialRows: 8, density: 0.9, numColors: 5, newColorChance: 0.05, shotHints: true, ammoPreview: 2, specials: { bomb: 0.03, rainbow: 0.03, stone: 0.03, ice: 0.05 }, label: 'Medium', color: '#facc15', winScore: 8000 },
+    Hard:   { dropInterval: 20000, initialRows: 10, density: 0.95, numColors: 6, newColorChance: 0.1, shotHints: false, ammoPreview: 1, specials: { bomb: 0.02, rainbow: 0.02, stone: 0.06, ice: 0.08 }, label: 'Hard',   color: '#ef4444', winScore: 15000 },
+    Infinity: { dropInterval: 30000, initialRows: 9, density: 0.9, numColors: 6, newColorChance: 0.35, shotHints: false, ammoPreview: 2, specials: { bomb: 0.03, rainbow: 0.03, stone: 0.05, ice: 0.06 }, label: 'Infinity', color: '#d8b4fe', winScore: Number.MAX_SAFE_INTEGER }
+};
+
+// VIBRANT Colors (Sặc sỡ) for Dark Mode Contrast
+export const COLOR_CONFIG: Record<BubbleColor, { hex: string, points: number, label: string }> = {
+  red:    { hex: '#FF0000', points: 100, label: 'Red' },       // Pure Vibrant Red
+  blue:   { hex: '#0080FF', points: 150, label: 'Blue' },      // Bright Azure
+  green:  { hex: '#00E676', points: 200, label: 'Green' },     // Neon Green
+  yellow: { hex: '#FFEA00', points: 250, label: 'Yellow' },    // Vivid Yellow
+  purple: { hex: '#D500F9', points: 300, label: 'Purple' },    // Electric Purple
+  orange: { hex: '#FF6D00', points: 500, label: 'Orange' }     // Bright Orange
+};
+
+export const COLOR_KEYS: BubbleColor[] = ['red', 'blue', 'green', 'yellow', 'purple', 'orange'];
+
+// One-letter codes used by level layouts and the co-pilot board dump.
+// Ice is the lowercase color letter; colorless kinds have their own symbol
+export const COLOR_LETTERS: Record<BubbleColor, string> = { red: 'R', blue: 'B', green: 'G', yellow: 'Y', purple: 'P', orange: 'O' };
+export const KIND_SYMBOLS: Record<'bomb' | 'rainbow' | 'stone', string> = { bomb: 'X', rainbow: '*', stone: '#' };
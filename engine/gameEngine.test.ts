@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { EngineInput, GameState, SessionReplay } from '../types';
+import { createGame, step } from './gameEngine';
+import { advanceReplay, createReplay, isReplayFinished, recordStep, startReplay, verifyReplay } from './replay';
+
+const TICK_MS = 1000 / 30;
+
+// A few hundred ticks of play: a shot every second, fanning across the board, every match awarded
+const playSession = (seed: number) => {
+  let state: GameState = createGame({ width: 1280, height: 720, difficulty: 'Medium', seed });
+  const replay: SessionReplay = createReplay(state);
+  const run = (input: EngineInput) => {
+    const result = step(state, input);
+    recordStep(replay, input, state, result);
+    state = result.state;
+  };
+
+  for (let tick = 0; tick < 900 && !state.gameOver; tick++) {
+    if (state.pendingMatch.length > 0) run({ type: 'resolveMatch', awarded: true, correct: true });
+    if (tick % 30 === 0) {
+      const angle = (20 + (tick / 30) * 37 % 140) * Math.PI / 180;
+      run({ type: 'shot', dx: Math.cos(angle) * 120, dy: -Math.sin(angle) * 120 });
+    }
+    run({ type: 'tick', dt: TICK_MS });
+  }
+  return { state, replay };
+};
+
+describe('engine', () => {
+  it('plays the same seed and inputs out to the same state', () => {
+    expect(playSession(1234).state).toEqual(playSession(1234).state);
+  });
+
+  it('rebuilds a recorded session from its replay', () => {
+    const { state, replay } = playSession(99);
+    expect(replay.entries.some(e => e.input.type === 'shot')).toBe(true);
+    expect(state.score).toBeGreaterThan(0);
+
+    let cursor = startReplay(replay);
+    while (!isReplayFinished(replay, cursor)) cursor = advanceReplay(replay, cursor).cursor;
+    expect(cursor.state.score).toBe(state.score);
+    expect(cursor.state.bubbles).toEqual(state.bubbles);
+    expect(verifyReplay(replay)).toBe(true);
+  });
+});
@@ -0,0 +1,730 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Bubble, BubbleColor, BubbleKind, Difficulty, EngineEvent, EngineInput, GameMode, GameState, LevelDefinition, Point, ScoreItem, ScoreMultiplier, StepResult, Vector } from '../types';
+import { createRng, pickRandom, pickWeighted, Rng, shuffle } from './rng';
+import { findCluster, findExposedBubbles, findFloatingBubbles, findNearestFreeCell, getBubblePos, getHexGrid, getNeighbors, getRowCols, hasBubbleWithin, HexGrid } from './hexGrid';
+import { getAmmoPreview, getDropInterval, getLevelCells, getLevelDifficulty, getShotsLeft, getTimeLeft, isGoalReached } from './levels';
+import {
+  BANK_SHOT_BONUS, BOMB_RADIUS, GARBAGE_STONE_CHANCE, BUBBLE_RADIUS, CHAIN_MULTIPLIER_STEP, COLOR_CONFIG, COLOR_KEYS, DANGER_MARGIN, DANGER_WARNING_DIST, DIFFICULTY_CONFIG, FRICTION, GRAVITY,
+  GRID_ROWS, MATCH_BONUS, SWAPPED_MATCH_BONUS, MAX_CHAIN_MULTIPLIER, MAX_FLIGHT_TICKS, MAX_DRAG_DIST, MAX_FORCE_MULT, MAX_GRID_COLS,
+  MAX_QUIZ_STREAK_MULTIPLIER, MIN_FORCE_MULT, MIN_LAUNCH_DIST, QUIZ_RUSH_ANSWER_POINTS, QUIZ_RUSH_LIVES, QUIZ_STREAK_STEP, SLINGSHOT_BOTTOM_OFFSET,
+  WORD_LETTER_BONUS
+} from './config';
+
+/*
+ * Headless game rules. Everything here is deterministic: given the same
+ * GameState and the same inputs, `step` always returns the same result.
+ * No React, canvas or DOM access - only plain data in and out.
+ */
+
+// --- Geometry ---
+
+export const getGridCols = (width: number) => {
+  // Max possible based on width, but capped at MAX_GRID_COLS
+  // Use BUBBLE_RADIUS * 2.1 to allow slight spacing in calculation
+  const calculatedCols = Math.max(5, Math.floor((width - 40) / (BUBBLE_RADIUS * 2.1)));
+  return Math.min(MAX_GRID_COLS, calculatedCols);
+};
+
+export const getAnchor = (width: number, height: number): Point => ({ x: width / 2, y: height - SLINGSHOT_BOTTOM_OFFSET });
+
+export const getDangerY = (height: number) => height - SLINGSHOT_BOTTOM_OFFSET - DANGER_MARGIN;
+
+/** 0 while the board is well clear of the danger line, rising to 1 as the lowest bubble reaches it. */
+export const getDangerProximity = (state: GameState) => {
+  if (state.bubbles.length === 0) return 0;
+  const gap = getDangerY(state.height) - Math.max(...state.bubbles.map(b => b.y));
+  return Math.min(1, Math.max(0, 1 - gap / DANGER_WARNING_DIST));
+};
+
+export const COLLISION_DIST = BUBBLE_RADIUS * 1.8;
+
+export const getBoardGrid = (state: GameState) => getHexGrid(state.bubbles, state.width, state.cols);
+
+// --- Slingshot ---
+// Every input device aims through these, so the drawn pull, the aim preview and the launch agree
+
+/** Limits a pull vector to MAX_DRAG_DIST, keeping its direction. */
+export const clampPull = (dx: number, dy: number): { dx: number; dy: number } => {
+  const dist = Math.sqrt(dx * dx + dy * dy);
+  if (dist <= MAX_DRAG_DIST) return { dx, dy };
+  return { dx: dx / dist * MAX_DRAG_DIST, dy: dy / dist * MAX_DRAG_DIST };
+};
+
+/** Launch speed per pixel of pull; rises with the square of the pull strength. */
+const getLaunchMultiplier = (dist: number) => {
+  const power = Math.min(dist / MAX_DRAG_DIST, 1.0);
+  return MIN_FORCE_MULT + (MAX_FORCE_MULT - MIN_FORCE_MULT) * (power * power);
+};
+
+/** Converts a slingshot pull (anchor minus ball) into launch velocity, or null if the pull is too short. */
+export const launchVelocity = (dx: number, dy: number): Vector | null => {
+  const dist = Math.sqrt(dx * dx + dy * dy);
+  if (dist <= MIN_LAUNCH_DIST) return null;
+  const pull = clampPull(dx, dy);
+  const mult = getLaunchMultiplier(dist);
+  return { vx: pull.dx * mult, vy: pull.dy * mult };
+};
+
+// --- Board Rules ---
+
+/** Bomb, rainbow and stone bubbles carry no color of their own. */
+export const hasOwnColor = (b: Bubble) => b.kind === 'normal' || b.kind === 'ice';
+
+// Match rule for a cluster of `color`: rainbows join anything, bombs and stones never join
+export const joinsColor = (color: BubbleColor) => (b: Bubble) => b.kind === 'rainbow' || (hasOwnColor(b) && b.color === color);
+
+const getActiveColors = (bubbles: Bubble[]) => Array.from(new Set(bubbles.filter(hasOwnColor).map(b => b.color)));
+
+// Colors that may appear at all: a level's ammo colors, otherwise every color
+const getPalette = (state: GameState) => state.level ? state.level.ammo.colors : COLOR_KEYS;
+
+const getNextBubbleColor = (rng: Rng, currentBubbles: Bubble[], forbiddenColors: BubbleColor[], difficulty: Difficulty, palette: BubbleColor[]) => {
+  const activeColors = getActiveColors(currentBubbles).filter(c => palette.includes(c));
+
+  // If board is empty (shouldn't happen in gameplay, but safe fallback), return all colors
+  if (activeColors.length === 0) return pickRandom(rng, palette);
+
+  let candidates = activeColors.filter(c => !forbiddenColors.includes(c));
+
+  // If all active colors are forbidden (rare), try any valid color
+  if (candidates.length === 0) candidates = palette.filter(c => !forbiddenColors.includes(c));
+
+  // Still empty? Just pick any color
+  if (candidates.length === 0) return pickRandom(rng, palette);
+
+  if (rng.next() < DIFFICULTY_CONFIG[difficulty].newColorChance) {
+    const allValid = palette.filter(c => !forbiddenColors.includes(c));
+    if (allValid.length > 0) return pickRandom(rng, allValid);
+  }
+
+  return pickRandom(rng, candidates);
+};
+
+const createBubble = (state: GameState, row: number, col: number, color: BubbleColor, kind: BubbleKind = 'normal'): Bubble => {
+  const { x, y } = getBubblePos(row, col, state.width, state.cols);
+  return { id: `b${state.nextId++}`, row, col, x, y, color, kind, active: true };
+};
+
+const SPECIAL_KINDS = ['bomb', 'rainbow', 'stone', 'ice'] as const;
+
+// One roll per random bubble. A stone in the ceiling row could never fall, so it stays normal there
+const rollKind = (rng: Rng, difficulty: Difficulty, row: number): BubbleKind => {
+  const { specials } = DIFFICULTY_CONFIG[difficulty];
+  let roll = rng.next();
+  for (const kind of SPECIAL_KINDS) {
+    if (roll < specials[kind]) return kind === 'stone' && row === 0 ? 'normal' : kind;
+    roll -= specials[kind];
+  }
+  return 'normal';
+};
+
+// --- Letter Bubbles ---
+
+// Letters of the target word that are neither collected nor already on the board
+const getMissingLetters = (state: GameState) => {
+  const missing = state.wordTarget!.word.split('').filter((_, i) => !state.wordTarget!.collected[i]);
+  state.bubbles.forEach(b => {
+    const i = b.letter ? missing.indexOf(b.letter) : -1;
+    if (i >= 0) missing.splice(i, 1);
+  });
+  return missing;
+};
+
+// Puts each missing letter on a random colored bubble, preferring ones with an open side a shot can reach
+const assignLetters = (state: GameState, rng: Rng) => {
+  if (!state.wordTarget) return;
+  const missing = getMissingLetters(state);
+  if (missing.length === 0) return;
+  const reachable = new Set(findExposedBubbles(getBoardGrid(state)));
+  const blank = state.bubbles.filter(b => hasOwnColor(b) && !b.letter && !state.pendingMatch.includes(b.id));
+  const exposed = blank.filter(b => reachable.has(b));
+  const candidates = exposed.length > 0 ? exposed : blank;
+  const lettered = new Map<string, string>();
+  shuffle(rng, candidates).slice(0, missing.length).forEach((b, i) => lettered.set(b.id, missing[i]));
+  state.bubbles = state.bubbles.map(b => lettered.has(b.id) ? { ...b, letter: lettered.get(b.id) } : b);
+};
+
+const clearLetters = (state: GameState) => {
+  state.bubbles = state.bubbles.map(b => {
+    if (!b.letter) return b;
+    const { letter, ...rest } = b;
+    return rest;
+  });
+};
+
+const setWord = (state: GameState, rng: Rng, word: string, definition: string) => {
+  const letters = word.toUpperCase().replace(/[^A-Z]/g, '');
+  state.wordTarget = letters ? { word: letters, definition, collected: letters.split('').map(() => false) } : null;
+  clearLetters(state);
+  assignLetters(state, rng);
+};
+
+// Removed lettered bubbles fill the first open slot for their letter; a full word pays out and waits for the next one
+const collectLetters = (state: GameState, removed: Bubble[], events: EngineEvent[]) => {
+  const target = state.wordTarget;
+  if (!target) return 0;
+  const collected = [...target.collected];
+  const counted = removed.filter(b => {
+    const i = target.word.split('').findIndex((ch, j) => ch === b.letter && !collected[j]);
+    if (i < 0) return false;
+    collected[i] = true;
+    return true;
+  });
+  if (counted.length === 0) return 0;
+  events.push({ type: 'lettersCollected', bubbles: counted });
+  if (collected.some(c => !c)) {
+    state.wordTarget = { ...target, collected };
+    return 0;
+  }
+  const points = target.word.length * WORD_LETTER_BONUS;
+  events.push({ type: 'wordCompleted', word: target.word, definition: target.definition, points });
+  state.wordTarget = null;
+  state.wordsCompleted += 1;
+  clearLetters(state); // Spare copies of the finished word's letters
+  return points;
+};
+
+// Exposed bubbles per color: how many targets a shot of that color could actually reach
+const getReachableColorCounts = (state: GameState) => {
+  const counts = new Map<BubbleColor, number>();
+  findExposedBubbles(getBoardGrid(state)).forEach(b => {
+    if (hasOwnColor(b)) counts.set(b.color, (counts.get(b.color) || 0) + 1);
+  });
+  return counts;
+};
+
+// Next ammo color: a level's scripted sequence first, then colors weighted by how many
+// of their bubbles are reachable, so buried colors stop clogging the queue
+const drawAmmo = (state: GameState, rng: Rng): BubbleColor => {
+  if (state.level && state.ammoQueue.length > 0) {
+    const [next, ...rest] = state.ammoQueue;
+    state.ammoQueue = rest;
+    return next;
+  }
+  const palette = getPalette(state);
+  const counts = getReachableColorCounts(state);
+  const reachable = palette.filter(c => counts.has(c));
+  if (reachable.length > 0) return pickWeighted(rng, reachable, reachable.map(c => counts.get(c)!));
+  const useful = getActiveColors(state.bubbles).filter(c => palette.includes(c));
+  if (useful.length > 0) return pickRandom(rng, useful);
+  return state.level ? pickRandom(rng, palette) : 'red';
+};
+
+// Fresh hand: loaded, next and the preview queue
+const dealAmmo = (state: GameState, rng: Rng) => {
+  state.currentAmmo = drawAmmo(state, rng);
+  state.nextAmmo = drawAmmo(state, rng);
+  state.upcomingAmmo = Array.from({ length: getAmmoPreview(state) - 1 }, () => drawAmmo(state, rng));
+  state.ammoSwapped = false;
+};
+
+// After a pop, colors that left the board are useless; redeal just those slots
+const refreshAmmo = (state: GameState, rng: Rng) => {
+  const active = getActiveColors(state.bubbles);
+  if (active.length === 0) return;
+  const keep = (c: BubbleColor) => active.includes(c) ? c : drawAmmo(state, rng);
+  state.currentAmmo = keep(state.currentAmmo);
+  state.nextAmmo = keep(state.nextAmmo);
+  state.upcomingAmmo = state.upcomingAmmo.map(keep);
+};
+
+const cycleAmmo = (state: GameState, rng: Rng) => {
+  const [next, ...rest] = [...state.upcomingAmmo, drawAmmo(state, rng)];
+  state.currentAmmo = state.nextAmmo;
+  state.nextAmmo = next;
+  state.upcomingAmmo = rest;
+  state.ammoSwapped = false;
+};
+
+const fillLevelBoard = (state: GameState, rng: Rng, level: LevelDefinition) => {
+  state.bubbles = getLevelCells(level)
+    .filter(cell => cell.col < getRowCols(cell.row, state.cols))
+    .map(cell => createBubble(state, cell.row, cell.col, cell.color, cell.kind));
+  state.lastDropTime = state.time;
+  dealAmmo(state, rng);
+};
+
+const fillBoard = (state: GameState, rng: Rng) => {
+  if (state.level) return fillLevelBoard(state, rng, state.level);
+  const config = DIFFICULTY_CONFIG[state.difficulty];
+  const newBubbles: Bubble[] = [];
+
+  // Shuffle and slice to get a random set of colors for this level
+  const levelPalette = shuffle(rng, COLOR_KEYS).slice(0, config.numColors);
+
+  for (let r = 0; r < config.initialRows; r++) {
+    const cols = getRowCols(r, state.cols);
+    for (let c = 0; c < cols; c++) {
+      if (rng.next() < config.density) {
+        // Only forbid if both previous neighbors are same color to prevent huge initial blobs
+        const forbidden: BubbleColor[] = [];
+        if (newBubbles.length >= 2) {
+          const prev1 = newBubbles[newBubbles.length - 1];
+          const prev2 = newBubbles[newBubbles.length - 2];
+          if (prev1.row === r && prev1.color === prev2.color) forbidden.push(prev1.color);
+        }
+
+        // Pick strictly from Level Palette
+        let candidates = levelPalette.filter(c => !forbidden.includes(c));
+        if (candidates.length === 0) candidates = levelPalette;
+
+        newBubbles.push(createBubble(state, r, c, pickRandom(rng, candidates), rollKind(rng, state.difficulty, r)));
+      }
+    }
+  }
+
+  state.bubbles = newBubbles;
+  state.lastDropTime = state.time;
+  dealAmmo(state, rng);
+};
+
+const shiftBoard = (state: GameState) => {
+  state.bubbles = state.bubbles.map(b => ({ ...b, row: b.row + 1, ...getBubblePos(b.row + 1, b.col, state.width, state.cols) }));
+};
+
+// Ends the game once the lowest bubble has crossed the danger line
+const checkOverrun = (state: GameState, events: EngineEvent[]) => {
+  if (Math.max(...state.bubbles.map(b => b.y)) <= getDangerY(state.height)) return false;
+  state.gameOver = true;
+  events.push({ type: 'gameOver' });
+  return true;
+};
+
+const dropRow = (state: GameState, rng: Rng, events: EngineEvent[]) => {
+  shiftBoard(state);
+  const shifted = state.bubbles;
+  state.lastDropTime = state.time;
+  state.rowsDropped += 1;
+  events.push({ type: 'rowDropped' });
+  if (checkOverrun(state, events)) return;
+
+  const config = DIFFICULTY_CONFIG[state.difficulty];
+  const newRowBubbles: Bubble[] = [];
+  for (let c = 0; c < state.cols; c++) {
+    if (rng.next() < config.density) {
+      const forbidden: BubbleColor[] = [];
+      if (newRowBubbles.length >= 2) {
+        const prev1 = newRowBubbles[newRowBubbles.length - 1];
+        const prev2 = newRowBubbles[newRowBubbles.length - 2];
+        if (prev1.color === prev2.color) forbidden.push(prev1.color);
+      }
+      // Respect "cleared" colors (unless it decides to introduce new ones)
+      const color = getNextBubbleColor(rng, shifted, forbidden, state.difficulty, getPalette(state));
+      // Level rows stay plain so authored boards keep their intended specials
+      newRowBubbles.push(createBubble(state, 0, c, color, state.level ? 'normal' : rollKind(rng, state.difficulty, 0)));
+    }
+  }
+  state.bubbles = [...shifted, ...newRowBubbles];
+  assignLetters(state, rng);
+};
+
+// Versus: full rows of random colors with stones mixed in, pushed in from the ceiling
+const addGarbage = (state: GameState, rng: Rng, rows: number, events: EngineEvent[]) => {
+  if (rows <= 0) return;
+  events.push({ type: 'garbageReceived', rows });
+  for (let i = 0; i < rows; i++) {
+    shiftBoard(state);
+    if (checkOverrun(state, events)) return;
+    const row: Bubble[] = [];
+    for (let c = 0; c < state.cols; c++) {
+      const color = getNextBubbleColor(rng, state.bubbles, [], state.difficulty, getPalette(state));
+      row.push(createBubble(state, 0, c, color, rng.next() < GARBAGE_STONE_CHANCE ? 'stone' : 'normal'));
+    }
+    state.bubbles = [...state.bubbles, ...row];
+  }
+  assignLetters(state, rng);
+};
+
+// --- Projectile ---
+
+// Quiz Rush: shots that pop nothing still ask a question
+const askRushQuiz = (state: GameState, events: EngineEvent[]) => {
+  if (state.mode !== 'quizRush' || state.gameOver) return;
+  state.quizPending = true;
+  events.push({ type: 'quizPending' });
+};
+
+const missShot = (state: GameState, events: EngineEvent[]) => {
+  state.projectile = null;
+  state.chain = 0;
+  events.push({ type: 'missed' });
+  askRushQuiz(state, events);
+};
+
+/** Free cell a ball that hit something at `pos` comes to rest in; null when the board has no room left. */
+export const findLandingCell = (grid: HexGrid, pos: Point) => findNearestFreeCell(grid, pos, GRID_ROWS + 10);
+
+/** Bubbles a ball that just came to rest sets off: its color cluster once it reaches three, and any bomb it touches. */
+export const findLandingPops = (grid: HexGrid, landed: Bubble) => {
+  const cluster = findCluster(grid, landed, joinsColor(landed.color));
+  // Touching a bomb arms it, with or without a match
+  const bombs = getNeighbors(grid, landed).filter(b => b.kind === 'bomb');
+  return [...(cluster.length >= 3 ? cluster : []), ...bombs];
+};
+
+/**
+ * Moves a ball in flight by one tick: gravity, sub-steps of half a radius so
+ * it can't pass through a bubble, side-wall bounces and friction. Stops early
+ * and returns true when it reaches the ceiling or `hits` reports a contact.
+ */
+export const advanceFlight = (p: Point & Vector, width: number, hits: (pos: Point) => boolean, onBounce?: (pos: Point) => void) => {
+  p.vy += GRAVITY;
+  const steps = Math.ceil(Math.sqrt(p.vx ** 2 + p.vy ** 2) / (BUBBLE_RADIUS * 0.5));
+  let collision = false;
+  for (let i = 0; i < steps && !collision; i++) {
+    p.x += p.vx / steps; p.y += p.vy / steps;
+    if (p.x < BUBBLE_RADIUS || p.x > width - BUBBLE_RADIUS) {
+      p.vx *= -1;
+      p.x = Math.max(BUBBLE_RADIUS, Math.min(width - BUBBLE_RADIUS, p.x));
+      onBounce?.(p);
+    }
+    collision = p.y < BUBBLE_RADIUS || hits(p);
+  }
+  p.vx *= FRICTION; p.vy *= FRICTION;
+  return collision;
+};
+
+const landProjectile = (state: GameState, rng: Rng, pos: Point, events: EngineEvent[]) => {
+  const cell = findLandingCell(getBoardGrid(state), pos);
+  if (!cell) {
+    // Nowhere to put the ball: the board is full
+    state.projectile = null;
+    state.gameOver = true;
+    events.push({ type: 'gameOver' });
+    return;
+  }
+  const { row, col } = cell;
+  const newB = createBubble(state, row, col, state.currentAmmo);
+  state.bubbles = [...state.bubbles, newB];
+  state.projectile = null;
+  events.push({ type: 'landed', bubble: newB });
+
+  const popping = findLandingPops(getBoardGrid(state), newB);
+  if (popping.length > 0) {
+    state.pendingMatch = popping.map(b => b.id);
+    events.push({ type: 'matchPending', bubbles: popping });
+  } else {
+    state.chain = 0;
+    askRushQuiz(state, events);
+  }
+
+  if (newB.y > getDangerY(state.height)) {
+    state.gameOver = true;
+    events.push({ type: 'gameOver' });
+  }
+
+  cycleAmmo(state, rng);
+};
+
+const advanceProjectile = (state: GameState, rng: Rng, events: EngineEvent[]) => {
+  const p = { ...state.projectile! };
+  state.projectile = p;
+  p.age += 1;
+  if (p.age > MAX_FLIGHT_TICKS) {
+    missShot(state, events);
+    return;
+  }
+
+  const grid = getBoardGrid(state);
+  const collision = advanceFlight(p, state.width, pos => hasBubbleWithin(grid, pos, COLLISION_DIST), pos => {
+    state.shotBounces += 1;
+    events.push({ type: 'bounce', x: pos.x, y: pos.y });
+  });
+
+  if (collision) {
+    landProjectile(state, rng, p, events);
+  } else if (p.y > state.height) {
+    missShot(state, events);
+  }
+};
+
+// --- Inputs ---
+
+const launch = (state: GameState, dx: number, dy: number, events: EngineEvent[]) => {
+  if (state.projectile || state.pendingMatch.length > 0 || state.quizPending || state.gameOver) return;
+  const velocity = launchVelocity(dx, dy);
+  if (!velocity) return;
+  const anchor = getAnchor(state.width, state.height);
+  const origin = { x: anchor.x - dx, y: anchor.y - dy };
+  state.projectile = { ...origin, ...velocity, age: 0 };
+  state.shotsFired += 1;
+  state.shotSwapped = state.ammoSwapped;
+  state.shotBounces = 0;
+  events.push({ type: 'launched', origin, velocity });
+};
+
+const swapAmmo = (state: GameState, events: EngineEvent[]) => {
+  if (state.projectile || state.pendingMatch.length > 0 || state.quizPending || state.gameOver) return;
+  [state.currentAmmo, state.nextAmmo] = [state.nextAmmo, state.currentAmmo];
+  state.ammoSwapped = !state.ammoSwapped; // Swapping back restores the dealt order
+  events.push({ type: 'ammoSwapped' });
+};
+
+const tick = (state: GameState, rng: Rng, dt: number, holdDrop: boolean, events: EngineEvent[]) => {
+  if (state.gameOver) return;
+  state.time += dt;
+  if (state.projectile) {
+    advanceProjectile(state, rng, events);
+  } else {
+    const interval = getDropInterval(state);
+    if (!holdDrop && interval > 0 && state.pendingMatch.length === 0 && !state.quizPending && state.time - state.lastDropTime > interval) {
+      dropRow(state, rng, events);
+    }
+  }
+  if (!state.gameOver && getTimeLeft(state) === 0) {
+    state.projectile = null;
+    events.push({ type: 'timeUp' });
+    checkGoal(state, events);
+  }
+};
+
+// Classic random boards play on after the win; every other mode ends with its goal
+const checkGoal = (state: GameState, events: EngineEvent[]) => {
+  if (state.won || !isGoalReached(state)) return;
+  state.won = true;
+  events.push({ type: 'won' });
+  if (state.mode !== 'classic') {
+    state.gameOver = true;
+    events.push({ type: 'gameOver' });
+  }
+};
+
+// A shot-limited level is lost once the last shot has settled without reaching the goal
+const checkShotLimit = (state: GameState, events: EngineEvent[]) => {
+  if (state.gameOver || state.won || state.projectile || state.pendingMatch.length > 0 || state.quizPending) return;
+  if (getShotsLeft(state) === 0) {
+    state.gameOver = true;
+    events.push({ type: 'gameOver' });
+  }
+};
+
+// Each bomb clears everything within BOMB_RADIUS except stones; bombs caught in a blast go off too
+const detonate = (state: GameState, bombs: Bubble[], alreadyHit: Set<string>) => {
+  const hit = new Set(alreadyHit);
+  const blasts: { origin: Bubble; bubbles: Bubble[] }[] = [];
+  const queue = [...bombs];
+  while (queue.length > 0) {
+    const origin = queue.shift()!;
+    const caught = state.bubbles.filter(b =>
+      !hit.has(b.id) && b.kind !== 'stone' && Math.sqrt((b.x - origin.x) ** 2 + (b.y - origin.y) ** 2) <= BOMB_RADIUS
+    );
+    caught.forEach(b => {
+      hit.add(b.id);
+      if (b.kind === 'bomb') queue.push(b);
+    });
+    blasts.push({ origin, bubbles: caught });
+  }
+  return blasts;
+};
+
+// Quiz Rush runs out of lives on misses; the streak and tallies are kept in every mode
+const recordAnswer = (state: GameState, correct: boolean, events: EngineEvent[]) => {
+  state.quizStreak = correct ? state.quizStreak + 1 : 0;
+  if (correct) state.quizCorrect += 1;
+  else state.quizMissed += 1;
+  if (state.mode === 'quizRush' && state.quizMissed >= QUIZ_RUSH_LIVES && !state.gameOver) {
+    state.gameOver = true;
+    events.push({ type: 'gameOver' });
+  }
+};
+
+// Chain and quiz streak both count the current match, so the first one in a row is x1
+const getChainMultiplier = (state: GameState): ScoreMultiplier[] => {
+  const factor = Math.min(MAX_CHAIN_MULTIPLIER, 1 + (state.chain - 1) * CHAIN_MULTIPLIER_STEP);
+  return factor > 1 ? [{ label: `Chain ${state.chain}`, factor }] : [];
+};
+
+const getQuizStreakMultiplier = (state: GameState): ScoreMultiplier[] => {
+  const factor = Math.min(MAX_QUIZ_STREAK_MULTIPLIER, 1 + (state.quizStreak - 1) * QUIZ_STREAK_STEP);
+  return factor > 1 ? [{ label: `Quiz streak ${state.quizStreak}`, factor }] : [];
+};
+
+const applyMultipliers = (points: number, multipliers: ScoreMultiplier[]) =>
+  Math.round(multipliers.reduce((sum, m) => sum * m.factor, points));
+
+const resolveMatch = (state: GameState, rng: Rng, awarded: boolean, correct: boolean, events: EngineEvent[]) => {
+  if (state.pendingMatch.length === 0) return;
+  const pending = new Set(state.pendingMatch);
+  state.pendingMatch = [];
+  if (!awarded) {
+    state.chain = 0;
+    recordAnswer(state, false, events);
+    return;
+  }
+  state.chain += 1;
+  recordAnswer(state, correct, events);
+
+  const cluster = state.bubbles.filter(b => pending.has(b.id) && b.kind !== 'bomb');
+  const blasts = detonate(state, state.bubbles.filter(b => pending.has(b.id) && b.kind === 'bomb'), pending);
+  const hits = [...cluster, ...blasts.flatMap(blast => blast.bubbles)];
+
+  // Ice survives its first hit with a crack
+  const cracked = new Set(hits.filter(b => b.kind === 'ice' && !b.cracked).map(b => b.id));
+  const popped = new Set([...pending, ...hits.map(b => b.id)].filter(id => !cracked.has(id)));
+  const poppedBubbles = state.bubbles.filter(b => popped.has(b.id));
+  const remaining = state.bubbles
+    .filter(b => !popped.has(b.id))
+    .map(b => cracked.has(b.id) ? { ...b, cracked: true } : b);
+
+  const basePoints = COLOR_CONFIG[hits.find(hasOwnColor)?.color || 'red'].points;
+  const matched = cluster.filter(b => !cracked.has(b.id));
+  const points = matched.length * basePoints;
+  if (matched.length > 0) events.push({ type: 'matched', bubbles: matched, points });
+
+  let blastPoints = 0;
+  blasts.forEach(({ origin, bubbles }) => {
+    const cleared = bubbles.filter(b => !cracked.has(b.id));
+    // Chained bombs score as their own blast's origin
+    const pts = (cleared.filter(b => b.kind !== 'bomb').length + 1) * basePoints;
+    blastPoints += pts;
+    events.push({ type: 'bombBlast', origin, bubbles: cleared, points: pts });
+  });
+  if (cracked.size > 0) events.push({ type: 'iceCracked', bubbles: hits.filter(b => cracked.has(b.id)) });
+
+  const floating = findFloatingBubbles(getHexGrid(remaining, state.width, state.cols));
+  let bonus = 0;
+  if (floating.length > 0) {
+    bonus = floating.length * basePoints * 2;
+    events.push({ type: 'avalanche', bubbles: floating, points: bonus });
+  }
+  const floatingIds = new Set(floating.map(b => b.id));
+  state.bubbles = remaining.filter(b => !floatingIds.has(b.id));
+
+  const items: ScoreItem[] = [];
+  if (points > 0) items.push({ label: 'Match', points });
+  if (blastPoints > 0) items.push({ label: 'Blast', points: blastPoints });
+  if (bonus > 0) items.push({ label: 'Avalanche', points: bonus });
+  if (state.shotBounces > 0) items.push({ label: state.shotBounces > 1 ? `Bank shot x${state.shotBounces}` : 'Bank shot', points: state.shotBounces * BANK_SHOT_BONUS });
+  items.push(state.shotSwapped ? { label: 'Swap bonus', points: SWAPPED_MATCH_BONUS } : { label: 'Match bonus', points: MATCH_BONUS });
+  const multipliers = [...getChainMultiplier(state), ...getQuizStreakMultiplier(state)];
+  const total = applyMultipliers(items.reduce((sum, item) => sum + item.points, 0), multipliers);
+  events.push({ type: 'scored', items, multipliers, points: total });
+
+  const wordBonus = collectLetters(state, [...poppedBubbles, ...floating], events);
+  state.score += total + wordBonus;
+
+  checkGoal(state, events);
+
+  if (!state.gameOver) {
+    if (state.bubbles.length === 0) {
+      fillBoard(state, rng);
+      events.push({ type: 'boardCleared' });
+    } else {
+      refreshAmmo(state, rng);
+    }
+    assignLetters(state, rng);
+  }
+};
+
+const answerQuiz = (state: GameState, correct: boolean, events: EngineEvent[]) => {
+  if (!state.quizPending) return;
+  state.quizPending = false;
+  recordAnswer(state, correct, events);
+  if (correct) {
+    const items: ScoreItem[] = [{ label: 'Correct answer', points: QUIZ_RUSH_ANSWER_POINTS }];
+    const multipliers = getQuizStreakMultiplier(state);
+    const points = applyMultipliers(QUIZ_RUSH_ANSWER_POINTS, multipliers);
+    events.push({ type: 'scored', items, multipliers, points });
+    state.score += points;
+  }
+  checkGoal(state, events);
+};
+
+const resize = (state: GameState, width: number, height: number) => {
+  state.width = width;
+  state.height = height;
+  state.bubbles = state.bubbles.map(b => ({ ...b, ...getBubblePos(b.row, b.col, width, state.cols) }));
+};
+
+// --- Public API ---
+
+export const createGame = (options: { width: number; height: number; difficulty: Difficulty; mode?: GameMode; seed: number; cols?: number; level?: LevelDefinition }): GameState => {
+  const level = options.level || null;
+  const state: GameState = {
+    width: options.width,
+    height: options.height,
+    cols: level ? level.cols : options.cols || getGridCols(options.width),
+    difficulty: level ? getLevelDifficulty(level) : options.difficulty,
+    mode: level ? 'classic' : options.mode || 'classic',
+    bubbles: [],
+    currentAmmo: 'red',
+    nextAmmo: 'blue',
+    upcomingAmmo: [],
+    ammoSwapped: false,
+    shotSwapped: false,
+    shotBounces: 0,
+    chain: 0,
+    quizStreak: 0,
+    quizCorrect: 0,
+    quizMissed: 0,
+    projectile: null,
+    pendingMatch: [],
+    quizPending: false,
+    score: 0,
+    time: 0,
+    lastDropTime: 0,
+    rowsDropped: 0,
+    won: false,
+    gameOver: false,
+    seed: options.seed,
+    rngState: options.seed >>> 0,
+    nextId: 0,
+    level,
+    ammoQueue: level?.ammo.sequence ? [...level.ammo.sequence] : [],
+    shotsFired: 0,
+    wordTarget: null,
+    wordsCompleted: 0
+  };
+  const rng = createRng(state.rngState);
+  fillBoard(state, rng);
+  state.rngState = rng.getState();
+  return state;
+};
+
+/**
+ * Advances the game by one input. The given state is never mutated;
+ * a new state is returned together with everything that happened.
+ */
+export const step = (state: GameState, input: EngineInput): StepResult => {
+  const next: GameState = { ...state };
+  const rng = createRng(state.rngState);
+  const events: EngineEvent[] = [];
+
+  switch (input.type) {
+    case 'shot':
+      launch(next, input.dx, input.dy, events);
+      break;
+    case 'tick':
+      tick(next, rng, input.dt, !!input.holdDrop, events);
+      break;
+    case 'resolveMatch':
+      resolveMatch(next, rng, input.awarded, !!input.correct, events);
+      break;
+    case 'resize':
+      resize(next, input.width, input.height);
+      break;
+    case 'dropRow':
+      if (!next.gameOver) dropRow(next, rng, events);
+      break;
+    case 'swapAmmo':
+      swapAmmo(next, events);
+      break;
+    case 'garbage':
+      if (!next.gameOver) addGarbage(next, rng, input.rows, events);
+      break;
+    case 'answerQuiz':
+      answerQuiz(next, input.correct, events);
+      break;
+    case 'setWord':
+      setWord(next, rng, input.word, input.definition);
+      break;
+  }
+  checkShotLimit(next, events);
+
+  next.rngState = rng.getState();
+  return { state: next, events };
+};
@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { Bubble } from '../types';
+import { createHexGrid, findNearestFreeCell, getBubblePos, getRowCols } from './hexGrid';
+
+const WIDTH = 400;
+const COLS = 6;
+
+const fillRows = (rows: number): Bubble[] => {
+  const bubbles: Bubble[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < getRowCols(row, COLS); col++) {
+      bubbles.push({ id: `b${bubbles.length}`, row, col, ...getBubblePos(row, col, WIDTH, COLS), color: 'red', kind: 'normal', active: true });
+    }
+  }
+  return bubbles;
+};
+
+describe('findNearestFreeCell', () => {
+  it('picks the free cell closest to the point', () => {
+    const grid = createHexGrid(fillRows(1), WIDTH, COLS);
+    const below = getBubblePos(1, 2, WIDTH, COLS);
+    expect(findNearestFreeCell(grid, below, 4)).toEqual({ row: 1, col: 2 });
+  });
+
+  it('returns null when every cell is taken', () => {
+    const grid = createHexGrid(fillRows(3), WIDTH, COLS);
+    expect(findNearestFreeCell(grid, getBubblePos(0, 0, WIDTH, COLS), 3)).toBeNull();
+  });
+});
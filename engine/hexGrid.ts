@@ -0,0 +1,203 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Bubble, Point } from '../types';
+import { BUBBLE_RADIUS, ROW_HEIGHT } from './config';
+
+/*
+ * Spatial index for the bubble board. Cells are keyed by row/col so
+ * occupancy and neighbor lookups are O(1), and "what is near this point"
+ * only inspects the handful of cells that could overlap it.
+ *
+ * Layout: odd rows are shifted right by one radius. Neighbors of a cell are
+ * the two cells beside it plus two above and two below, whose columns depend
+ * on the row parity.
+ */
+
+export interface HexGrid {
+  width: number;
+  cols: number;
+  cells: Map<number, Bubble>;
+}
+
+export interface Cell {
+  row: number;
+  col: number;
+}
+
+const KEY_STRIDE = 1024;
+const cellKey = (row: number, col: number) => row * KEY_STRIDE + col;
+
+// --- Geometry ---
+
+export const getBubblePos = (row: number, col: number, width: number, cols: number): Point => {
+  const xOffset = (width - (cols * BUBBLE_RADIUS * 2)) / 2 + BUBBLE_RADIUS;
+  const isOdd = row % 2 !== 0;
+  const x = xOffset + col * (BUBBLE_RADIUS * 2) + (isOdd ? BUBBLE_RADIUS : 0);
+  const y = BUBBLE_RADIUS + row * ROW_HEIGHT;
+  return { x, y };
+};
+
+export const getRowCols = (row: number, cols: number) => row % 2 !== 0 ? cols - 1 : cols;
+
+export const isNeighbor = (a: Bubble, b: Bubble) => {
+  const dr = b.row - a.row;
+  const dc = b.col - a.col;
+  if (Math.abs(dr) > 1) return false;
+  if (dr === 0) return Math.abs(dc) === 1;
+  if (a.row % 2 !== 0) {
+    return dc === 0 || dc === 1;
+  } else {
+    return dc === -1 || dc === 0;
+  }
+};
+
+export const getNeighborCells = (row: number, col: number): Cell[] => {
+  const shift = row % 2 !== 0 ? 0 : -1; // Column of the left diagonal neighbor
+  return [
+    { row, col: col - 1 },
+    { row, col: col + 1 },
+    { row: row - 1, col: col + shift },
+    { row: row - 1, col: col + shift + 1 },
+    { row: row + 1, col: col + shift },
+    { row: row + 1, col: col + shift + 1 }
+  ];
+};
+
+// --- Construction ---
+
+export const createHexGrid = (bubbles: Bubble[], width: number, cols: number): HexGrid => {
+  const cells = new Map<number, Bubble>();
+  bubbles.forEach(b => cells.set(cellKey(b.row, b.col), b));
+  return { width, cols, cells };
+};
+
+// Board arrays are never mutated by the engine, so an index can be reused for as long as its array lives
+const gridCache = new WeakMap<Bubble[], HexGrid>();
+
+export const getHexGrid = (bubbles: Bubble[], width: number, cols: number): HexGrid => {
+  const cached = gridCache.get(bubbles);
+  if (cached && cached.width === width && cached.cols === cols) return cached;
+  const grid = createHexGrid(bubbles, width, cols);
+  gridCache.set(bubbles, grid);
+  return grid;
+};
+
+// --- Queries ---
+
+export const getCell = (grid: HexGrid, row: number, col: number) => grid.cells.get(cellKey(row, col));
+
+export const isOccupied = (grid: HexGrid, row: number, col: number) => grid.cells.has(cellKey(row, col));
+
+export const getNeighbors = (grid: HexGrid, bubble: Cell): Bubble[] => {
+  const result: Bubble[] = [];
+  for (const { row, col } of getNeighborCells(bubble.row, bubble.col)) {
+    const n = getCell(grid, row, col);
+    if (n) result.push(n);
+  }
+  return result;
+};
+
+/** Calls `visit` for every cell whose center could lie within `dist` of `pos`. */
+const forEachCellNear = (grid: HexGrid, pos: Point, dist: number, maxRow: number, visit: (row: number, col: number, center: Point) => boolean | void) => {
+  const xOffset = (grid.width - (grid.cols * BUBBLE_RADIUS * 2)) / 2 + BUBBLE_RADIUS;
+  const rowMin = Math.max(0, Math.floor((pos.y - dist - BUBBLE_RADIUS) / ROW_HEIGHT));
+  const rowMax = Math.min(maxRow, Math.ceil((pos.y + dist - BUBBLE_RADIUS) / ROW_HEIGHT));
+  for (let r = rowMin; r <= rowMax; r++) {
+    const shift = r % 2 !== 0 ? BUBBLE_RADIUS : 0;
+    const colMin = Math.max(0, Math.floor((pos.x - dist - xOffset - shift) / (BUBBLE_RADIUS * 2)));
+    const colMax = Math.ceil((pos.x + dist - xOffset - shift) / (BUBBLE_RADIUS * 2));
+    for (let c = colMin; c <= colMax; c++) {
+      if (visit(r, c, getBubblePos(r, c, grid.width, grid.cols))) return;
+    }
+  }
+};
+
+/** True if any bubble center lies closer than `dist` to `pos`. */
+export const hasBubbleWithin = (grid: HexGrid, pos: Point, dist: number) => {
+  let found = false;
+  forEachCellNear(grid, pos, dist, Number.MAX_SAFE_INTEGER, (row, col, center) => {
+    if (isOccupied(grid, row, col) && Math.sqrt((pos.x - center.x) ** 2 + (pos.y - center.y) ** 2) < dist) {
+      found = true;
+      return true;
+    }
+  });
+  return found;
+};
+
+/** Nearest empty, in-bounds cell to `pos`, or null when every cell is taken. The search square doubles until the best hit is provably closest. */
+export const findNearestFreeCell = (grid: HexGrid, pos: Point, maxRows: number): Cell | null => {
+  let best: Cell | null = null;
+  for (let radius = BUBBLE_RADIUS * 2; radius <= BUBBLE_RADIUS * 2 * (maxRows + grid.cols); radius *= 2) {
+    let bestDist = Infinity;
+    forEachCellNear(grid, pos, radius, maxRows - 1, (row, col, center) => {
+      if (col >= getRowCols(row, grid.cols) || isOccupied(grid, row, col)) return;
+      const dist = Math.sqrt((pos.x - center.x) ** 2 + (pos.y - center.y) ** 2);
+      if (dist < bestDist) { bestDist = dist; best = { row, col }; }
+    });
+    // Anything outside the searched square is further than `radius` away
+    if (bestDist <= radius) break;
+  }
+  return best;
+};
+
+/** Connected bubbles reachable from `start` through neighbors that `joins` accepts. */
+export const findCluster = (grid: HexGrid, start: Bubble, joins: (b: Bubble) => boolean = b => b.color === start.color) => {
+  const visited = new Set<Bubble>([start]);
+  const matches: Bubble[] = [];
+  const toCheck = [start];
+  while (toCheck.length > 0) {
+    const current = toCheck.pop()!;
+    matches.push(current);
+    for (const n of getNeighbors(grid, current)) {
+      if (!visited.has(n) && joins(n)) { visited.add(n); toCheck.push(n); }
+    }
+  }
+  return matches;
+};
+
+/**
+ * Bubbles bordering the open space under the board: flood-fills free cells
+ * upward from the empty row below the lowest bubble. Buried bubbles, and
+ * ones walled off inside pockets, are left out.
+ */
+export const findExposedBubbles = (grid: HexGrid) => {
+  let lowestRow = -1;
+  grid.cells.forEach(b => { lowestRow = Math.max(lowestRow, b.row); });
+  const exposed = new Set<Bubble>();
+  const open = new Set<number>();
+  const queue: Cell[] = [];
+  for (let col = 0; col < getRowCols(lowestRow + 1, grid.cols); col++) {
+    open.add(cellKey(lowestRow + 1, col));
+    queue.push({ row: lowestRow + 1, col });
+  }
+  let head = 0;
+  while (head < queue.length) {
+    for (const { row, col } of getNeighborCells(queue[head].row, queue[head].col)) {
+      if (row < 0 || row > lowestRow + 1 || col < 0 || col >= getRowCols(row, grid.cols)) continue;
+      const b = getCell(grid, row, col);
+      if (b) { exposed.add(b); continue; }
+      if (!open.has(cellKey(row, col))) { open.add(cellKey(row, col)); queue.push({ row, col }); }
+    }
+    head++;
+  }
+  return Array.from(exposed);
+};
+
+/** Bubbles with no path of neighbors back to the top row. */
+export const findFloatingBubbles = (grid: HexGrid) => {
+  const connected = new Set<Bubble>();
+  const queue: Bubble[] = [];
+  grid.cells.forEach(b => { if (b.row === 0) { connected.add(b); queue.push(b); } });
+  let head = 0;
+  while (head < queue.length) {
+    for (const n of getNeighbors(grid, queue[head++])) {
+      if (!connected.has(n)) { connected.add(n); queue.push(n); }
+    }
+  }
+  const floating: Bubble[] = [];
+  grid.cells.forEach(b => { if (!connected.has(b)) floating.push(b); });
+  return floating;
+};
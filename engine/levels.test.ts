@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { toLevel } from './levels';
+
+const level = (extra: object) => ({
+  version: 1,
+  name: 'Test',
+  cols: 10,
+  layout: ['R R G G B B R R G G'],
+  ammo: { colors: ['red', 'green', 'blue'] },
+  goal: { type: 'clear' },
+  ...extra
+});
+
+describe('toLevel', () => {
+  it('keeps question options for answering on the canvas', () => {
+    const { questions } = toLevel(level({ questions: [{ question: 'Pick the fruit', answer: 'Apple', options: ['Chair', 'Apple'] }] }));
+    expect(questions?.[0].options).toEqual(['Chair', 'Apple']);
+  });
+
+  it('rejects star scores that are not numbers', () => {
+    expect(toLevel(level({ stars: [3000, '4500'] })).stars).toEqual([3000, 4500]);
+    expect(() => toLevel(level({ stars: [3000, 'lots'] }))).toThrow(/stars/);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BubbleColor, BubbleKind, Difficulty, GameState, LevelDefinition, LevelGoal, LevelPack } from '../types';
+import { getRowCols } from './hexGrid';
+import {
+  COLOR_KEYS, COLOR_LETTERS, DIFFICULTY_CONFIG, GRID_ROWS, INFINITY_DROP_DECAY, KIND_SYMBOLS, MAX_AMMO_PREVIEW, MAX_GRID_COLS, MIN_DROP_INTERVAL, PUZZLE_SHOTS, QUIZ_RUSH_GOAL, TIME_ATTACK_MS
+} from './config';
+
+/*
+ * Hand-authored levels. A level is plain JSON: an exact bubble layout,
+ * the ammo it hands out, how fast the ceiling falls and what counts as a
+ * win. The engine reads these rules from `GameState.level`; everything
+ * here is validation and small helpers around that format.
+ */
+
+export interface LevelCell {
+  row: number;
+  col: number;
+  color: BubbleColor; // Placeholder for colorless kinds
+  kind: BubbleKind;
+}
+
+const LETTER_COLORS: Record<string, BubbleColor> = Object.fromEntries(
+  COLOR_KEYS.map(c => [COLOR_LETTERS[c], c])
+) as Record<string, BubbleColor>;
+
+const SYMBOL_KINDS: Record<string, BubbleKind> = Object.fromEntries(
+  Object.entries(KIND_SYMBOLS).map(([kind, symbol]) => [symbol, kind])
+) as Record<string, BubbleKind>;
+
+/** Layout character for a bubble; also used for the co-pilot's board dump. */
+export const cellSymbol = (color: BubbleColor, kind: BubbleKind) => {
+  if (kind === 'bomb' || kind === 'rainbow' || kind === 'stone') return KIND_SYMBOLS[kind];
+  return kind === 'ice' ? COLOR_LETTERS[color].toLowerCase() : COLOR_LETTERS[color];
+};
+
+const parseSymbol = (ch: string): { color: BubbleColor; kind: BubbleKind } | null => {
+  const kind = SYMBOL_KINDS[ch.toUpperCase()];
+  if (kind) return { color: 'red', kind };
+  const color = LETTER_COLORS[ch.toUpperCase()];
+  if (!color) return null;
+  return { color, kind: ch === ch.toLowerCase() ? 'ice' : 'normal' };
+};
+
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard', 'Infinity'];
+
+/** Bubbles described by a level's layout, top row first. */
+export const getLevelCells = (level: LevelDefinition): LevelCell[] => {
+  const cells: LevelCell[] = [];
+  level.layout.forEach((line, row) => {
+    line.replace(/\s/g, '').split('').forEach((ch, col) => {
+      const cell = parseSymbol(ch);
+      if (cell) cells.push({ row, col, ...cell });
+    });
+  });
+  return cells;
+};
+
+/** Inverse of `getLevelCells`: layout rows down to the lowest bubble, odd rows indented to match the board. */
+export const layoutFromCells = (cells: LevelCell[], cols: number): string[] => {
+  const lowestRow = cells.reduce((max, c) => Math.max(max, c.row), -1);
+  const layout: string[] = [];
+  for (let row = 0; row <= lowestRow; row++) {
+    const line = Array.from({ length: getRowCols(row, cols) }, () => '.');
+    cells.forEach(c => { if (c.row === row && c.col < line.length) line[c.col] = cellSymbol(c.color, c.kind); });
+    layout.push((row % 2 !== 0 ? ' ' : '') + line.join(' '));
+  }
+  return layout;
+};
+
+export const getLevelDifficulty = (level: LevelDefinition): Difficulty => level.difficulty || 'Easy';
+
+/** Milliseconds between ceiling drops; 0 means the ceiling never moves. Infinity gets faster with every drop. */
+export const getDropInterval = (state: GameState) => {
+  if (state.level) return state.level.dropInterval;
+  if (state.mode === 'puzzle') return 0;
+  const base = DIFFICULTY_CONFIG[state.difficulty].dropInterval;
+  if (state.difficulty !== 'Infinity') return base;
+  return Math.max(MIN_DROP_INTERVAL, Math.round(base * INFINITY_DROP_DECAY ** state.rowsDropped));
+};
+
+/** ms until the ceiling drops, null when it never moves. */
+export const getNextDropIn = (state: GameState) => {
+  const interval = getDropInterval(state);
+  return interval > 0 ? Math.max(0, interval - (state.time - state.lastDropTime)) : null;
+};
+
+/** Upcoming shots dealt ahead of the loaded one. */
+export const getAmmoPreview = (state: GameState) =>
+  state.level?.ammo.preview || DIFFICULTY_CONFIG[state.difficulty].ammoPreview;
+
+const getShotLimit = (state: GameState) => {
+  if (state.level) return state.level.goal.type === 'shots' ? state.level.goal.shots : null;
+  return state.mode === 'puzzle' ? PUZZLE_SHOTS[state.difficulty] : null;
+};
+
+export const getShotsLeft = (state: GameState) => {
+  const limit = getShotLimit(state);
+  return limit === null ? null : Math.max(0, limit - state.shotsFired);
+};
+
+/** Time Attack clock in ms, null in other modes. */
+export const getTimeLeft = (state: GameState) =>
+  state.mode === 'timeAttack' ? Math.max(0, TIME_ATTACK_MS - state.time) : null;
+
+/** True once the level's win condition (or the mode's, for random boards) is met. */
+export const isGoalReached = (state: GameState) => {
+  if (!state.level) {
+    switch (state.mode) {
+      case 'classic': return state.difficulty !== 'Infinity' && state.score >= DIFFICULTY_CONFIG[state.difficulty].winScore;
+      case 'timeAttack': return state.time >= TIME_ATTACK_MS; // Surviving the clock is the win
+      case 'puzzle': return state.bubbles.length === 0;
+      case 'quizRush': return state.quizCorrect >= QUIZ_RUSH_GOAL;
+    }
+  }
+  const { goal } = state.level;
+  switch (goal.type) {
+    case 'score': return state.score >= goal.score;
+    case 'clear': return state.bubbles.length === 0;
+    case 'shots': return state.score >= goal.score;
+  }
+};
+
+/** 0 if the level wasn't completed, otherwise 1-3 depending on the score thresholds. */
+export const getLevelStars = (level: LevelDefinition, won: boolean, score: number) => {
+  if (!won) return 0;
+  const [two, three] = level.stars || [Infinity, Infinity];
+  return score >= three ? 3 : score >= two ? 2 : 1;
+};
+
+export const describeGoal = (goal: LevelGoal) => {
+  switch (goal.type) {
+    case 'score': return `Score ${goal.score.toLocaleString()} points`;
+    case 'clear': return 'Clear the board';
+    case 'shots': return `Score ${goal.score.toLocaleString()} in ${goal.shots} shots`;
+  }
+};
+
+// --- Validation ---
+
+const isColorList = (value: any) => Array.isArray(value) && value.every(c => COLOR_KEYS.includes(c));
+
+const checkGoal = (goal: any): LevelGoal => {
+  const positive = (n: any) => typeof n === 'number' && n > 0;
+  if (goal?.type === 'clear') return { type: 'clear' };
+  if (goal?.type === 'score' && positive(goal.score)) return { type: 'score', score: goal.score };
+  if (goal?.type === 'shots' && positive(goal.shots) && positive(goal.score)) return { type: 'shots', shots: goal.shots, score: goal.score };
+  throw new Error('Level goal must be "score", "clear" or "shots"');
+};
+
+/** Checks a parsed level object and fills in defaults. Throws with a readable message on bad input. */
+export const toLevel = (data: any): LevelDefinition => {
+  if (data?.version !== 1) throw new Error('Not a Gemini Slingshot level (version 1)');
+  const name = typeof data.name === 'string' && data.name.trim() ? data.name.trim() : 'Untitled Level';
+  if (!Number.isInteger(data.cols) || data.cols < 5 || data.cols > MAX_GRID_COLS) throw new Error(`"${name}": cols must be 5-${MAX_GRID_COLS}`);
+  if (!Array.isArray(data.layout) || data.layout.length === 0 || data.layout.length > GRID_ROWS) throw new Error(`"${name}": layout needs 1-${GRID_ROWS} rows`);
+  data.layout.forEach((line: any, row: number) => {
+    const cells = typeof line === 'string' ? line.replace(/\s/g, '') : null;
+    if (cells === null || !/^[RBGYPOX*#.]*$/i.test(cells)) throw new Error(`"${name}": row ${row} may only use R B G Y P O (lowercase for ice), X * # and .`);
+    if (cells.length > getRowCols(row, data.cols)) throw new Error(`"${name}": row ${row} is wider than ${getRowCols(row, data.cols)} cells`);
+  });
+  if (!isColorList(data.ammo?.colors) || data.ammo.colors.length === 0) throw new Error(`"${name}": ammo.colors must list bubble colors`);
+  if (data.ammo.sequence !== undefined && !isColorList(data.ammo.sequence)) throw new Error(`"${name}": ammo.sequence must list bubble colors`);
+  const preview = data.ammo.preview;
+  if (preview !== undefined && (!Number.isInteger(preview) || preview < 1 || preview > MAX_AMMO_PREVIEW)) throw new Error(`"${name}": ammo.preview must be 1-${MAX_AMMO_PREVIEW}`);
+  if (data.difficulty !== undefined && !DIFFICULTIES.includes(data.difficulty)) throw new Error(`"${name}": unknown difficulty ${data.difficulty}`);
+
+  const level: LevelDefinition = {
+    version: 1,
+    id: typeof data.id === 'string' && data.id ? data.id : name.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+    name,
+    cols: data.cols,
+    layout: data.layout,
+    ammo: { colors: data.ammo.colors, ...(data.ammo.sequence ? { sequence: data.ammo.sequence } : {}), ...(preview ? { preview } : {}) },
+    dropInterval: typeof data.dropInterval === 'number' && data.dropInterval > 0 ? data.dropInterval : 0,
+    goal: checkGoal(data.goal)
+  };
+  if (getLevelCells(level).length === 0) throw new Error(`"${name}": layout has no bubbles`);
+  if (typeof data.description === 'string' && data.description) level.description = data.description;
+  if (data.difficulty) level.difficulty = data.difficulty;
+  if (data.stars !== undefined) {
+    const stars = Array.isArray(data.stars) && data.stars.length === 2 ? data.stars.map(Number) : [];
+    if (stars.length !== 2 || !stars.every(Number.isFinite)) throw new Error(`"${name}": stars must be two scores`);
+    level.stars = [stars[0], stars[1]];
+  }
+  if (typeof data.topic === 'string' && data.topic) level.topic = data.topic;
+  if (Array.isArray(data.questions)) {
+    level.questions = data.questions
+      .filter((q: any) => typeof q?.question === 'string' && typeof q?.answer === 'string')
+      .map((q: any) => ({
+        question: q.question,
+        type: 'custom',
+        answer: q.answer,
+        explanation: typeof q.explanation === 'string' ? q.explanation : '',
+        // Lets the question be answered on the canvas (see components/answerTargets.ts)
+        ...(Array.isArray(q.options) && q.options.every((o: any) => typeof o === 'string') ? { options: q.options } : {})
+      }));
+  }
+  return level;
+};
+
+/** Accepts either a pack (`{ name, levels }`) or a single level. */
+export const toLevelPack = (data: any): LevelPack => {
+  if (Array.isArray(data?.levels)) {
+    if (data.levels.length === 0) throw new Error('Level pack has no levels');
+    return { name: typeof data.name === 'string' ? data.name : 'Custom Pack', levels: data.levels.map(toLevel) };
+  }
+  const level = toLevel(data);
+  return { name: level.name, levels: [level] };
+};
+
+export const parseLevelPack = (json: string): LevelPack => toLevelPack(JSON.parse(json));
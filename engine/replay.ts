@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { EngineEvent, EngineInput, GameState, SessionReplay, StepResult } from '../types';
+import { createGame, getGridCols, step } from './gameEngine';
+import { toLevel } from './levels';
+
+/*
+ * Session recording and playback. A replay stores the seed plus every
+ * non-tick input (shots, quiz outcomes, resizes, row drops) stamped with
+ * the tick it happened on. Because the engine is deterministic, feeding
+ * the same inputs at the same ticks rebuilds the session exactly.
+ */
+
+// Bumped whenever a rule change would make old inputs play out differently (2: special bubbles, 3: reachable ammo, 4: score multipliers)
+export const REPLAY_VERSION = 4;
+
+export interface ReplayCursor {
+  state: GameState;
+  tick: number;
+  entryIndex: number;
+}
+
+export const createReplay = (game: GameState): SessionReplay => ({
+  version: REPLAY_VERSION,
+  seed: game.seed,
+  difficulty: game.difficulty,
+  ...(game.mode !== 'classic' ? { mode: game.mode } : {}),
+  width: game.width,
+  height: game.height,
+  ...(game.cols !== getGridCols(game.width) && !game.level ? { cols: game.cols } : {}),
+  entries: [],
+  totalTicks: 0,
+  duration: 0,
+  finalScore: game.score,
+  recordedAt: new Date().toISOString(),
+  ...(game.level ? { level: game.level } : {})
+});
+
+/** Appends whatever part of a live engine step is needed to reproduce it. Mutates the replay. */
+export const recordStep = (replay: SessionReplay, input: EngineInput, before: GameState, result: StepResult) => {
+  const { events } = result;
+  const tick = replay.totalTicks;
+  switch (input.type) {
+    case 'tick':
+      // Drops depend on wall-clock frame timing, so store them as explicit inputs
+      if (events.some(e => e.type === 'rowDropped')) replay.entries.push({ tick, time: before.time, input: { type: 'dropRow' } });
+      if (!before.gameOver) {
+        replay.totalTicks += 1;
+        replay.duration += input.dt;
+      }
+      break;
+    case 'shot':
+      if (events.some(e => e.type === 'launched')) replay.entries.push({ tick, time: before.time, input, ammo: before.currentAmmo });
+      break;
+    case 'resolveMatch':
+      if (before.pendingMatch.length > 0) replay.entries.push({ tick, time: before.time, input });
+      break;
+    default:
+      replay.entries.push({ tick, time: before.time, input });
+  }
+  replay.finalScore = result.state.score;
+};
+
+export const startReplay = (replay: SessionReplay): ReplayCursor => ({
+  state: createGame({ width: replay.width, height: replay.height, difficulty: replay.difficulty, mode: replay.mode, seed: replay.seed, cols: replay.cols, level: replay.level }),
+  tick: 0,
+  entryIndex: 0
+});
+
+export const isReplayFinished = (replay: SessionReplay, cursor: ReplayCursor) =>
+  cursor.tick >= replay.totalTicks && cursor.entryIndex >= replay.entries.length;
+
+/** Applies the inputs recorded for the cursor's tick, then runs that tick. */
+export const advanceReplay = (replay: SessionReplay, cursor: ReplayCursor): { cursor: ReplayCursor; events: EngineEvent[] } => {
+  let { state, entryIndex } = cursor;
+  const events: EngineEvent[] = [];
+
+  while (entryIndex < replay.entries.length && replay.entries[entryIndex].tick <= cursor.tick) {
+    const result = step(state, replay.entries[entryIndex].input);
+    state = result.state;
+    events.push(...result.events);
+    entryIndex++;
+  }
+
+  if (cursor.tick < replay.totalTicks) {
+    const dt = replay.duration / replay.totalTicks;
+    const result = step(state, { type: 'tick', dt, holdDrop: true });
+    state = result.state;
+    events.push(...result.events);
+  }
+
+  return { cursor: { state, tick: cursor.tick + 1, entryIndex }, events };
+};
+
+/** Re-runs the whole replay and checks that it reaches the recorded score. */
+export const verifyReplay = (replay: SessionReplay) => {
+  let cursor = startReplay(replay);
+  while (!isReplayFinished(replay, cursor)) cursor = advanceReplay(replay, cursor).cursor;
+  return cursor.state.score === replay.finalScore;
+};
+
+export const parseReplay = (json: string): SessionReplay => {
+  const data = JSON.parse(json);
+  if (typeof data?.version !== 'number' || typeof data.seed !== 'number' || !Array.isArray(data.entries)) {
+    throw new Error('Not a Gemini Slingshot replay file');
+  }
+  if (data.version !== REPLAY_VERSION) throw new Error('This replay was recorded with an older version of the game');
+  if (data.level) data.level = toLevel(data.level);
+  return data as SessionReplay;
+};
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Seedable pseudo-random generator (mulberry32).
+ * Its whole state is a single uint32, so it can be stored inside GameState
+ * and a game can be reproduced exactly from its seed.
+ */
+export interface Rng {
+  next: () => number; // [0, 1)
+  getState: () => number;
+}
+
+export const createRng = (seed: number): Rng => {
+  let s = seed >>> 0;
+  return {
+    next: () => {
+      s = (s + 0x6D2B79F5) >>> 0;
+      let t = s;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    getState: () => s
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 4294967296) >>> 0;
+
+export const pickRandom = <T,>(rng: Rng, items: T[]): T => items[Math.floor(rng.next() * items.length)];
+
+/** Picks an item with probability proportional to its weight. Weights must not all be zero. */
+export const pickWeighted = <T,>(rng: Rng, items: T[], weights: number[]): T => {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let roll = rng.next() * total;
+  for (let i = 0; i < items.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return items[i];
+  }
+  return items[items.length - 1];
+};
+
+export const shuffle = <T,>(rng: Rng, items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng.next() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Bubble, GameState, Point, ShotSuggestion } from '../types';
+import { advanceFlight, COLLISION_DIST, findLandingCell, findLandingPops, getAnchor, getBoardGrid, launchVelocity, step } from './gameEngine';
+import { getBubblePos, getHexGrid, hasBubbleWithin } from './hexGrid';
+import { MAX_DRAG_DIST, MAX_FLIGHT_TICKS, MIN_LAUNCH_DIST } from './config';
+
+/*
+ * Shot suggestions. Each candidate pull is flown over the board with the
+ * engine's own flight step, which only needs the board geometry. The outcome
+ * of each landing cell is then resolved once through the real engine `step`,
+ * so predictions follow the same physics, landing and match rules as an
+ * actual shot without replaying whole game states per candidate.
+ */
+
+// Pull directions sampled across the upper half-circle, at a few strengths
+const AIM_ANGLE_MIN = 10; // Degrees above horizontal
+const AIM_ANGLE_MAX = 170;
+const AIM_ANGLE_STEP = 2.5;
+const AIM_POWERS = [1.0, 0.8, 0.6];
+
+const AVALANCHE_WEIGHT = 2; // A dropped bubble is worth twice a popped one, like in scoring
+
+/** Flies one pull from the slingshot and returns its path and landing cell, or null if it misses. */
+const traceShot = (state: GameState, dx: number, dy: number) => {
+  const velocity = launchVelocity(dx, dy);
+  if (!velocity) return null;
+  const anchor = getAnchor(state.width, state.height);
+  const p = { x: anchor.x - dx, y: anchor.y - dy, ...velocity };
+  const grid = getBoardGrid(state);
+  // Nothing to hit until the ball climbs past the lowest bubble
+  const reach = Math.max(...state.bubbles.map(b => b.y)) + COLLISION_DIST;
+  const hits = (pos: Point) => pos.y < reach && hasBubbleWithin(grid, pos, COLLISION_DIST);
+
+  const path: Point[] = [{ x: p.x, y: p.y }];
+  for (let age = 1; age <= MAX_FLIGHT_TICKS; age++) {
+    if (advanceFlight(p, state.width, hits)) {
+      const cell = findLandingCell(grid, p);
+      if (!cell) return null;
+      path.push(getBubblePos(cell.row, cell.col, state.width, state.cols));
+      return { cell, path };
+    }
+    if (p.y > state.height) return null;
+    path.push({ x: p.x, y: p.y });
+  }
+  return null;
+};
+
+/** What the loaded ammo would clear when it comes to rest in a cell. */
+const resolveLanding = (state: GameState, row: number, col: number) => {
+  const landed: Bubble = { id: `b${state.nextId}`, row, col, ...getBubblePos(row, col, state.width, state.cols), color: state.currentAmmo, kind: 'normal', active: true };
+  const bubbles = [...state.bubbles, landed];
+  const popping = findLandingPops(getHexGrid(bubbles, state.width, state.cols), landed);
+  const cluster: string[] = [];
+  let floating: string[] = [];
+  if (popping.length === 0) return { cluster, floating, value: 0 };
+
+  // Aim from a settled board: no ball in the air, nothing waiting on the quiz
+  const resolved = step({ ...state, bubbles, projectile: null, pendingMatch: popping.map(b => b.id), quizPending: false }, { type: 'resolveMatch', awarded: true });
+  resolved.events.forEach(e => {
+    if (e.type === 'matched') cluster.push(...e.bubbles.filter(b => b.id !== landed.id).map(b => b.id));
+    if (e.type === 'bombBlast') cluster.push(e.origin.id, ...e.bubbles.filter(b => b.id !== landed.id).map(b => b.id));
+    if (e.type === 'avalanche') floating = e.bubbles.map(b => b.id);
+  });
+  return { cluster, floating, value: cluster.length > 0 ? cluster.length + 1 + floating.length * AVALANCHE_WEIGHT : 0 };
+};
+
+/** Fires one pull over the board and reports where it lands and what it would clear. */
+export const simulateShot = (state: GameState, dx: number, dy: number): ShotSuggestion | null => {
+  const shot = traceShot(state, dx, dy);
+  if (!shot) return null;
+  return { dx, dy, cell: shot.cell, path: shot.path, ...resolveLanding(state, shot.cell.row, shot.cell.col) };
+};
+
+export interface ShotSearch {
+  /** Tries up to `pulls` more candidates; returns the suggestions once every candidate is done, null until then. */
+  advance: (pulls?: number) => ShotSuggestion[] | null;
+}
+
+/**
+ * Best shots for the loaded ammo, found a few candidates at a time so the
+ * game loop can spread the sweep over several frames. Highest value first,
+ * one shot per landing cell, and shots that clear nothing are left out.
+ */
+export const createShotSearch = (state: GameState, limit = 3): ShotSearch => {
+  const pulls: { dx: number; dy: number }[] = [];
+  if (!state.gameOver && state.bubbles.length > 0) {
+    for (const power of AIM_POWERS) {
+      const dist = Math.max(MIN_LAUNCH_DIST + 1, MAX_DRAG_DIST * power);
+      for (let deg = AIM_ANGLE_MIN; deg <= AIM_ANGLE_MAX; deg += AIM_ANGLE_STEP) {
+        const angle = deg * Math.PI / 180;
+        // Pull vector points the way the ball flies: up is negative y
+        pulls.push({ dx: Math.cos(angle) * dist, dy: -Math.sin(angle) * dist });
+      }
+    }
+  }
+
+  // Landing cells already resolved; a cell that clears nothing is kept as null
+  const byCell = new Map<string, ShotSuggestion | null>();
+  let next = 0;
+
+  return {
+    advance: (count = Infinity) => {
+      for (const end = Math.min(pulls.length, next + count); next < end; next++) {
+        const { dx, dy } = pulls[next];
+        const shot = traceShot(state, dx, dy);
+        if (!shot) continue;
+        const key = `${shot.cell.row}:${shot.cell.col}`;
+        if (byCell.has(key)) continue;
+        const outcome = resolveLanding(state, shot.cell.row, shot.cell.col);
+        byCell.set(key, outcome.value > 0 ? { dx, dy, ...shot, ...outcome } : null);
+      }
+      if (next < pulls.length) return null;
+      return Array.from(byCell.values())
+        .filter((s): s is ShotSuggestion => s !== null)
+        .sort((a, b) => b.value - a.value)
+        .slice(0, limit);
+    }
+  };
+};
+
+/** Best shots for the loaded ammo in one go, for callers outside the game loop. */
+export const findShotSuggestions = (state: GameState, limit = 3): ShotSuggestion[] => createShotSearch(state, limit).advance()!;
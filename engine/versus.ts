@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Difficulty, EngineEvent, EngineInput, VersusState } from '../types';
+import { createGame, step } from './gameEngine';
+import { GARBAGE_BUBBLES_PER_ROW, MAX_GARBAGE_ROWS } from './config';
+
+/*
+ * Two-player local versus: two ordinary engine boards side by side.
+ * Both start from the same seed so the boards and ammo are identical;
+ * clearing bubbles on one board pushes garbage rows onto the other, and
+ * the first board to reach its danger line loses.
+ */
+
+export const createVersus = (options: { width: number; height: number; difficulty: Difficulty; seed: number }): VersusState => {
+  const board = createGame(options);
+  return { boards: [board, { ...board }], winner: null };
+};
+
+/** Rows one step's clears send to the opponent. */
+export const getGarbageRows = (events: EngineEvent[]) => {
+  const cleared = events.reduce((sum, e) => {
+    if (e.type === 'matched' || e.type === 'bombBlast') return sum + e.bubbles.length;
+    if (e.type === 'avalanche') return sum + e.bubbles.length * 2;
+    return sum;
+  }, 0);
+  return Math.min(MAX_GARBAGE_ROWS, Math.floor(cleared / GARBAGE_BUBBLES_PER_ROW));
+};
+
+/** Applies one player's input, then delivers any garbage it earned. Events are split per board. */
+export const stepVersus = (versus: VersusState, player: 0 | 1, input: EngineInput): { state: VersusState; events: [EngineEvent[], EngineEvent[]] } => {
+  const boards: VersusState['boards'] = [...versus.boards];
+  const events: [EngineEvent[], EngineEvent[]] = [[], []];
+  if (versus.winner !== null) return { state: versus, events };
+
+  const result = step(boards[player], input);
+  boards[player] = result.state;
+  events[player] = result.events;
+
+  const opponent = player === 0 ? 1 : 0;
+  const rows = getGarbageRows(result.events);
+  if (rows > 0) {
+    const garbage = step(boards[opponent], { type: 'garbage', rows });
+    boards[opponent] = garbage.state;
+    events[opponent] = garbage.events;
+  }
+
+  // Whoever overran first loses; an overrun caused by garbage counts against the receiver
+  let winner: VersusState['winner'] = null;
+  if (boards[player].gameOver) winner = opponent;
+  else if (boards[opponent].gameOver) winner = player;
+  return { state: { boards, winner }, events };
+};
@@ -0,0 +1,198 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/*
+ * Classroom battle relay. Runs on the teacher's laptop (`npm run relay`,
+ * PORT overrides 8787) and needs nothing beyond Node itself. It keeps the
+ * roster and the current round: the teacher's start/stop controls go out
+ * to every student, and each student's progress is merged into one live
+ * scoreboard that everyone receives. Messages are the JSON shapes
+ * ClassroomClientMessage / ClassroomServerMessage in types.ts.
+ */
+
+import { createServer } from 'node:http';
+import { createHash, randomUUID } from 'node:crypto';
+import { networkInterfaces } from 'node:os';
+
+const PORT = Number(process.env.PORT) || 8787;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 1024 * 1024; // Rounds carry their question list
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xA;
+
+const clients = new Map(); // id -> { socket, role, player }
+let round = null;
+let nextRoundId = 1;
+
+// --- WebSocket framing (RFC 6455; browsers never fragment messages this small) ---
+
+const encodeFrame = (payload, opcode = OPCODE_TEXT) => {
+  const data = Buffer.isBuffer(payload) ? payload : Buffer.from(payload);
+  const extra = data.length < 126 ? 0 : data.length < 65536 ? 2 : 8;
+  const header = Buffer.alloc(2 + extra);
+  header[0] = 0x80 | opcode;
+  if (extra === 0) header[1] = data.length;
+  else if (extra === 2) { header[1] = 126; header.writeUInt16BE(data.length, 2); }
+  else { header[1] = 127; header.writeBigUInt64BE(BigInt(data.length), 2); }
+  return Buffer.concat([header, data]);
+};
+
+// Hands every complete frame at the front of `buffer` to onFrame; returns the incomplete rest
+const readFrames = (buffer, onFrame) => {
+  while (buffer.length >= 2) {
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (buffer.length < 4) break;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) break;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+    const mask = masked ? buffer.subarray(offset, offset + 4) : null;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) break;
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (mask) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    onFrame(opcode, payload);
+    buffer = buffer.subarray(offset + length);
+  }
+  return buffer;
+};
+
+// --- Room ---
+
+const send = (client, message) => {
+  if (!client.socket.destroyed) client.socket.write(encodeFrame(JSON.stringify(message)));
+};
+
+const broadcast = (message) => clients.forEach(client => { if (client.role) send(client, message); });
+
+// Students only, best score first
+const getStandings = () => [...clients.values()]
+  .filter(c => c.role === 'student')
+  .map(c => c.player)
+  .sort((a, b) => b.score - a.score);
+
+const broadcastScoreboard = () => broadcast({ type: 'scoreboard', players: getStandings(), roundActive: round !== null });
+
+const resetProgress = (player) => Object.assign(player, { score: 0, gameOver: false, quizCorrect: 0, quizMissed: 0 });
+
+const toCount = (value) => Math.max(0, Math.floor(Number(value)) || 0);
+
+const isRoundSettings = (data) =>
+  Number.isInteger(data?.seed) && Number.isInteger(data.cols) && typeof data.difficulty === 'string' &&
+  typeof data.mode === 'string' && Array.isArray(data.questions) && data.questions.length > 0;
+
+const handleMessage = (client, text) => {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch (e) {
+    send(client, { type: 'error', message: 'Message is not JSON' });
+    return;
+  }
+
+  switch (message?.type) {
+    case 'join':
+      client.role = message.role === 'teacher' ? 'teacher' : 'student';
+      client.player.name = String(message.name || (client.role === 'teacher' ? 'Teacher' : 'Student')).slice(0, 40);
+      client.player.className = String(message.className || '').slice(0, 40);
+      send(client, { type: 'welcome', id: client.player.id, role: client.role, round });
+      broadcastScoreboard();
+      console.log(`${client.player.name} joined as ${client.role}`);
+      break;
+    case 'startRound':
+      if (client.role !== 'teacher') return send(client, { type: 'error', message: 'Only the teacher can start a round' });
+      if (!isRoundSettings(message.round)) return send(client, { type: 'error', message: 'Round settings are incomplete' });
+      round = { ...message.round, id: nextRoundId++, startedAt: new Date().toISOString() };
+      clients.forEach(c => resetProgress(c.player));
+      broadcast({ type: 'roundStarted', round });
+      broadcastScoreboard();
+      console.log(`Round ${round.id} started (${round.difficulty}, ${round.mode}, seed ${round.seed})`);
+      break;
+    case 'stopRound':
+      if (client.role !== 'teacher') return send(client, { type: 'error', message: 'Only the teacher can stop a round' });
+      if (!round) return;
+      console.log(`Round ${round.id} stopped`);
+      round = null;
+      broadcast({ type: 'roundStopped', players: getStandings() });
+      broadcastScoreboard();
+      break;
+    case 'progress':
+      if (client.role !== 'student' || !round) return;
+      Object.assign(client.player, {
+        score: toCount(message.score),
+        gameOver: !!message.gameOver,
+        quizCorrect: toCount(message.quizCorrect),
+        quizMissed: toCount(message.quizMissed)
+      });
+      broadcastScoreboard();
+      break;
+    default:
+      send(client, { type: 'error', message: `Unknown message type: ${String(message?.type)}` });
+  }
+};
+
+// --- Server ---
+
+const server = createServer((req, res) => {
+  res.writeHead(200, { 'Content-Type': 'text/plain' });
+  res.end('Gemini Slingshot classroom relay. Connect from the game with ws://<this address>:' + PORT + '\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key || String(req.headers.upgrade).toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', ''
+  ].join('\r\n'));
+
+  const id = randomUUID();
+  const client = { socket, role: null, player: resetProgress({ id, name: '', className: '' }) };
+  clients.set(id, client);
+
+  let pending = Buffer.alloc(0);
+  socket.on('data', chunk => {
+    pending = readFrames(Buffer.concat([pending, chunk]), (opcode, payload) => {
+      if (opcode === OPCODE_TEXT) handleMessage(client, payload.toString('utf8'));
+      else if (opcode === OPCODE_CLOSE) socket.end(encodeFrame(Buffer.alloc(0), OPCODE_CLOSE));
+      else if (opcode === OPCODE_PING) socket.write(encodeFrame(payload, OPCODE_PONG));
+    });
+    if (pending.length > MAX_MESSAGE_BYTES) socket.destroy();
+  });
+
+  const leave = () => {
+    if (!clients.delete(id)) return;
+    if (client.role) console.log(`${client.player.name} left`);
+    broadcastScoreboard();
+  };
+  socket.on('close', leave);
+  socket.on('error', leave);
+});
+
+server.listen(PORT, () => {
+  const addresses = Object.values(networkInterfaces())
+    .flat()
+    .filter(a => a && a.family === 'IPv4' && !a.internal)
+    .map(a => a.address);
+  console.log(`Classroom relay listening on port ${PORT}. Students connect to:`);
+  [...addresses, 'localhost'].forEach(address => console.log(`  ws://${address}:${PORT}`));
+});
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { HandCalibration } from '../types';
+
+// Hand calibrations by player name, so everyone sharing a classroom laptop keeps their own
+
+const STORAGE_KEY = 'gemini_slingshot_calibrations';
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+const readAll = (): Record<string, HandCalibration> => {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) || {};
+  } catch (e) {
+    console.error("Failed to load hand calibrations", e);
+    return {};
+  }
+};
+
+const isCalibration = (data: any): data is HandCalibration =>
+  data?.version === 1 && typeof data.pinchGrab === 'number' && typeof data.pinchRelease === 'number' &&
+  typeof data.area?.minX === 'number' && data.area.maxX > data.area.minX && data.area.maxY > data.area.minY;
+
+export const readCalibration = (name: string): HandCalibration | null => {
+  if (!name.trim()) return null;
+  const calibration = readAll()[nameKey(name)];
+  return isCalibration(calibration) ? calibration : null;
+};
+
+export const writeCalibration = (name: string, calibration: HandCalibration) => {
+  if (!name.trim()) return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readAll(), [nameKey(name)]: calibration }));
+};
@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CameraSettings } from '../types';
+
+// Camera choice, quality and privacy, per device: a classroom projector keeps its privacy mode between lessons
+
+const STORAGE_KEY = 'gemini_slingshot_camera';
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = { deviceId: '', quality: 'high', privacy: 'off' };
+
+export const readCameraSettings = (): CameraSettings => {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return DEFAULT_CAMERA_SETTINGS;
+  try {
+    return { ...DEFAULT_CAMERA_SETTINGS, ...JSON.parse(raw) };
+  } catch (e) {
+    console.error("Failed to load camera settings", e);
+    return DEFAULT_CAMERA_SETTINGS;
+  }
+};
+
+export const writeCameraSettings = (settings: CameraSettings) => localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
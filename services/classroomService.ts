@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ClassroomClientMessage, ClassroomPlayer, ClassroomRole, ClassroomRound, ClassroomServerMessage, QuizQuestion, UserProfile } from '../types';
+import { generateQuizQuestion } from './geminiService';
+
+// Client side of the classroom battle; the relay lives in server/classroomRelay.js
+
+export const CLASSROOM_PORT = 8787;
+export const QUESTIONS_PER_ROUND = 10; // Asked in order, repeating if a student gets through all of them
+
+// Where the page was loaded from is usually the teacher's laptop too
+export const getDefaultClassroomUrl = () => `ws://${window.location.hostname || 'localhost'}:${CLASSROOM_PORT}`;
+
+export interface ClassroomSession {
+  url: string;
+  role: ClassroomRole;
+  status: 'connecting' | 'connected' | 'closed';
+  playerId: string | null;
+  players: ClassroomPlayer[]; // Live scoreboard, best score first
+  round: ClassroomRound | null;
+  finalStandings: ClassroomPlayer[] | null; // From the last round the teacher stopped
+  error: string | null;
+}
+
+export interface ClassroomConnection {
+  send: (message: ClassroomClientMessage) => void;
+  close: () => void;
+}
+
+const SERVER_MESSAGE_TYPES: ClassroomServerMessage['type'][] = ['welcome', 'scoreboard', 'roundStarted', 'roundStopped', 'error'];
+
+export const parseServerMessage = (data: string): ClassroomServerMessage => {
+  const message = JSON.parse(data);
+  if (!SERVER_MESSAGE_TYPES.includes(message?.type)) throw new Error(`Unknown classroom message: ${String(message?.type)}`);
+  return message as ClassroomServerMessage;
+};
+
+export const connectClassroom = (
+  url: string,
+  handlers: { onOpen: () => void; onMessage: (message: ClassroomServerMessage) => void; onClose: () => void }
+): ClassroomConnection => {
+  const socket = new WebSocket(url);
+  socket.onopen = handlers.onOpen;
+  socket.onmessage = (e) => {
+    try {
+      handlers.onMessage(parseServerMessage(String(e.data)));
+    } catch (err) {
+      console.warn("Ignoring classroom message:", err);
+    }
+  };
+  socket.onclose = handlers.onClose;
+  return {
+    send: (message) => { if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message)); },
+    close: () => socket.close()
+  };
+};
+
+/** Teacher: the question list every student gets, in the same order. Custom questions win over Gemini. */
+export const buildRoundQuestions = async (profile: UserProfile): Promise<QuizQuestion[]> => {
+  if (profile.customQuestions?.length) return profile.customQuestions;
+  const responses = await Promise.all(
+    Array.from({ length: QUESTIONS_PER_ROUND }, () => generateQuizQuestion(profile.topic, profile.className, profile.difficulty))
+  );
+  return responses.map(r => r.quiz);
+};
@@ -3,8 +3,14 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI } from "@google/genai";
-import { AiResponse, DebugInfo, QuizQuestion, Difficulty } from "../types";
+import { GoogleGenAI, Type } from "@google/genai";
+import { AiResponse, DebugInfo, QuizQuestion, Difficulty, GameState, StrategyAdvice, StrategyResponse, VocabularyResponse, VocabularyWord } from "../types";
+import { getDangerY, getBoardGrid } from "../engine/gameEngine";
+import { getCell, getRowCols, isOccupied } from "../engine/hexGrid";
+import { findShotSuggestions, simulateShot } from "../engine/solver";
+import { cellSymbol, getDropInterval, getShotsLeft } from "../engine/levels";
+import { COLOR_CONFIG, ROW_HEIGHT, MAX_DRAG_DIST } from "../engine/config";
+import { GENERAL_WORDS, WORD_GROUPS } from "./wordList";
 
 // Initialize Gemini Client
 let ai: GoogleGenAI | null = null;
@@ -34,6 +40,7 @@ export const generateQuizQuestion = async (
   const fallbackQuestion: QuizQuestion = {
     question: "The API could not be reached. Spell 'Apple'.",
     type: "missing-char",
+    options: ["Apple", "Aple", "Appel"],
     answer: "Apple",
     explanation: "Network error occurred."
   };
@@ -70,10 +77,15 @@ export const generateQuizQuestion = async (
     2. 'rearrange': A scrambled sentence to put in order.
     3. 'missing-char': A vocabulary word related to the topic with 1-2 missing letters (e.g., "C_mputer").
 
+    Also give "options", so the student can answer without a keyboard:
+    - 'fill-blank' and 'missing-char': 3 or 4 short choices, one of them exactly the answer.
+    - 'rearrange': every word of the answer sentence, each once, in scrambled order.
+
     RETURN JSON ONLY.
     {
       "question": "The question text",
       "type": "fill-blank" | "rearrange" | "missing-char",
+      "options": ["choice or word", "..."],
       "answer": "The correct answer string",
       "explanation": "Short explanation in Vietnamese (Tiếng Việt) about why this is correct."
     }
@@ -104,6 +116,7 @@ export const generateQuizQuestion = async (
                 quiz: {
                     question: json.question,
                     type: json.type || 'fill-blank',
+                    options: Array.isArray(json.options) ? json.options.filter((o: unknown) => typeof o === 'string') : undefined,
                     answer: json.answer,
                     explanation: json.explanation || "Correct!"
                 },
@@ -128,4 +141,263 @@ export const generateQuizQuestion = async (
         debug: { ...debug, error: error.message || "Unknown API Error" }
     };
   }
-};
\ No newline at end of file
+};
+
+// --- Strategic Co-pilot ---
+
+const getLowestRow = (state: GameState) => state.bubbles.reduce((max, b) => Math.max(max, b.row), -1);
+
+/** Plain-text board description for the prompt. One line per row, top (ceiling) first. */
+export const serializeBoard = (state: GameState) => {
+  const grid = getBoardGrid(state);
+  const lowestRow = getLowestRow(state);
+  const rows: string[] = [];
+  // One extra empty row so cells just under the lowest bubble can be targeted
+  for (let r = 0; r <= lowestRow + 1; r++) {
+    const cells: string[] = [];
+    for (let c = 0; c < getRowCols(r, state.cols); c++) {
+      const b = getCell(grid, r, c);
+      cells.push(b ? cellSymbol(b.color, b.kind) : '.');
+    }
+    rows.push(`Row ${r}: ${r % 2 !== 0 ? ' ' : ''}${cells.join(' ')}`);
+  }
+
+  const lowestY = state.bubbles.reduce((max, b) => Math.max(max, b.y), 0);
+  const rowsToDanger = Math.max(0, Math.floor((getDangerY(state.height) - lowestY) / ROW_HEIGHT));
+  const dropInterval = getDropInterval(state);
+  const nextDrop = Math.max(0, dropInterval - (state.time - state.lastDropTime));
+  const shotsLeft = getShotsLeft(state);
+
+  return [
+    `Hexagonal grid, ${state.cols} columns on even rows and ${state.cols - 1} on odd rows (odd rows are shifted half a bubble to the right). Row 0 is the ceiling.`,
+    `Legend: R=red B=blue G=green Y=yellow P=purple O=orange .=empty. Lowercase letter = ice of that color (takes two hits to pop). X=bomb (a shot landing next to it clears the area around it), *=rainbow (matches any color), #=stone (never matches, only falls when cut loose)`,
+    ...rows,
+    `Loaded ammo: ${state.currentAmmo}`,
+    `Next ammo: ${state.nextAmmo}`,
+    ...(state.upcomingAmmo.length > 0 ? [`Then: ${state.upcomingAmmo.join(', ')}`] : []),
+    `Empty rows above the danger line: ${rowsToDanger}`,
+    dropInterval > 0 ? `Next ceiling drop in: ${Math.round(nextDrop / 1000)}s` : `The ceiling never drops`,
+    ...(shotsLeft !== null ? [`Shots left: ${shotsLeft}`] : []),
+    ...(state.wordTarget ? [`Spelling "${state.wordTarget.word}": popping or dropping these lettered bubbles collects the letters: ${
+      state.bubbles.filter(b => b.letter).map(b => `${b.letter} at row ${b.row} col ${b.col}`).join(', ') || 'none yet'
+    }`] : [])
+  ].join('\n');
+};
+
+/** Deterministic advice from the local solver, used offline and whenever Gemini can't be used. */
+export const getLocalStrategyAdvice = (state: GameState): StrategyAdvice => {
+  const [best] = findShotSuggestions(state, 1);
+  const color = COLOR_CONFIG[state.currentAmmo].label;
+  if (best) {
+    const extra = best.floating.length > 0 ? ` and drops ${best.floating.length} more` : '';
+    return {
+      target: best.cell,
+      rationale: `Land ${color} at row ${best.cell.row}, col ${best.cell.col}: pops ${best.cluster.length + 1}${extra}.`,
+      source: 'local'
+    };
+  }
+  // Nothing to pop: park the ball straight up, out of the way of the danger line
+  const park = simulateShot(state, 0, -MAX_DRAG_DIST);
+  return {
+    target: park ? park.cell : { row: 0, col: 0 },
+    rationale: `No ${color} match yet - park it high and save space for the ${COLOR_CONFIG[state.nextAmmo].label} coming next.`,
+    source: 'local'
+  };
+};
+
+export const getStrategyAdvice = async (state: GameState): Promise<StrategyResponse> => {
+  const startTime = performance.now();
+
+  const debug: DebugInfo = {
+    latency: 0,
+    rawResponse: "",
+    timestamp: new Date().toLocaleTimeString()
+  };
+
+  if (!ai) {
+    return {
+        advice: getLocalStrategyAdvice(state),
+        debug: { ...debug, error: "API Key Missing" }
+    };
+  }
+
+  const prompt = `
+    You are the strategic co-pilot in a bubble shooter game.
+    The player fires the loaded ammo from a slingshot at the bottom; it can bank off the side walls.
+    Three or more touching bubbles of the same color pop, and bubbles no longer connected to the ceiling drop.
+    Avoid letting bubbles reach the danger line.
+
+    Board:
+    ${serializeBoard(state)}
+
+    Pick the single best EMPTY cell for the loaded ammo to come to rest in, and explain why in one short sentence.
+  `;
+
+  try {
+    const response = await ai.models.generateContent({
+      model: MODEL_NAME,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            row: { type: Type.INTEGER, description: "Row of the target cell, 0 is the ceiling" },
+            col: { type: Type.INTEGER, description: "Column of the target cell within its row" },
+            rationale: { type: Type.STRING, description: "One short sentence for the player" }
+          },
+          required: ["row", "col", "rationale"]
+        },
+        temperature: 0.2
+      }
+    });
+
+    const endTime = performance.now();
+    debug.latency = Math.round(endTime - startTime);
+
+    let text = response.text || "{}";
+    debug.rawResponse = text;
+
+    try {
+        const json = JSON.parse(text);
+        debug.parsedResponse = json;
+
+        // The target has to be a real, free cell on this board
+        const row = Number(json.row);
+        const col = Number(json.col);
+        const valid = Number.isInteger(row) && Number.isInteger(col) && row >= 0 && row <= getLowestRow(state) + 1
+            && col >= 0 && col < getRowCols(row, state.cols) && !isOccupied(getBoardGrid(state), row, col);
+        if (valid && json.rationale) {
+            return {
+                advice: { target: { row, col }, rationale: String(json.rationale), source: 'gemini' },
+                debug
+            };
+        }
+        throw new Error(`Invalid target cell ${json.row},${json.col}`);
+
+    } catch (e: any) {
+        console.warn("Failed to use Gemini strategy:", text);
+        return {
+            advice: getLocalStrategyAdvice(state),
+            debug: { ...debug, error: `Invalid Advice: ${e.message}` }
+        };
+    }
+  } catch (error: any) {
+    console.error("Gemini API Error:", error);
+    const endTime = performance.now();
+    debug.latency = Math.round(endTime - startTime);
+    return {
+        advice: getLocalStrategyAdvice(state),
+        debug: { ...debug, error: error.message || "Unknown API Error" }
+    };
+  }
+};
+
+// --- Letter Bubbles ---
+
+// Longer words need more lettered bubbles popped
+const WORD_LENGTHS: Record<Difficulty, [number, number]> = {
+  Easy: [3, 5],
+  Medium: [4, 6],
+  Hard: [5, 8],
+  Infinity: [5, 8]
+};
+
+/** Random word from the built-in list, matched to the topic where possible. */
+export const getLocalVocabularyWord = (topic: string, difficulty: Difficulty, exclude: string[] = []): VocabularyWord => {
+  const lower = topic.toLowerCase();
+  const group = WORD_GROUPS.find(g => g.keywords.some(k => lower.includes(k)));
+  const words = group ? group.words : GENERAL_WORDS;
+  const [min, max] = WORD_LENGTHS[difficulty];
+  const fresh = words.filter(w => !exclude.includes(w.word.toUpperCase()));
+  const fitting = fresh.filter(w => w.word.length >= min && w.word.length <= max);
+  const pool = fitting.length > 0 ? fitting : fresh.length > 0 ? fresh : words;
+  const entry = pool[Math.floor(Math.random() * pool.length)];
+  return { ...entry, source: 'local' };
+};
+
+export const getVocabularyWord = async (
+  topic: string,
+  userLevel: string,
+  difficulty: Difficulty,
+  exclude: string[] = [] // Words already spelled this session, uppercase
+): Promise<VocabularyResponse> => {
+  const startTime = performance.now();
+
+  const debug: DebugInfo = {
+    latency: 0,
+    rawResponse: "",
+    timestamp: new Date().toLocaleTimeString()
+  };
+
+  if (!ai) {
+    return {
+        word: getLocalVocabularyWord(topic, difficulty, exclude),
+        debug: { ...debug, error: "API Key Missing" }
+    };
+  }
+
+  const [min, max] = WORD_LENGTHS[difficulty];
+  const prompt = `
+    You are an English teacher for a student in ${userLevel}.
+    The student is learning about: "${topic}".
+    Pick ONE English vocabulary word for this topic, ${min}-${max} letters long, letters A-Z only (no spaces or hyphens).
+    ${exclude.length > 0 ? `Do not use any of these words: ${exclude.join(', ')}.` : ''}
+    Give a short, simple English definition followed by the Vietnamese meaning in brackets.
+  `;
+
+  try {
+    const response = await ai.models.generateContent({
+      model: MODEL_NAME,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            word: { type: Type.STRING, description: "The vocabulary word, letters only" },
+            definition: { type: Type.STRING, description: "Short definition plus the Vietnamese meaning" }
+          },
+          required: ["word", "definition"]
+        },
+        temperature: 0.9
+      }
+    });
+
+    const endTime = performance.now();
+    debug.latency = Math.round(endTime - startTime);
+
+    let text = response.text || "{}";
+    debug.rawResponse = text;
+
+    try {
+        const json = JSON.parse(text);
+        debug.parsedResponse = json;
+
+        // The word has to fit on the board as single letters
+        const word = String(json.word || '').trim();
+        if (/^[a-z]+$/i.test(word) && word.length >= 3 && word.length <= 8 && !exclude.includes(word.toUpperCase()) && json.definition) {
+            return {
+                word: { word, definition: String(json.definition), source: 'gemini' },
+                debug
+            };
+        }
+        throw new Error(`Unusable word "${word}"`);
+
+    } catch (e: any) {
+        console.warn("Failed to use Gemini word:", text);
+        return {
+            word: getLocalVocabularyWord(topic, difficulty, exclude),
+            debug: { ...debug, error: `Invalid Word: ${e.message}` }
+        };
+    }
+  } catch (error: any) {
+    console.error("Gemini API Error:", error);
+    const endTime = performance.now();
+    debug.latency = Math.round(endTime - startTime);
+    return {
+        word: getLocalVocabularyWord(topic, difficulty, exclude),
+        debug: { ...debug, error: error.message || "Unknown API Error" }
+    };
+  }
+};
@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GestureSettings } from '../types';
+
+// Which hand gestures are switched on, per device: a projector setup and a laptop want different ones
+
+const STORAGE_KEY = 'gemini_slingshot_gestures';
+
+export const DEFAULT_GESTURE_SETTINGS: GestureSettings = { openPalm: true, fist: true, thumbsUp: true, swipe: true };
+
+export const readGestureSettings = (): GestureSettings => {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return DEFAULT_GESTURE_SETTINGS;
+  try {
+    return { ...DEFAULT_GESTURE_SETTINGS, ...JSON.parse(raw) };
+  } catch (e) {
+    console.error("Failed to load gesture settings", e);
+    return DEFAULT_GESTURE_SETTINGS;
+  }
+};
+
+export const writeGestureSettings = (settings: GestureSettings) => localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SavedGame } from '../types';
+
+// One in-progress game, saved on pause and when the tab is hidden so a reload or a sleeping laptop can pick it up again
+
+const STORAGE_KEY = 'gemini_slingshot_saved_game';
+
+// Bumped whenever GameState changes shape, so an old save is never fed to a newer engine
+export const SAVE_VERSION = 1;
+
+/** Saves the game, without its replay if storage is short; null when even that doesn't fit and nothing is saved. */
+export const writeSavedGame = (data: Omit<SavedGame, 'version' | 'savedAt'>): SavedGame | null => {
+  const saved: SavedGame = { version: SAVE_VERSION, savedAt: new Date().toISOString(), ...data };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+    return saved;
+  } catch (e) {
+    // Storage full: the replay is the bulky part
+    saved.replay = null;
+  }
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+    return saved;
+  } catch (e) {
+    console.error("Failed to save game", e);
+    // An older save would resume the wrong game
+    localStorage.removeItem(STORAGE_KEY);
+    return null;
+  }
+};
+
+export const readSavedGame = (): SavedGame | null => {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return null;
+  try {
+    const data = JSON.parse(raw);
+    if (data?.version !== SAVE_VERSION || !Array.isArray(data.game?.bubbles) || typeof data.profile?.name !== 'string') throw new Error('Incompatible save');
+    return data as SavedGame;
+  } catch (e) {
+    console.error("Failed to load saved game", e);
+    localStorage.removeItem(STORAGE_KEY);
+    return null;
+  }
+};
+
+export const clearSavedGame = () => localStorage.removeItem(STORAGE_KEY);
@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Offline vocabulary for Letter Bubbles, used when Gemini is unavailable.
+// A group is picked when any of its keywords appears in the topic name.
+
+export interface WordEntry {
+  word: string;
+  definition: string;
+}
+
+export const WORD_GROUPS: { keywords: string[], words: WordEntry[] }[] = [
+  {
+    keywords: ['food', 'cook', 'drink', 'kitchen'],
+    words: [
+      { word: 'egg', definition: 'A round food laid by a hen (quả trứng).' },
+      { word: 'rice', definition: 'Small white grains we cook and eat every day (cơm, gạo).' },
+      { word: 'soup', definition: 'A hot liquid food made by boiling meat or vegetables (món súp).' },
+      { word: 'bread', definition: 'A food made from flour, water and yeast, then baked (bánh mì).' },
+      { word: 'lemon', definition: 'A sour yellow fruit (quả chanh vàng).' },
+      { word: 'onion', definition: 'A round vegetable with a strong smell that can make you cry (củ hành).' },
+      { word: 'bake', definition: 'To cook food in an oven (nướng bánh).' },
+      { word: 'kettle', definition: 'A pot used to boil water (ấm đun nước).' },
+      { word: 'noodle', definition: 'A long, thin strip of dough, often eaten in soup (sợi mì).' },
+      { word: 'dessert', definition: 'Sweet food eaten at the end of a meal (món tráng miệng).' }
+    ]
+  },
+  {
+    keywords: ['travel', 'trip', 'holiday'],
+    words: [
+      { word: 'map', definition: 'A drawing that shows where places are (bản đồ).' },
+      { word: 'taxi', definition: 'A car you pay to drive you somewhere (xe taxi).' },
+      { word: 'hotel', definition: 'A building where travellers pay to sleep (khách sạn).' },
+      { word: 'beach', definition: 'The sandy land next to the sea (bãi biển).' },
+      { word: 'ticket', definition: 'A paper that lets you travel or enter a place (vé).' },
+      { word: 'airport', definition: 'A place where planes take off and land (sân bay).' },
+      { word: 'luggage', definition: 'The bags you carry when you travel (hành lý).' },
+      { word: 'visa', definition: 'A document that lets you enter another country (thị thực).' }
+    ]
+  },
+  {
+    keywords: ['technology', 'computer', 'tech'],
+    words: [
+      { word: 'app', definition: 'A program on a phone or computer (ứng dụng).' },
+      { word: 'mouse', definition: 'A small device you move to control a computer pointer (chuột máy tính).' },
+      { word: 'robot', definition: 'A machine that can do jobs by itself (người máy).' },
+      { word: 'screen', definition: 'The flat part of a device that shows pictures (màn hình).' },
+      { word: 'laptop', definition: 'A small computer you can carry (máy tính xách tay).' },
+      { word: 'online', definition: 'Connected to the internet (trực tuyến).' },
+      { word: 'printer', definition: 'A machine that puts words and pictures on paper (máy in).' },
+      { word: 'data', definition: 'Facts and numbers stored on a computer (dữ liệu).' }
+    ]
+  },
+  {
+    keywords: ['school', 'grade', 'class'],
+    words: [
+      { word: 'pen', definition: 'A tool for writing with ink (cây bút).' },
+      { word: 'desk', definition: 'A table where you sit to study or work (bàn học).' },
+      { word: 'ruler', definition: 'A straight tool for measuring and drawing lines (thước kẻ).' },
+      { word: 'lesson', definition: 'A period of time when you learn something (bài học).' },
+      { word: 'teacher', definition: 'A person who helps students learn (giáo viên).' },
+      { word: 'library', definition: 'A place where you can read and borrow books (thư viện).' },
+      { word: 'exam', definition: 'A test of what you know (bài kiểm tra, kỳ thi).' },
+      { word: 'homework', definition: 'School work you do at home (bài tập về nhà).' }
+    ]
+  },
+  {
+    keywords: ['business', 'job', 'career', 'work'],
+    words: [
+      { word: 'boss', definition: 'The person in charge of other workers (sếp).' },
+      { word: 'meeting', definition: 'When people come together to talk about work (cuộc họp).' },
+      { word: 'salary', definition: 'Money you are paid for your job every month (tiền lương).' },
+      { word: 'office', definition: 'A room or building where people work at desks (văn phòng).' },
+      { word: 'client', definition: 'A person who pays for a service (khách hàng).' },
+      { word: 'email', definition: 'A message sent over the internet (thư điện tử).' }
+    ]
+  },
+  {
+    keywords: ['harry potter', 'magic', 'wizard'],
+    words: [
+      { word: 'wand', definition: 'A thin stick a wizard uses to do magic (đũa phép).' },
+      { word: 'owl', definition: 'A bird with big eyes that is awake at night (con cú).' },
+      { word: 'spell', definition: 'Magic words that make something happen (câu thần chú).' },
+      { word: 'potion', definition: 'A magic drink (thuốc tiên, độc dược).' },
+      { word: 'castle', definition: 'A large, strong old building with towers (lâu đài).' },
+      { word: 'broom', definition: 'A brush with a long handle; wizards fly on one (cây chổi).' }
+    ]
+  },
+  {
+    keywords: ['animal', 'pet', 'zoo'],
+    words: [
+      { word: 'cat', definition: 'A small furry pet that says "meow" (con mèo).' },
+      { word: 'tiger', definition: 'A big wild cat with orange fur and black stripes (con hổ).' },
+      { word: 'rabbit', definition: 'A small animal with long ears (con thỏ).' },
+      { word: 'monkey', definition: 'An animal that climbs trees and has a long tail (con khỉ).' },
+      { word: 'horse', definition: 'A large animal people can ride (con ngựa).' },
+      { word: 'dolphin', definition: 'A clever sea animal that breathes air (cá heo).' }
+    ]
+  }
+];
+
+// Everyday words for topics that match no group
+export const GENERAL_WORDS: WordEntry[] = [
+  { word: 'sun', definition: 'The star that gives Earth light and heat (mặt trời).' },
+  { word: 'book', definition: 'Pages with writing, joined together (quyển sách).' },
+  { word: 'happy', definition: 'Feeling good and pleased (vui vẻ).' },
+  { word: 'friend', definition: 'A person you like and trust (bạn bè).' },
+  { word: 'family', definition: 'Parents and their children (gia đình).' },
+  { word: 'river', definition: 'A long line of water flowing to the sea (dòng sông).' },
+  { word: 'window', definition: 'An opening in a wall with glass, to let in light (cửa sổ).' },
+  { word: 'weather', definition: 'How hot, cold, wet or sunny it is outside (thời tiết).' },
+  { word: 'garden', definition: 'Land near a house where flowers or vegetables grow (khu vườn).' },
+  { word: 'morning', definition: 'The early part of the day (buổi sáng).' }
+];
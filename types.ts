@@ -15,6 +15,11 @@ export interface Vector {
 
 export type BubbleColor = 'red' | 'blue' | 'green' | 'yellow' | 'purple' | 'orange';
 export type Difficulty = 'Easy' | 'Medium' | 'Hard' | 'Infinity';
+// Rules on top of the difficulty: how a session is won or lost (see MODE_CONFIG)
+export type GameMode = 'classic' | 'timeAttack' | 'puzzle' | 'quizRush';
+// bomb: clears a radius when a shot lands next to it. rainbow: joins any color's cluster.
+// stone: never matches, only falls in an avalanche. ice: needs two hits to pop.
+export type BubbleKind = 'normal' | 'bomb' | 'rainbow' | 'stone' | 'ice';
 
 export interface Bubble {
   id: string;
@@ -22,12 +27,202 @@ export interface Bubble {
   col: number;
   x: number;
   y: number;
-  color: BubbleColor;
+  color: BubbleColor; // Ignored for bomb, rainbow and stone
+  kind: BubbleKind;
+  cracked?: boolean; // Ice that has taken its first hit
+  letter?: string; // Letter Bubbles: one letter of the target word
   active: boolean; // if false, popped
   isFloating?: boolean; // For animation
   popTime?: number; // Timestamp for pop animation
 }
 
+// Letter Bubbles: the vocabulary word being spelled by popping lettered bubbles
+export interface WordTarget {
+  word: string; // Uppercase A-Z
+  definition: string;
+  collected: boolean[]; // Per letter of `word`
+}
+
+export interface Projectile {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  age: number; // Ticks since launch
+}
+
+// Headless game engine state (see engine/gameEngine.ts)
+export interface GameState {
+  width: number;
+  height: number;
+  cols: number;
+  difficulty: Difficulty;
+  mode: GameMode; // Always classic for levels
+  bubbles: Bubble[]; // Only bubbles still attached to the board
+  currentAmmo: BubbleColor;
+  nextAmmo: BubbleColor;
+  upcomingAmmo: BubbleColor[]; // Dealt after nextAmmo; length is the preview depth minus one
+  ammoSwapped: boolean; // Loaded ammo was swapped in from nextAmmo
+  shotSwapped: boolean; // The shot in flight (or awaiting its quiz) used swapped ammo
+  shotBounces: number; // Wall bounces of the shot in flight (or awaiting its quiz)
+  chain: number; // Consecutive shots that made a match
+  quizStreak: number; // Consecutive quizzes answered correctly
+  quizCorrect: number;
+  quizMissed: number; // Answered wrong or skipped
+  projectile: Projectile | null;
+  pendingMatch: string[]; // Cluster waiting for the quiz before it pops
+  quizPending: boolean; // Quiz Rush: a shot without a match waiting for its question
+  score: number;
+  time: number; // Simulated ms
+  lastDropTime: number;
+  rowsDropped: number; // Ceiling drops so far; speeds up Infinity
+  won: boolean;
+  gameOver: boolean;
+  seed: number;
+  rngState: number;
+  nextId: number;
+  level: LevelDefinition | null; // Hand-authored level, or null for a random board
+  ammoQueue: BubbleColor[]; // Scripted ammo still to come (levels only)
+  shotsFired: number;
+  wordTarget: WordTarget | null; // null when Letter Bubbles is off or the next word hasn't arrived yet
+  wordsCompleted: number;
+}
+
+export type EngineInput =
+  | { type: 'shot'; dx: number; dy: number } // Pull vector: anchor minus released ball position
+  | { type: 'tick'; dt: number; holdDrop?: boolean }
+  | { type: 'resolveMatch'; awarded: boolean; correct?: boolean } // correct: answered rather than skipped
+  | { type: 'resize'; width: number; height: number }
+  | { type: 'dropRow' } // Forced drop, used by replays instead of the drop timer
+  | { type: 'setWord'; word: string; definition: string } // New Letter Bubbles target
+  | { type: 'swapAmmo' } // Exchange loaded and next ammo
+  | { type: 'answerQuiz'; correct: boolean } // Quiz Rush question for a shot without a match
+  | { type: 'garbage'; rows: number }; // Versus: rows pushed in by the opponent
+
+export type EngineEvent =
+  | { type: 'launched'; origin: Point; velocity: Vector }
+  | { type: 'bounce'; x: number; y: number }
+  | { type: 'landed'; bubble: Bubble }
+  | { type: 'missed' }
+  | { type: 'ammoSwapped' }
+  | { type: 'matchPending'; bubbles: Bubble[] }
+  | { type: 'quizPending' }
+  | { type: 'matched'; bubbles: Bubble[]; points: number }
+  | { type: 'bombBlast'; origin: Bubble; bubbles: Bubble[]; points: number }
+  | { type: 'iceCracked'; bubbles: Bubble[] }
+  | { type: 'avalanche'; bubbles: Bubble[]; points: number }
+  | { type: 'scored'; items: ScoreItem[]; multipliers: ScoreMultiplier[]; points: number } // Everything a match earned, multipliers applied
+  | { type: 'lettersCollected'; bubbles: Bubble[] }
+  | { type: 'wordCompleted'; word: string; definition: string; points: number }
+  | { type: 'rowDropped' }
+  | { type: 'garbageReceived'; rows: number }
+  | { type: 'boardCleared' }
+  | { type: 'timeUp' }
+  | { type: 'won' }
+  | { type: 'gameOver' };
+
+// One line of a match's score breakdown
+export interface ScoreItem {
+  label: string;
+  points: number;
+}
+
+export interface ScoreMultiplier {
+  label: string;
+  factor: number;
+}
+
+export interface StepResult {
+  state: GameState;
+  events: EngineEvent[];
+}
+
+// Two-player local versus (see engine/versus.ts)
+export interface VersusState {
+  boards: [GameState, GameState];
+  winner: 0 | 1 | null;
+}
+
+// Predicted outcome of one candidate pull (see engine/solver.ts)
+export interface ShotSuggestion {
+  dx: number; // Pull vector, same as a 'shot' input
+  dy: number;
+  cell: { row: number; col: number }; // Where the ammo comes to rest
+  cluster: string[]; // Board bubbles popped together with the shot
+  floating: string[]; // Board bubbles that would drop afterwards
+  path: Point[]; // Projectile position per tick, launch to landing
+  value: number;
+}
+
+// Everything needed to re-run a session through the engine exactly
+export type ReplayInput = Exclude<EngineInput, { type: 'tick' }>;
+
+export interface ReplayEntry {
+  tick: number; // Ticks completed before this input was applied
+  time: number; // Simulated ms, for display
+  input: ReplayInput;
+  ammo?: BubbleColor; // Color loaded when a shot was fired
+}
+
+export interface SessionReplay {
+  version: number; // Engine rules revision; replays only re-run on the revision that recorded them
+  seed: number;
+  difficulty: Difficulty;
+  mode?: GameMode; // Absent for classic
+  width: number;
+  height: number;
+  cols?: number; // Fixed column count (classroom rounds); otherwise derived from width
+  entries: ReplayEntry[];
+  totalTicks: number;
+  duration: number; // Simulated ms
+  finalScore: number;
+  recordedAt: string;
+  level?: LevelDefinition; // Present when the session was a campaign level
+}
+
+// In-progress game kept across reloads (see services/savedGame.ts)
+export interface SavedGame {
+  version: number;
+  savedAt: string;
+  profile: UserProfile; // Includes the teacher's custom questions
+  game: GameState; // Board, ammo, score, drop timer and mode
+  replay: SessionReplay | null; // Dropped when storage is full
+  spelledWords: string[]; // Letter Bubbles words already used
+  testPlay: boolean; // Level came from the editor
+}
+
+// --- Levels (see engine/levels.ts) ---
+
+export type LevelGoal =
+  | { type: 'score'; score: number } // Reach a score
+  | { type: 'clear' } // Pop every bubble on the board
+  | { type: 'shots'; shots: number; score: number }; // Reach a score before the shots run out
+
+export interface LevelDefinition {
+  version: 1;
+  id: string;
+  name: string;
+  description?: string;
+  difficulty?: Difficulty; // Quiz wording and shot hints, defaults to Easy
+  cols: number; // Columns on even rows; odd rows have one less
+  layout: string[]; // One string per row, ceiling first: R B G Y P O, lowercase for ice, X bomb, * rainbow, # stone, . empty. Spaces are ignored
+  ammo: {
+    colors: BubbleColor[]; // Random ammo and new ceiling rows use only these
+    sequence?: BubbleColor[]; // Fired in this order before random ammo starts
+    preview?: number; // Upcoming shots shown, overrides the difficulty default
+  };
+  dropInterval: number; // ms between ceiling drops, 0 = never
+  goal: LevelGoal;
+  stars?: [number, number]; // Scores for the 2nd and 3rd star; completing the level earns the 1st
+  topic?: string; // Quiz topic for this level
+  questions?: QuizQuestion[]; // Fixed question set, used instead of Gemini
+}
+
+export interface LevelPack {
+  name: string;
+  levels: LevelDefinition[];
+}
+
 export interface Particle {
   x: number;
   y: number;
@@ -43,6 +238,90 @@ export interface UserProfile {
   topic: string;
   difficulty: Difficulty;
   customQuestions?: QuizQuestion[]; // Added for Teacher Mode
+  mode?: GameMode; // Defaults to classic
+  letterMode?: boolean; // Letter Bubbles: pop lettered bubbles to spell topic words
+  calibration?: HandCalibration; // From the calibration wizard; defaults suit an adult at arm's length
+}
+
+// --- Hand calibration (see components/handCalibration.ts) ---
+
+export type Handedness = 'any' | 'left' | 'right'; // The player's own hand, not MediaPipe's label
+
+// Part of the camera frame the player can comfortably reach, in normalized camera coordinates; it is stretched over the whole play area
+export interface ActiveArea {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface HandCalibration {
+  version: 1;
+  pinchGrab: number; // Thumb-to-index distance, in hand lengths, below which a pinch closes
+  pinchRelease: number; // Distance above which it opens again; larger than pinchGrab so a held pinch doesn't flicker
+  area: ActiveArea;
+  mirror: boolean; // false flips left and right, for cameras that face the same way as the player
+  handedness: Handedness; // Hand that aims; the other one is ignored
+  calibratedAt: string;
+}
+
+// --- Hand gestures (see components/gestureRecognizer.ts) ---
+
+export type HandGesture = 'openPalm' | 'fist' | 'thumbsUp' | 'swipe';
+
+export type GestureSettings = Record<HandGesture, boolean>; // Each gesture can be turned off
+
+// --- Hand landmark sources (see components/landmarkSources.ts) ---
+
+// Why the webcam isn't tracking: index.html's MediaPipe scripts missing, permission refused, no camera, no camera API (needs https), or it broke starting up
+export type CameraProblem = 'scripts' | 'denied' | 'noCamera' | 'unsupported' | 'failed';
+
+export interface HandLandmark {
+  x: number; // Normalized camera coordinates, 0..1
+  y: number;
+  z: number;
+}
+
+// What MediaPipe Hands hands to onResults; recorded and synthetic sources have no image
+export interface HandResults {
+  image?: CanvasImageSource;
+  multiHandLandmarks: HandLandmark[][];
+  multiHandedness: { label: string; score: number }[];
+}
+
+export interface LandmarkFrame {
+  time: number; // ms since the recording started
+  hands: HandLandmark[][];
+  labels: string[]; // MediaPipe handedness label per hand
+}
+
+export interface LandmarkRecording {
+  version: 1;
+  recordedAt: string;
+  frames: LandmarkFrame[];
+}
+
+// One step of a synthetic hand script; positions are fractions of the screen as the player sees it, 0,0 top left
+export type HandScriptStep =
+  | { type: 'move'; to: Point; ms: number } // Glides there, pinched or not
+  | { type: 'pinch' | 'release' | 'wait' | 'hide'; ms: number }; // Then holds for ms; hide takes the hand out of view until the next move
+
+// --- Camera (see services/cameraSettings.ts and components/cameraFeed.ts) ---
+
+export type CameraQuality = 'low' | 'medium' | 'high'; // Resolution and tracking model, traded against speed
+
+// How the camera picture is shown; hand tracking runs the same in every mode
+export type PrivacyMode = 'off' | 'blur' | 'silhouette' | 'hidden'; // silhouette: only the tracked hands, no picture
+
+export interface CameraSettings {
+  deviceId: string; // '' for the browser's default camera
+  quality: CameraQuality;
+  privacy: PrivacyMode;
+}
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
 }
 
 export interface QuizQuestion {
@@ -66,19 +345,81 @@ export interface AiResponse {
   debug: DebugInfo;
 }
 
+export interface VocabularyWord {
+  word: string;
+  definition: string; // Short learner-friendly meaning
+  source: 'gemini' | 'local';
+}
+
+export interface VocabularyResponse {
+  word: VocabularyWord;
+  debug: DebugInfo;
+}
+
+export interface StrategyAdvice {
+  target: { row: number; col: number }; // Free cell the loaded ammo should settle in
+  rationale: string; // One line, shown in the on-canvas callout
+  source: 'gemini' | 'local';
+}
+
+export interface StrategyResponse {
+  advice: StrategyAdvice;
+  debug: DebugInfo;
+}
+
+// --- Classroom battle (see server/classroomRelay.js and services/classroomService.ts) ---
+
+export type ClassroomRole = 'teacher' | 'student';
+
+// One synchronized match: every student builds the same board and gets the same questions in order
+export interface ClassroomRound {
+  id: number;
+  seed: number;
+  cols: number; // Teacher's column count, so boards match on any screen size
+  difficulty: Difficulty;
+  mode: GameMode;
+  topic: string;
+  questions: QuizQuestion[];
+  startedAt: string;
+}
+
+export interface ClassroomPlayer {
+  id: string;
+  name: string;
+  className: string;
+  score: number;
+  gameOver: boolean;
+  quizCorrect: number;
+  quizMissed: number;
+}
+
+export type ClassroomClientMessage =
+  | { type: 'join'; role: ClassroomRole; name: string; className: string }
+  | { type: 'startRound'; round: Omit<ClassroomRound, 'id' | 'startedAt'> } // Teacher only
+  | { type: 'stopRound' } // Teacher only
+  | { type: 'progress'; score: number; gameOver: boolean; quizCorrect: number; quizMissed: number }; // Student only
+
+export type ClassroomServerMessage =
+  | { type: 'welcome'; id: string; role: ClassroomRole; round: ClassroomRound | null } // round: already running, join it
+  | { type: 'scoreboard'; players: ClassroomPlayer[]; roundActive: boolean } // Students only, best score first
+  | { type: 'roundStarted'; round: ClassroomRound }
+  | { type: 'roundStopped'; players: ClassroomPlayer[] }
+  | { type: 'error'; message: string };
+
 export interface LeaderboardEntry {
   name: string;
   className: string;
   score: number;
   date: string;
   difficulty: Difficulty;
+  mode?: GameMode; // Leaderboard category, absent for classic
+  replay?: SessionReplay;
 }
 
 // MediaPipe Type Definitions (Augmenting window)
 declare global {
   interface Window {
     Hands: any;
-    Camera: any;
     drawConnectors: any;
     drawLandmarks: any;
     HAND_CONNECTIONS: any;